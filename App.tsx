@@ -3,42 +3,62 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, {useCallback, useEffect, useState} from 'react';
+import React, {useCallback, useEffect, useRef, useState} from 'react';
 import ApiKeyDialog from './components/ApiKeyDialog';
+import ErrorNotice, {needsApiKeySelection} from './components/ErrorNotice';
 import LoadingIndicator from './components/LoadingIndicator';
-import PromptForm from './components/PromptForm';
+import PromptForm, {CompareVariantParams} from './components/PromptForm';
 import VideoResult from './components/VideoResult';
+import ComparePlayer, {ComparisonVariant} from './components/ComparePlayer';
+import ExtendTimeline from './components/ExtendTimeline';
 import ImageStudio from './components/ImageStudio';
 import IntelligenceLab from './components/IntelligenceLab';
 import VoiceLab from './components/VoiceLab';
 import CourseStudio from './components/CourseStudio';
-import {generateVideo} from './services/geminiService';
+import Library from './components/Library';
+import JobsPanel, {useJobs} from './components/JobsPanel';
+import {JobStatus, jobQueue} from './services/jobQueue';
+import {deleteAsset} from './services/libraryStore';
+import {ChainSegment, chainPath, createSegment, segmentMarkers} from './services/extendChain';
+import {isMockProvider} from './services/providers';
 import {
   AppState,
   AspectRatio,
   GenerateVideoParams,
   GenerationMode,
+  ImageFile,
+  ImageHandoff,
   Resolution,
   VideoFile,
   NavigationTab,
   VeoModel,
 } from './types';
-import { FilmIcon, ImageIcon, BrainCircuitIcon, MicIcon, LayoutGridIcon, GraduationCapIcon } from 'lucide-react';
+import { FilmIcon, ImageIcon, BrainCircuitIcon, MicIcon, LayoutGridIcon, GraduationCapIcon, LibraryIcon, ListVideoIcon } from 'lucide-react';
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<NavigationTab>(NavigationTab.INTELLIGENCE);
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
   const [lastConfig, setLastConfig] = useState<GenerateVideoParams | null>(null);
-  const [lastVideoObject, setLastVideoObject] = useState<any>(null);
   const [lastVideoBlob, setLastVideoBlob] = useState<Blob | null>(null);
   const [showApiKeyDialog, setShowApiKeyDialog] = useState(false);
   const [initialFormValues, setInitialFormValues] = useState<GenerateVideoParams | null>(null);
+  const [comparison, setComparison] = useState<ComparisonVariant[] | null>(null);
+  const [lastComparison, setLastComparison] = useState<CompareVariantParams[] | null>(null);
+  const [segments, setSegments] = useState<ChainSegment[]>([]);
+  const [activeSegmentId, setActiveSegmentId] = useState<string | null>(null);
+  // The segment an extension in the form will continue from
+  const extendFromRef = useRef<string | null>(null);
+  // Images passed between labs, held until the receiving form picks them up
+  const [imageLabSource, setImageLabSource] = useState<ImageFile | null>(null);
+  const [videoLabHandoff, setVideoLabHandoff] = useState<ImageHandoff | null>(null);
+  const jobs = useJobs();
+  const activeJobCount = jobs.filter(job => job.status === JobStatus.QUEUED || job.status === JobStatus.RUNNING).length;
 
   useEffect(() => {
     const checkApiKey = async () => {
-      if (window.aistudio) {
+      if (window.aistudio && !isMockProvider()) {
         try {
           if (!(await window.aistudio.hasSelectedApiKey())) {
             setShowApiKeyDialog(true);
@@ -51,8 +71,35 @@ const App: React.FC = () => {
     checkApiKey();
   }, []);
 
-  const handleGenerate = useCallback(async (params: GenerateVideoParams) => {
-    if (window.aistudio) {
+  // Segments own their object URLs, so any that drop out of the chain are revoked here
+  const segmentsRef = useRef<ChainSegment[]>([]);
+  useEffect(() => {
+    const kept = new Set(segments.map(segment => segment.videoUrl));
+    segmentsRef.current.forEach(segment => { if (!kept.has(segment.videoUrl)) URL.revokeObjectURL(segment.videoUrl); });
+    segmentsRef.current = segments;
+  }, [segments]);
+
+  // Comparison variants own their object URLs too, revoked once the comparison is replaced or dismissed
+  const comparisonRef = useRef<ComparisonVariant[] | null>(null);
+  useEffect(() => {
+    const kept = new Set(comparison?.map(variant => variant.videoUrl));
+    comparisonRef.current?.forEach(variant => { if (variant.videoUrl && !kept.has(variant.videoUrl)) URL.revokeObjectURL(variant.videoUrl); });
+    comparisonRef.current = comparison;
+  }, [comparison]);
+
+  const showSegment = (segment: ChainSegment) => {
+    setVideoUrl(segment.videoUrl);
+    setLastVideoBlob(segment.blob);
+    setLastConfig(segment.params);
+    setActiveSegmentId(segment.id);
+  };
+
+  /**
+   * Extensions of a chain segment join its tree; anything else starts a new chain. Passing a parent
+   * explicitly (null for a root) re-rolls that position as a new take instead.
+   */
+  const handleGenerate = useCallback(async (params: GenerateVideoParams, parentId?: string | null) => {
+    if (window.aistudio && !isMockProvider()) {
       if (!(await window.aistudio.hasSelectedApiKey())) {
         setShowApiKeyDialog(true);
         return;
@@ -60,22 +107,157 @@ const App: React.FC = () => {
     }
 
     setAppState(AppState.LOADING);
-    setErrorMessage(null);
+    setError(null);
     setLastConfig(params);
+    setComparison(null);
+    setLastComparison(null);
+
+    // Only an extension continues the segment picked in the form; it stays set until that extension succeeds so a retry keeps it
+    const inferredParent = params.mode === GenerationMode.EXTEND_VIDEO && params.inputVideoObject ? extendFromRef.current : null;
+    if (!inferredParent) extendFromRef.current = null;
+
+    try {
+      const job = jobQueue.enqueue(params, {source: NavigationTab.VIDEO});
+      const result = await jobQueue.waitFor(job.id);
+      const segment = createSegment(params, result, parentId !== undefined ? parentId : inferredParent);
+      setSegments(prev => parentId !== undefined || segment.parentId ? [...prev, segment] : [segment]);
+      extendFromRef.current = null;
+      showSegment(segment);
+      setAppState(AppState.SUCCESS);
+    } catch (error) {
+      setError(error);
+      setAppState(AppState.ERROR);
+      if (needsApiKeySelection(error)) setShowApiKeyDialog(true);
+    }
+  }, []);
+
+  const compareJobOptions = ({label, params}: CompareVariantParams) => ({
+    source: NavigationTab.VIDEO,
+    label: `${label}: ${params.prompt.slice(0, 50) || params.mode}`,
+    tags: ['comparison'],
+  });
+
+  const handleCompare = useCallback(async (variants: CompareVariantParams[]) => {
+    if (window.aistudio && !isMockProvider()) {
+      if (!(await window.aistudio.hasSelectedApiKey())) {
+        setShowApiKeyDialog(true);
+        return;
+      }
+    }
+
+    setAppState(AppState.LOADING);
+    setError(null);
+    extendFromRef.current = null;
+    setLastConfig(variants[0].params);
+    setComparison(null);
+    setLastComparison(variants);
 
     try {
-      const {objectUrl, blob, video} = await generateVideo(params);
-      setVideoUrl(objectUrl);
-      setLastVideoBlob(blob);
-      setLastVideoObject(video);
+      const jobs = variants.map(variant => ({
+        ...variant,
+        job: jobQueue.enqueue(variant.params, compareJobOptions(variant)),
+      }));
+      // Settled rather than all, so a finished variant survives when its sibling fails
+      const outcomes = await Promise.allSettled(jobs.map(({job}) => jobQueue.waitFor(job.id)));
+      const results: ComparisonVariant[] = jobs.map(({job, label, params}, i) => {
+        const outcome = outcomes[i];
+        return outcome.status === 'fulfilled'
+          ? {jobId: job.id, label, params, videoUrl: URL.createObjectURL(outcome.value.blob)}
+          : {jobId: job.id, label, params, videoUrl: null, error: outcome.reason};
+      });
+      const failed = results.filter(variant => variant.error);
+      if (failed.length === results.length) throw failed[0].error;
+      if (failed.some(variant => needsApiKeySelection(variant.error))) setShowApiKeyDialog(true);
+      setComparison(results);
       setAppState(AppState.SUCCESS);
-    } catch (error: any) {
-      setErrorMessage(error.message || 'An unknown error occurred.');
+    } catch (error) {
+      setError(error);
       setAppState(AppState.ERROR);
-      if (error.message?.includes('API') || error.message?.includes('permission')) setShowApiKeyDialog(true);
+      if (needsApiKeySelection(error)) setShowApiKeyDialog(true);
     }
   }, []);
 
+  // Re-queues only the variant that failed; the one that finished keeps its clip
+  const handleRetryVariant = async (index: number) => {
+    const variant = comparison?.[index];
+    if (!variant) return;
+    jobQueue.remove(variant.jobId);
+    const job = jobQueue.enqueue(variant.params, compareJobOptions(variant));
+    const update = (patch: Partial<ComparisonVariant>) =>
+      setComparison(prev => prev && prev.map(v => v.jobId === variant.jobId || v.jobId === job.id ? {...v, ...patch} : v));
+    update({jobId: job.id, videoUrl: null, error: null, pending: true});
+    try {
+      const result = await jobQueue.waitFor(job.id);
+      update({videoUrl: URL.createObjectURL(result.blob), pending: false});
+    } catch (error) {
+      update({error, pending: false});
+      if (needsApiKeySelection(error)) setShowApiKeyDialog(true);
+    }
+  };
+
+  // The winner becomes the current result; the other clips are dropped from the queue and the library
+  const handlePickWinner = (index: number) => {
+    if (!comparison) return;
+    const winner = comparison[index];
+    const result = winner.videoUrl && jobQueue.getResult(winner.jobId);
+    if (!result) return;
+    comparison.forEach((variant, i) => {
+      if (i === index) return;
+      const assetId = jobQueue.getJobs().find(job => job.id === variant.jobId)?.assetId;
+      if (assetId) deleteAsset(assetId).catch(error => console.warn('Failed to discard comparison clip', error));
+      jobQueue.remove(variant.jobId);
+    });
+    const segment = createSegment(winner.params, result, null);
+    setSegments([segment]);
+    showSegment(segment);
+    setComparison(null);
+    setLastComparison(null);
+  };
+
+  const handleExtendFrom = (segment: ChainSegment) => {
+    extendFromRef.current = segment.id;
+    setInitialFormValues({
+      prompt: segment.params.prompt || '',
+      model: segment.params.model || VeoModel.VEO_FAST,
+      aspectRatio: segment.params.aspectRatio || AspectRatio.LANDSCAPE,
+      resolution: Resolution.P720,
+      mode: GenerationMode.EXTEND_VIDEO,
+      inputVideoObject: segment.video,
+      inputVideoUrl: segment.videoUrl,
+    });
+    setAppState(AppState.IDLE);
+  };
+
+  // A fresh form no longer continues the chain, so a later extension can't attach to the old parent
+  const handleNewVideo = () => {
+    extendFromRef.current = null;
+    setInitialFormValues(null);
+    setAppState(AppState.IDLE);
+  };
+
+  const handleSendToImageLab = (image: ImageFile) => {
+    setImageLabSource(image);
+    setActiveTab(NavigationTab.IMAGE);
+  };
+
+  const handleSendToVideoLab = (handoff: ImageHandoff) => {
+    setVideoLabHandoff(handoff);
+    setActiveTab(NavigationTab.VIDEO);
+    // A running generation keeps its screen; the image waits until the form is shown again
+    if (appState !== AppState.LOADING) setAppState(AppState.IDLE);
+  };
+
+  const findSegment = (id: string | null) => segments.find(segment => segment.id === id);
+
+  const chain = chainPath(segments, activeSegmentId);
+  const activeMarkers = segmentMarkers(chain.slice(0, chain.findIndex(segment => segment.id === activeSegmentId) + 1));
+
+  const handleRetry = () => lastComparison ? handleCompare(lastComparison) : handleGenerate(lastConfig!);
+
+  const handleQueue = useCallback((params: GenerateVideoParams) => {
+    jobQueue.enqueue(params, {source: NavigationTab.VIDEO});
+  }, []);
+
   const handleApiKeyDialogContinue = async () => {
     setShowApiKeyDialog(false);
     if (window.aistudio) {
@@ -89,6 +271,8 @@ const App: React.FC = () => {
     { id: NavigationTab.VIDEO, icon: FilmIcon, label: 'Video Lab' },
     { id: NavigationTab.VOICE, icon: MicIcon, label: 'Voice Lab' },
     { id: NavigationTab.COURSE, icon: GraduationCapIcon, label: 'Course Studio' },
+    { id: NavigationTab.JOBS, icon: ListVideoIcon, label: 'Render Queue' },
+    { id: NavigationTab.LIBRARY, icon: LibraryIcon, label: 'Library' },
   ];
 
   return (
@@ -116,6 +300,9 @@ const App: React.FC = () => {
           >
             <item.icon className={`w-6 h-6 shrink-0 transition-transform ${activeTab === item.id ? 'scale-110' : 'group-hover:scale-110'}`} />
             <span className="font-medium hidden md:block">{item.label}</span>
+            {item.id === NavigationTab.JOBS && activeJobCount > 0 && (
+              <span className="ml-auto hidden md:block px-2 py-0.5 bg-indigo-600 text-white text-[10px] font-black rounded-full">{activeJobCount}</span>
+            )}
           </button>
         ))}
       </nav>
@@ -139,40 +326,80 @@ const App: React.FC = () => {
                     <p className="text-gray-500 max-w-xl mx-auto">Create stunning visuals with Veo 3.1. Describe your scene, upload reference frames, or extend existing clips.</p>
                   </div>
                   <div className="mt-auto">
-                    <PromptForm onGenerate={handleGenerate} initialValues={initialFormValues} />
+                    <PromptForm
+                      onGenerate={handleGenerate}
+                      onQueue={handleQueue}
+                      onCompare={handleCompare}
+                      initialValues={initialFormValues}
+                      incomingImage={videoLabHandoff}
+                      onIncomingImageUsed={() => setVideoLabHandoff(null)}
+                    />
                   </div>
                 </div>
               ) : (
-                <div className="flex-grow flex items-center justify-center">
+                <div className="flex-grow flex flex-col items-center justify-center gap-8">
                   {appState === AppState.LOADING && <LoadingIndicator />}
-                  {appState === AppState.SUCCESS && videoUrl && (
+                  {appState === AppState.SUCCESS && comparison && (
+                    <ComparePlayer
+                      variants={comparison}
+                      aspectRatio={lastConfig?.aspectRatio || AspectRatio.LANDSCAPE}
+                      onPickWinner={handlePickWinner}
+                      onRetryVariant={handleRetryVariant}
+                      onNewVideo={() => {
+                        setComparison(null);
+                        handleNewVideo();
+                      }}
+                    />
+                  )}
+                  {appState === AppState.SUCCESS && !comparison && videoUrl && (
                     <VideoResult
+                      key={activeSegmentId ?? videoUrl}
                       videoUrl={videoUrl}
-                      onRetry={() => handleGenerate(lastConfig!)}
-                      onNewVideo={() => {
-                        setInitialFormValues(null);
-                        setAppState(AppState.IDLE);
+                      videoBlob={lastVideoBlob}
+                      onRetry={() => {
+                        const segment = findSegment(activeSegmentId);
+                        if (segment) handleGenerate(segment.params, segment.parentId);
                       }}
+                      onNewVideo={handleNewVideo}
                       onExtend={() => {
-                        setInitialFormValues({
-                          prompt: lastConfig?.prompt || '',
-                          model: lastConfig?.model || VeoModel.VEO_FAST,
-                          aspectRatio: lastConfig?.aspectRatio || AspectRatio.LANDSCAPE,
-                          resolution: Resolution.P720,
-                          mode: GenerationMode.EXTEND_VIDEO,
-                          inputVideoObject: lastVideoObject,
-                          inputVideoUrl: videoUrl,
-                        });
-                        setAppState(AppState.IDLE);
-                      }} 
+                        const segment = findSegment(activeSegmentId);
+                        if (segment) handleExtendFrom(segment);
+                      }}
                       canExtend={lastConfig?.resolution === Resolution.P720}
                       aspectRatio={lastConfig?.aspectRatio || AspectRatio.LANDSCAPE}
+                      markers={activeMarkers}
+                      prompt={lastConfig?.prompt}
+                      onSendToImageLab={handleSendToImageLab}
+                    />
+                  )}
+                  {appState === AppState.SUCCESS && !comparison && segments.length > 0 && (
+                    <ExtendTimeline
+                      segments={segments}
+                      activeId={activeSegmentId}
+                      onSelect={(id) => {
+                        const segment = findSegment(id);
+                        if (segment) showSegment(segment);
+                      }}
+                      onBranch={(id) => {
+                        const segment = findSegment(id);
+                        if (segment) handleExtendFrom(segment);
+                      }}
+                      onReroll={(id) => {
+                        const segment = findSegment(id);
+                        if (segment) handleGenerate(segment.params, segment.parentId);
+                      }}
+                      onDuration={(id, duration) =>
+                        setSegments(prev => prev.map(segment => segment.id === id ? {...segment, duration} : segment))
+                      }
                     />
                   )}
                   {appState === AppState.ERROR && (
-                    <div className="text-center max-w-md bg-red-900/10 border border-red-500/20 p-10 rounded-3xl">
-                      <p className="text-red-400 mb-6">{errorMessage}</p>
-                      <button onClick={() => setAppState(AppState.IDLE)} className="px-8 py-3 bg-red-600 rounded-xl hover:bg-red-500 transition-colors font-bold">Try Again</button>
+                    <div className="max-w-md w-full">
+                      <ErrorNotice
+                        error={error}
+                        onRetry={handleRetry}
+                        onDismiss={() => setAppState(AppState.IDLE)}
+                      />
                     </div>
                   )}
                 </div>
@@ -180,10 +407,18 @@ const App: React.FC = () => {
             </div>
           )}
 
-          {activeTab === NavigationTab.IMAGE && <ImageStudio />}
+          {activeTab === NavigationTab.IMAGE && (
+            <ImageStudio
+              incomingImage={imageLabSource}
+              onIncomingImageUsed={() => setImageLabSource(null)}
+              onSendToVideoLab={handleSendToVideoLab}
+            />
+          )}
           {activeTab === NavigationTab.INTELLIGENCE && <IntelligenceLab />}
           {activeTab === NavigationTab.VOICE && <VoiceLab />}
           {activeTab === NavigationTab.COURSE && <CourseStudio />}
+          {activeTab === NavigationTab.JOBS && <JobsPanel />}
+          {activeTab === NavigationTab.LIBRARY && <Library />}
         </div>
       </main>
     </div>
@@ -0,0 +1,249 @@
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import { FileImageIcon, XIcon, DownloadIcon, Loader2Icon } from 'lucide-react';
+import {
+  AnimationFormat,
+  AnimationOptions,
+  DitherMode,
+  PaletteMode,
+  animationExtensions,
+  animationFrameCount,
+  animationSize,
+  estimateAnimationBytes,
+  exportAnimation,
+} from '../services/animationExport';
+import { SPEED_PRESETS } from '../services/videoComposer';
+import ErrorNotice from './ErrorNotice';
+
+const formats: { value: AnimationFormat; label: string; hint: string }[] = [
+  { value: 'gif', label: 'GIF', hint: 'Plays everywhere; limited to 256 colors' },
+  { value: 'webp', label: 'WebP', hint: 'Far smaller, full color; modern browsers' },
+  { value: 'apng', label: 'APNG', hint: 'Lossless full color; large files' },
+];
+const LONG_SIDES = [320, 480, 640, 800, 1080];
+const FRAME_RATES = [5, 10, 12, 15, 24];
+const PALETTE_SIZES = [16, 32, 64, 128, 256];
+const LOOP_OPTIONS = [{ value: 0, label: 'Forever' }, { value: 1, label: 'Once' }, { value: 2, label: '2 times' }, { value: 3, label: '3 times' }];
+const dithers: { value: DitherMode; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'floyd-steinberg', label: 'Floyd–Steinberg' },
+  { value: 'bayer', label: 'Ordered' },
+];
+
+// The finished file is assembled in memory, so past this the tab may run out of it
+const LARGE_EXPORT_BYTES = 200 * 1024 * 1024;
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+interface AnimationExportDialogProps {
+  videoUrl: string;
+  duration: number;
+  aspect: number; // Width over height of the source video
+  onClose: () => void;
+}
+
+const selectClass = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-600';
+const labelClass = 'block text-xs font-bold text-gray-500 uppercase mb-1.5';
+
+const AnimationExportDialog: React.FC<AnimationExportDialogProps> = ({ videoUrl, duration, aspect, onClose }) => {
+  const [format, setFormat] = useState<AnimationFormat>('gif');
+  const [longSide, setLongSide] = useState(640);
+  const [fps, setFps] = useState(10);
+  const [speed, setSpeed] = useState(1);
+  const [start, setStart] = useState(0);
+  const [end, setEnd] = useState(duration);
+  const [loop, setLoop] = useState(0);
+  const [colors, setColors] = useState(256);
+  const [paletteMode, setPaletteMode] = useState<PaletteMode>('global');
+  const [dither, setDither] = useState<DitherMode>('floyd-steinberg');
+  const [quality, setQuality] = useState(0.8);
+  const [progress, setProgress] = useState<{ stage: 'capture' | 'encode'; value: number } | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const options: AnimationOptions = {
+    format, ...animationSize(aspect, longSide), fps, speed, start, end, loop, colors, paletteMode, dither, quality,
+  };
+  const frames = animationFrameCount(options);
+  const estimatedBytes = estimateAnimationBytes(options);
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress({ stage: 'capture', value: 0 });
+    try {
+      const blob = await exportAnimation(videoUrl, options, {
+        signal: controller.signal,
+        onProgress: (stage, value) => setProgress({ stage, value }),
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `veo-studio-creation.${animationExtensions[format]}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      if (!controller.signal.aborted) setError(e);
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+      <div className="w-full max-w-xl max-h-full overflow-y-auto bg-gray-900 rounded-3xl border border-gray-800 p-6 flex flex-col gap-5 text-left">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <FileImageIcon className="w-5 h-5 text-amber-400" />
+            <div>
+              <p className="font-bold">Export Animation</p>
+              <p className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">
+                {options.width}×{options.height} · {frames} frames · ≈ {formatBytes(estimatedBytes)}
+              </p>
+            </div>
+          </div>
+          <button onClick={handleClose} className="p-2 rounded-lg text-gray-500 hover:bg-gray-800 hover:text-white" aria-label="Close export">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {formats.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setFormat(option.value)}
+              className={`p-3 rounded-xl border text-left transition-colors ${format === option.value ? 'bg-amber-600/10 border-amber-600/50' : 'bg-black/20 border-gray-800 hover:border-gray-700'}`}
+            >
+              <p className="text-sm font-bold">{option.label}</p>
+              <p className="text-[10px] text-gray-500 leading-snug">{option.hint}</p>
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Size (long side)</label>
+            <select value={longSide} onChange={(e) => setLongSide(Number(e.target.value))} className={selectClass}>
+              {LONG_SIDES.map(side => <option key={side} value={side}>{side}px</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Frame rate</label>
+            <select value={fps} onChange={(e) => setFps(Number(e.target.value))} className={selectClass}>
+              {FRAME_RATES.map(rate => <option key={rate} value={rate}>{rate} fps</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Speed</label>
+            <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))} className={selectClass}>
+              {SPEED_PRESETS.map(preset => <option key={preset} value={preset}>{preset}x</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Loop</label>
+            <select value={loop} onChange={(e) => setLoop(Number(e.target.value))} className={selectClass}>
+              {LOOP_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Range · {start.toFixed(1)}s – {end.toFixed(1)}s</label>
+          <div className="flex flex-col gap-1">
+            <input
+              type="range" min={0} max={duration} step={0.1} value={start}
+              onChange={(e) => setStart(Math.min(Number(e.target.value), end - 0.1))}
+              className="accent-amber-500" aria-label="Start time"
+            />
+            <input
+              type="range" min={0} max={duration} step={0.1} value={end}
+              onChange={(e) => setEnd(Math.max(Number(e.target.value), start + 0.1))}
+              className="accent-amber-500" aria-label="End time"
+            />
+          </div>
+        </div>
+
+        {format === 'gif' && (
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Colors</label>
+              <select value={colors} onChange={(e) => setColors(Number(e.target.value))} className={selectClass}>
+                {PALETTE_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Palette</label>
+              <select value={paletteMode} onChange={(e) => setPaletteMode(e.target.value as PaletteMode)} className={selectClass}>
+                <option value="global">Shared</option>
+                <option value="local">Per frame</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Dither</label>
+              <select value={dither} onChange={(e) => setDither(e.target.value as DitherMode)} className={selectClass}>
+                {dithers.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </div>
+          </div>
+        )}
+
+        {format === 'webp' && (
+          <div>
+            <label className={labelClass}>Quality · {Math.round(quality * 100)}</label>
+            <input
+              type="range" min={0.3} max={1} step={0.05} value={quality}
+              onChange={(e) => setQuality(Number(e.target.value))}
+              className="w-full accent-amber-500"
+            />
+          </div>
+        )}
+
+        {estimatedBytes > LARGE_EXPORT_BYTES && (
+          <p className="text-xs text-amber-400">
+            This export could be too large for the browser to finish. Shorten the range or lower the size or frame rate.
+          </p>
+        )}
+
+        {!!error && <ErrorNotice error={error} onRetry={handleExport} onDismiss={() => setError(null)} compact />}
+
+        {progress ? (
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between text-xs text-gray-400">
+              <span className="flex items-center gap-2">
+                <Loader2Icon className="w-3 h-3 animate-spin" />
+                {progress.stage === 'capture' ? 'Capturing frames' : 'Encoding'} · {Math.round(progress.value * 100)}%
+              </span>
+              <button onClick={() => abortRef.current?.abort()} className="font-bold text-red-400 hover:text-red-300">Cancel</button>
+            </div>
+            <div className="h-1.5 rounded-full bg-gray-800 overflow-hidden">
+              <div className="h-full bg-amber-500 transition-all" style={{ width: `${progress.value * 100}%` }} />
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={handleExport}
+            className="py-3 bg-amber-600 hover:bg-amber-500 rounded-xl font-bold text-sm flex items-center justify-center gap-2"
+          >
+            <DownloadIcon className="w-4 h-4" /> Export {formats.find(option => option.value === format)!.label}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnimationExportDialog;
@@ -0,0 +1,166 @@
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo } from 'react';
+import { CaptionsIcon, PlusIcon, TrashIcon, DownloadIcon, Loader2Icon, SparklesIcon } from 'lucide-react';
+import { CaptionFormat, captionsToBlob, cuesToVtt } from '../services/captions';
+import { CaptionCue } from '../types';
+import ErrorNotice from './ErrorNotice';
+
+/** Object URL of the cues as WebVTT, for a `<track>` element. Key the track on it so edits show up immediately. */
+export const useCaptionTrackUrl = (cues: CaptionCue[]) => {
+  const url = useMemo(
+    () => cues.length > 0 ? URL.createObjectURL(new Blob([cuesToVtt(cues)], { type: 'text/vtt' })) : null,
+    [cues],
+  );
+  useEffect(() => () => { if (url) URL.revokeObjectURL(url); }, [url]);
+  return url;
+};
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${m}:${s}`;
+};
+
+interface CaptionEditorProps {
+  cues: CaptionCue[];
+  onChange: (cues: CaptionCue[]) => void;
+  onGenerate: () => void;
+  generateLabel: string;
+  isGenerating: boolean;
+  error?: unknown;
+  onDismissError?: () => void;
+  currentTime?: number;
+  onSeek?: (time: number) => void;
+  fileName?: string;
+}
+
+const CaptionEditor: React.FC<CaptionEditorProps> = ({
+  cues,
+  onChange,
+  onGenerate,
+  generateLabel,
+  isGenerating,
+  error,
+  onDismissError,
+  currentTime = 0,
+  onSeek,
+  fileName = 'captions',
+}) => {
+  const updateCue = (id: string, patch: Partial<CaptionCue>) => {
+    onChange(cues.map(cue => cue.id === id ? { ...cue, ...patch } : cue));
+  };
+
+  const addCue = () => {
+    const last = cues[cues.length - 1];
+    const start = last ? last.end : currentTime;
+    onChange([...cues, { id: crypto.randomUUID(), start, end: start + 2, text: '' }]);
+  };
+
+  const handleExport = (format: CaptionFormat) => {
+    const url = URL.createObjectURL(captionsToBlob(cues, format));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="w-full bg-gray-900/50 rounded-2xl border border-gray-800 p-5 flex flex-col gap-4 text-left">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <CaptionsIcon className="w-5 h-5 text-indigo-400" />
+          <div>
+            <p className="font-bold text-sm">Captions</p>
+            <p className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">{cues.length} cues</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onGenerate}
+            disabled={isGenerating}
+            className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-800 disabled:text-gray-600 rounded-lg text-xs font-bold flex items-center gap-2"
+          >
+            {isGenerating ? <Loader2Icon className="w-3 h-3 animate-spin" /> : <SparklesIcon className="w-3 h-3" />}
+            {isGenerating ? 'Generating...' : generateLabel}
+          </button>
+          {(['vtt', 'srt'] as CaptionFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={cues.length === 0}
+              className="px-3 py-1.5 rounded-lg border bg-gray-800 border-gray-700 text-gray-400 hover:text-white disabled:opacity-40 text-xs font-bold flex items-center gap-1.5 uppercase"
+            >
+              <DownloadIcon className="w-3 h-3" /> {format}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!!error && <ErrorNotice error={error} onRetry={onGenerate} onDismiss={onDismissError} compact />}
+
+      <div className="flex flex-col gap-2 max-h-80 overflow-y-auto pr-1">
+        {cues.map(cue => {
+          const isActive = currentTime >= cue.start && currentTime < cue.end;
+          return (
+            <div
+              key={cue.id}
+              className={`flex items-start gap-2 p-2 rounded-xl border transition-colors ${isActive ? 'bg-indigo-600/10 border-indigo-600/40' : 'bg-black/20 border-gray-800'}`}
+            >
+              <button
+                onClick={() => onSeek?.(cue.start)}
+                className="mt-1 text-[10px] font-mono text-gray-500 hover:text-indigo-400 w-14 shrink-0 text-left"
+                title="Jump to cue"
+              >
+                {formatTime(cue.start)}
+              </button>
+              <div className="flex flex-col gap-1 shrink-0">
+                <input
+                  type="number"
+                  step={0.1}
+                  min={0}
+                  value={Number(cue.start.toFixed(2))}
+                  onChange={(e) => updateCue(cue.id, { start: Math.max(0, Number(e.target.value)) })}
+                  className="w-20 bg-black/40 border border-gray-800 rounded-lg px-2 py-1 text-xs font-mono"
+                  aria-label="Cue start in seconds"
+                />
+                <input
+                  type="number"
+                  step={0.1}
+                  min={0}
+                  value={Number(cue.end.toFixed(2))}
+                  onChange={(e) => updateCue(cue.id, { end: Math.max(0, Number(e.target.value)) })}
+                  className="w-20 bg-black/40 border border-gray-800 rounded-lg px-2 py-1 text-xs font-mono"
+                  aria-label="Cue end in seconds"
+                />
+              </div>
+              <textarea
+                value={cue.text}
+                onChange={(e) => updateCue(cue.id, { text: e.target.value })}
+                rows={2}
+                className={`flex-grow bg-black/40 border rounded-lg px-3 py-1.5 text-sm resize-none ${cue.end <= cue.start ? 'border-red-600/50' : 'border-gray-800'}`}
+              />
+              <button onClick={() => onChange(cues.filter(c => c.id !== cue.id))} className="p-1.5 rounded-lg text-gray-500 hover:bg-red-600/20 hover:text-red-400" aria-label="Delete cue">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        })}
+        <button
+          onClick={addCue}
+          className="py-2 border-2 border-dashed border-gray-800 hover:border-indigo-600 rounded-xl text-xs font-bold text-gray-500 hover:text-indigo-400 flex items-center justify-center gap-2 transition-colors"
+        >
+          <PlusIcon className="w-4 h-4" /> Add Cue
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CaptionEditor;
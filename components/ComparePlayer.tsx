@@ -0,0 +1,232 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useCallback, useEffect, useRef, useState} from 'react';
+import {AspectRatio, GenerateVideoParams} from '../types';
+import {
+  PauseIcon,
+  PlayIcon,
+  PlusIcon,
+  StepBackIcon,
+  StepForwardIcon,
+  TrophyIcon,
+  Volume2Icon,
+  VolumeXIcon,
+} from './icons';
+import ErrorNotice from './ErrorNotice';
+
+// Veo renders at 24fps, so one step moves exactly one frame
+const FRAME_DURATION = 1 / 24;
+// How far the follower may drift from the leader before it is re-seeked
+const MAX_DRIFT = 0.08;
+
+export interface ComparisonVariant {
+  jobId: string;
+  label: string;
+  params: GenerateVideoParams;
+  videoUrl: string | null; // Null while the variant renders again or after it failed
+  error?: unknown;
+  pending?: boolean; // Re-queued after a failure
+}
+
+interface ComparePlayerProps {
+  variants: ComparisonVariant[];
+  aspectRatio: AspectRatio;
+  onPickWinner: (index: number) => void;
+  onRetryVariant: (index: number) => void;
+  onNewVideo: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(2).padStart(5, '0');
+  return `${m}:${s}`;
+};
+
+const ComparePlayer: React.FC<ComparePlayerProps> = ({
+  variants,
+  aspectRatio,
+  onPickWinner,
+  onRetryVariant,
+  onNewVideo,
+}) => {
+  const isPortrait = aspectRatio === AspectRatio.PORTRAIT;
+  const videoRefs = useRef<(HTMLVideoElement | null)[]>([]);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [durations, setDurations] = useState<number[]>([]);
+  const [audibleIndex, setAudibleIndex] = useState(0);
+  const duration = Math.max(0, ...durations.filter(Boolean));
+
+  const videos = () => videoRefs.current.filter((v): v is HTMLVideoElement => !!v);
+
+  const seek = useCallback((time: number) => {
+    const clamped = Math.min(Math.max(0, time), duration || time);
+    videoRefs.current.forEach((video) => {
+      if (video) video.currentTime = Math.min(clamped, video.duration || clamped);
+    });
+    setCurrentTime(clamped);
+  }, [duration]);
+
+  const pause = () => {
+    videos().forEach((video) => video.pause());
+    setIsPlaying(false);
+  };
+
+  const play = () => {
+    if (duration && currentTime >= duration - FRAME_DURATION) seek(0);
+    videos().forEach((video) => {
+      if (video.currentTime < video.duration) video.play().catch(() => {});
+    });
+    setIsPlaying(true);
+  };
+
+  const step = (frames: number) => {
+    pause();
+    seek(currentTime + frames * FRAME_DURATION);
+  };
+
+  // The longest clip leads; the others are nudged back into sync every frame while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const sync = () => {
+      const all = videos();
+      const leader = all.reduce<HTMLVideoElement | null>(
+        (longest, video) => (!longest || video.duration > longest.duration ? video : longest),
+        null,
+      );
+      if (leader) {
+        all.forEach((video) => {
+          if (video === leader || video.ended) return;
+          if (leader.currentTime < video.duration && Math.abs(video.currentTime - leader.currentTime) > MAX_DRIFT) {
+            video.currentTime = leader.currentTime;
+          }
+        });
+        setCurrentTime(leader.currentTime);
+        if (all.every((video) => video.ended || video.paused)) {
+          setIsPlaying(false);
+          return;
+        }
+      }
+      frame = requestAnimationFrame(sync);
+    };
+    frame = requestAnimationFrame(sync);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  return (
+    <div className="w-full relative flex flex-col items-center gap-8 p-12 bg-gray-800/50 rounded-lg border border-gray-700 shadow-2xl overflow-visible">
+      <button
+        onClick={onNewVideo}
+        className="absolute top-4 left-4 flex items-center gap-2 px-3 py-1.5 bg-purple-600/80 hover:bg-purple-600 text-white text-xs font-semibold rounded-lg transition-all active:scale-95 shadow-lg shadow-purple-900/20 z-10">
+        <PlusIcon className="w-4 h-4" />
+        New Video
+      </button>
+
+      <div className="text-center">
+        <h2 className="text-2xl font-bold text-gray-200">Compare Variants</h2>
+        <p className="text-sm text-gray-400 mt-1 italic">
+          Both clips play on one timeline. Keep the winner; the other is discarded.
+        </p>
+      </div>
+
+      <div className={`w-full grid gap-6 ${isPortrait ? 'grid-cols-2 max-w-2xl' : 'grid-cols-1 md:grid-cols-2'}`}>
+        {variants.map((variant, index) => (
+          <div key={variant.jobId} className="flex flex-col gap-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <span className="px-1.5 py-0.5 bg-indigo-600 text-[10px] font-black rounded uppercase tracking-tighter mr-2">
+                  {String.fromCharCode(65 + index)}
+                </span>
+                <span className="text-sm font-semibold text-gray-200">{variant.label}</span>
+              </div>
+              <button
+                onClick={() => setAudibleIndex(index)}
+                className={`p-1.5 rounded-md ${audibleIndex === index ? 'text-indigo-300 bg-indigo-600/20' : 'text-gray-500 hover:text-white'}`}
+                title={audibleIndex === index ? 'Playing audio from this clip' : 'Listen to this clip'}
+                aria-label={`Listen to variant ${String.fromCharCode(65 + index)}`}>
+                {audibleIndex === index ? <Volume2Icon className="w-4 h-4" /> : <VolumeXIcon className="w-4 h-4" />}
+              </button>
+            </div>
+            <div className={`w-full ${isPortrait ? 'aspect-[9/16]' : 'aspect-video'} rounded-lg overflow-hidden bg-black border border-indigo-500/30`}>
+              {variant.videoUrl ? (
+                <video
+                  ref={(el) => { videoRefs.current[index] = el; }}
+                  src={variant.videoUrl}
+                  muted={audibleIndex !== index}
+                  playsInline
+                  className="w-full h-full object-contain"
+                  onLoadedMetadata={(e) => {
+                    const value = e.currentTarget.duration;
+                    setDurations((prev) => Object.assign([...prev], {[index]: value}));
+                  }}
+                />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center p-4">
+                  {variant.pending ? (
+                    <span className="text-sm text-gray-400 animate-pulse">Rendering again...</span>
+                  ) : (
+                    <ErrorNotice error={variant.error} onRetry={() => onRetryVariant(index)} compact />
+                  )}
+                </div>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 italic line-clamp-2" title={variant.params.prompt}>
+              {variant.params.prompt || variant.params.mode}
+            </p>
+            <button
+              onClick={() => onPickWinner(index)}
+              disabled={!variant.videoUrl}
+              className="flex items-center justify-center gap-2 px-4 py-2.5 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-all active:scale-95 shadow-lg shadow-emerald-900/20">
+              <TrophyIcon className="w-5 h-5" />
+              Pick {String.fromCharCode(65 + index)}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="w-full max-w-2xl flex items-center gap-3 bg-[#1f1f1f] border border-gray-700 rounded-xl px-4 py-3">
+        <button
+          onClick={() => step(-1)}
+          className="p-2 rounded-full text-gray-300 hover:bg-gray-700 hover:text-white"
+          title="Previous frame"
+          aria-label="Previous frame">
+          <StepBackIcon className="w-5 h-5" />
+        </button>
+        <button
+          onClick={isPlaying ? pause : play}
+          className="p-2.5 bg-indigo-600 rounded-full hover:bg-indigo-500 text-white"
+          aria-label={isPlaying ? 'Pause both' : 'Play both'}>
+          {isPlaying ? <PauseIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
+        </button>
+        <button
+          onClick={() => step(1)}
+          className="p-2 rounded-full text-gray-300 hover:bg-gray-700 hover:text-white"
+          title="Next frame"
+          aria-label="Next frame">
+          <StepForwardIcon className="w-5 h-5" />
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step={FRAME_DURATION}
+          value={currentTime}
+          onChange={(e) => {
+            pause();
+            seek(Number(e.target.value));
+          }}
+          className="flex-grow accent-indigo-500"
+          aria-label="Shared timeline"
+        />
+        <span className="text-xs font-mono text-gray-400 w-28 text-right">
+          {formatTime(currentTime)} / {formatTime(duration)}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default ComparePlayer;
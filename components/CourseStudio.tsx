@@ -3,48 +3,293 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState } from 'react';
-import { BookOpenIcon, PlayIcon, SparklesIcon, FileTextIcon, Loader2Icon, CheckCircle2Icon, GraduationCapIcon, FilmIcon } from 'lucide-react';
-import { generateVideo, processCourseScript } from '../services/geminiService';
-import { AppState, AspectRatio, GenerationMode, Resolution, VeoModel } from '../types';
-import VideoResult from './VideoResult';
+import React, { useEffect, useRef, useState } from 'react';
+import { BookOpenIcon, PlayIcon, SparklesIcon, FileTextIcon, Loader2Icon, GraduationCapIcon, FilmIcon, ArrowLeftIcon, Volume2Icon, ClapperboardIcon, DownloadIcon, XIcon, PackageIcon } from 'lucide-react';
+import { generateQuiz, storyboardCourseScript } from '../services/geminiService';
+import { jobQueue } from '../services/jobQueue';
+import { decodeBase64, pcmDuration, pcmToAudioBuffer } from '../services/audioUtils';
+import { normalizePcm } from '../services/audioMastering';
+import { SpeechAttempt, generateLongSpeech } from '../services/longSpeech';
+import { ComposeFormat, composeVideo, getRecorderMimeType } from '../services/videoComposer';
+import { archiveAsset, listKits } from '../services/libraryStore';
+import { applyKit } from '../services/consistencyKits';
+import { DEFAULT_SECOND_VOICE, DEFAULT_TTS_VOICE, speechOptionsForScript } from '../services/voices';
+import { LmsFormat, LmsVideo, exportLessonPackage } from '../services/lmsExport';
+import { NarrationSegment, narrationToCues } from '../services/captions';
+import { AppState, AspectRatio, AssetKind, CaptionCue, ClipFitMode, ConsistencyKit, CourseScene, GenerateVideoParams, GenerationMode, NavigationTab, QuizQuestion, Resolution, SceneStatus, VeoModel } from '../types';
 import LoadingIndicator from './LoadingIndicator';
+import Storyboard from './Storyboard';
+import QuizPanel from './QuizPanel';
+import CaptionEditor, { useCaptionTrackUrl } from './CaptionEditor';
+import ErrorNotice from './ErrorNotice';
+import VoicePicker from './VoicePicker';
 
 const CourseStudio: React.FC = () => {
   const [script, setScript] = useState('');
   const [academicLevel, setAcademicLevel] = useState('College');
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
-  const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [loadingPhase, setLoadingPhase] = useState<'analyzing' | 'rendering'>('analyzing');
+  const [scenes, setScenes] = useState<CourseScene[]>([]);
+  const [error, setError] = useState<unknown>(null);
+  const [isRenderingAll, setIsRenderingAll] = useState(false);
+  const [isNarratingAll, setIsNarratingAll] = useState(false);
+  const [lessonFormat, setLessonFormat] = useState<ComposeFormat>('webm');
+  const [assemblyProgress, setAssemblyProgress] = useState<number | null>(null);
+  const [lesson, setLesson] = useState<{url: string; blob: Blob; narration: NarrationSegment[]} | null>(null);
+  const [lessonCaptions, setLessonCaptions] = useState<CaptionCue[]>([]);
+  const [lessonTime, setLessonTime] = useState(0);
+  const lessonVideoRef = useRef<HTMLVideoElement>(null);
+  const lessonTrackUrl = useCaptionTrackUrl(lessonCaptions);
+  const [lmsFormat, setLmsFormat] = useState<LmsFormat>('scorm12');
+  const [isExporting, setIsExporting] = useState(false);
+  const [quiz, setQuiz] = useState<QuizQuestion[]>([]);
+  const [isGeneratingQuiz, setIsGeneratingQuiz] = useState(false);
+  const [quizError, setQuizError] = useState<unknown>(null);
+  const [kits, setKits] = useState<ConsistencyKit[]>([]);
+  const [kitId, setKitId] = useState('');
+  // With dialogue on, scenes tagged with two speakers use both narrators; everything else uses the first
+  const [narratorVoices, setNarratorVoices] = useState([DEFAULT_TTS_VOICE, DEFAULT_SECOND_VOICE]);
+  const [isDialogue, setIsDialogue] = useState(false);
 
-  const handleGenerateCourseVideo = async () => {
+  // Scene renders are async, so they read the latest edits from a ref rather than a stale closure
+  const scenesRef = useRef<CourseScene[]>(scenes);
+  // Unfinished narration per scene, so voicing it again keeps the chunks that already succeeded
+  const narrationAttemptsRef = useRef(new Map<string, SpeechAttempt>());
+  scenesRef.current = scenes;
+
+  useEffect(() => {
+    listKits().then(setKits).catch(error => console.warn('Failed to load consistency kits', error));
+  }, []);
+
+  const updateScene = (id: string, patch: Partial<CourseScene>) => {
+    setScenes(prev => prev.map(scene => scene.id === id ? { ...scene, ...patch } : scene));
+  };
+
+  const editScene = (id: string, patch: Partial<CourseScene>) => {
+    // Narration generated for the old text no longer matches the scene
+    updateScene(id, patch.narration !== undefined
+      ? { ...patch, narrationAudio: null, narrationDuration: null, narrationStatus: undefined }
+      : patch);
+  };
+
+  const moveScene = (id: string, direction: -1 | 1) => {
+    setScenes(prev => {
+      const index = prev.findIndex(scene => scene.id === id);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleGenerateStoryboard = async () => {
     if (!script.trim()) return;
     
     setAppState(AppState.LOADING);
-    setLoadingPhase('analyzing');
-    setErrorMessage(null);
+    setError(null);
+
+    try {
+      // Use Gemini Pro to split the script into directed scenes
+      const drafts = await storyboardCourseScript(script, academicLevel);
+      // The new storyboard replaces every scene, so the old clips are released
+      scenesRef.current.forEach(scene => { if (scene.videoUrl) URL.revokeObjectURL(scene.videoUrl); });
+      setScenes(drafts.map(draft => ({
+        ...draft,
+        id: crypto.randomUUID(),
+        status: SceneStatus.DRAFT,
+        fitMode: ClipFitMode.LOOP,
+      })));
+      setAppState(AppState.SUCCESS);
+    } catch (error) {
+      setError(error);
+      setAppState(AppState.ERROR);
+    }
+  };
 
+  const renderScene = async (id: string) => {
+    const scene = scenesRef.current.find(s => s.id === id);
+    if (!scene) return;
+
+    updateScene(id, { status: SceneStatus.RENDERING, error: null });
     try {
-      // Step 1: Use Gemini Pro to analyze and visualize the script
-      const directorPrompt = await processCourseScript(script, academicLevel);
-      
-      setLoadingPhase('rendering');
-
-      // Step 2: Use Veo to generate the cinematic educational video
-      const result = await generateVideo({
-        prompt: directorPrompt,
+      // Each scene renders as its own Veo clip; a kit keeps characters and style the same in all of them
+      const kit = kits.find(k => k.id === kitId);
+      const textParams: GenerateVideoParams = {
+        prompt: scene.directorPrompt,
         model: VeoModel.VEO_FAST,
         aspectRatio: AspectRatio.LANDSCAPE,
         resolution: Resolution.P720,
         mode: GenerationMode.TEXT_TO_VIDEO
+      };
+      const params = kit ? applyKit(textParams, kit) : textParams;
+      const job = jobQueue.enqueue(params, {
+        label: scene.title,
+        source: NavigationTab.COURSE,
+        tags: kit ? ['course', 'kit'] : ['course'],
+        metadata: { narration: scene.narration, academicLevel, kit: kit?.name },
+      });
+      const result = await jobQueue.waitFor(job.id);
+      if (scene.videoUrl) URL.revokeObjectURL(scene.videoUrl);
+      updateScene(id, {
+        status: SceneStatus.READY,
+        videoUrl: URL.createObjectURL(result.blob), // The scene's own copy, revoked when it is re-rendered
+        videoBlob: result.blob,
+        videoObject: result.video,
       });
+    } catch (error) {
+      updateScene(id, { status: SceneStatus.FAILED, error: error as Error });
+    }
+  };
 
-      setVideoUrl(result.objectUrl);
-      setAppState(AppState.SUCCESS);
-    } catch (error: any) {
-      setErrorMessage(error.message || 'Generation failed.');
-      setAppState(AppState.ERROR);
+  const handleRenderAll = async () => {
+    setIsRenderingAll(true);
+    const pending = scenesRef.current.filter(scene => scene.status !== SceneStatus.READY).map(scene => scene.id);
+    // Scenes are submitted together; the job queue limits how many Veo operations run at once
+    await Promise.all(pending.map(renderScene));
+    setIsRenderingAll(false);
+  };
+
+  const narrateScene = async (id: string) => {
+    const scene = scenesRef.current.find(s => s.id === id);
+    if (!scene || !scene.narration.trim()) return;
+
+    updateScene(id, { narrationStatus: SceneStatus.RENDERING });
+    try {
+      // Chunked so a long scene script doesn't exceed what one TTS request accepts; a retry only redoes failed chunks
+      const attempt = await generateLongSpeech(
+        scene.narration,
+        speechOptionsForScript(scene.narration, narratorVoices, { dialogue: isDialogue }),
+        narrationAttemptsRef.current.get(id),
+      );
+      if (!attempt.audio) {
+        narrationAttemptsRef.current.set(id, attempt);
+        updateScene(id, { narrationStatus: SceneStatus.FAILED });
+        return;
+      }
+      narrationAttemptsRef.current.delete(id);
+      // Matched to one loudness target so the level doesn't jump between scenes
+      const audio = normalizePcm(attempt.audio);
+      updateScene(id, {
+        narrationStatus: SceneStatus.READY,
+        narrationAudio: audio,
+        narrationDuration: pcmDuration(audio),
+      });
+    } catch {
+      updateScene(id, { narrationStatus: SceneStatus.FAILED });
+    }
+  };
+
+  const handleNarrateAll = async () => {
+    setIsNarratingAll(true);
+    const pending = scenesRef.current.filter(scene => !scene.narrationAudio).map(scene => scene.id);
+    for (const id of pending) {
+      await narrateScene(id);
+    }
+    setIsNarratingAll(false);
+  };
+
+  const handleAssembleLesson = async () => {
+    const ready = scenesRef.current.filter(scene => scene.videoUrl);
+    if (ready.length === 0) return;
+
+    setAssemblyProgress(0);
+    setError(null);
+    try {
+      // Pad the narration slightly so sentences don't butt into the next scene
+      const durations = ready.map(scene => scene.narrationDuration ? scene.narrationDuration + 0.5 : scene.durationSeconds);
+      const blob = await composeVideo(
+        ready.map((scene, i) => ({
+          src: scene.videoUrl!,
+          duration: durations[i],
+          fit: scene.fitMode,
+          audio: scene.narrationAudio ? pcmToAudioBuffer(decodeBase64(scene.narrationAudio)) : null,
+        })),
+        { format: lessonFormat, onProgress: (progress) => setAssemblyProgress(progress) },
+      );
+      // Captions follow the narration of each scene at its offset in the lesson
+      const narration = ready.map((scene, i) => ({
+        text: scene.narration,
+        start: durations.slice(0, i).reduce((sum, d) => sum + d, 0),
+        duration: scene.narrationDuration ?? scene.durationSeconds,
+      }));
+      if (lesson) URL.revokeObjectURL(lesson.url);
+      setLesson({ url: URL.createObjectURL(blob), blob, narration });
+      setLessonCaptions(narrationToCues(narration));
+      archiveAsset({
+        kind: AssetKind.VIDEO,
+        title: `Lesson: ${ready[0].title}`,
+        tags: ['course', 'lesson'],
+        source: NavigationTab.COURSE,
+        blob,
+        text: ready.map(scene => scene.narration).join('\n\n'),
+        metadata: { academicLevel, scenes: ready.map(scene => ({ title: scene.title, directorPrompt: scene.directorPrompt })) },
+      });
+    } catch (error) {
+      setError(error);
+    } finally {
+      setAssemblyProgress(null);
+    }
+  };
+
+  const handleExportLms = async () => {
+    const ready = scenesRef.current.filter(scene => scene.videoBlob);
+    if (!lesson && ready.length === 0) return;
+
+    setIsExporting(true);
+    setError(null);
+    try {
+      // Prefer the assembled lesson; otherwise ship the rendered scenes as a playlist
+      const videos: LmsVideo[] = lesson
+        ? [{ title: ready[0]?.title ?? 'Lesson', blob: lesson.blob, captions: lessonCaptions }]
+        : ready.map(scene => ({
+            title: scene.title,
+            blob: scene.videoBlob!,
+            captions: narrationToCues([{ text: scene.narration, start: 0, duration: scene.narrationDuration ?? scene.durationSeconds }]),
+          }));
+      const title = scenesRef.current[0]?.title ?? 'Lesson';
+      const blob = await exportLessonPackage({
+        title,
+        academicLevel,
+        videos,
+        transcript: scenesRef.current.map(scene => `${scene.title}\n${scene.narration}`).join('\n\n'),
+        quiz,
+      }, lmsFormat);
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${title.replace(/[^\w-]+/g, '-').slice(0, 40)}-${lmsFormat}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setError(error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleGenerateQuiz = async () => {
+    if (!script.trim()) return;
+
+    setIsGeneratingQuiz(true);
+    setQuizError(null);
+    try {
+      const questions = (await generateQuiz(script, academicLevel)).map(question => ({ ...question, id: crypto.randomUUID() }));
+      setQuiz(questions);
+      archiveAsset({
+        kind: AssetKind.TRANSCRIPT,
+        title: `Quiz: ${scenesRef.current[0]?.title ?? script.slice(0, 40)}`,
+        tags: ['course', 'quiz'],
+        source: NavigationTab.COURSE,
+        text: questions.map((q, i) => `${i + 1}. ${q.prompt}\nAnswer: ${q.answer}`).join('\n\n'),
+        metadata: { academicLevel, questions },
+      });
+    } catch (error) {
+      setQuizError(error);
+    } finally {
+      setIsGeneratingQuiz(false);
     }
   };
 
@@ -52,38 +297,211 @@ const CourseStudio: React.FC = () => {
     return (
       <div className="flex flex-col items-center justify-center h-full">
         <LoadingIndicator />
-        <div className="mt-8 flex flex-col items-center gap-2">
-           <div className="flex items-center gap-3 text-indigo-400 font-bold uppercase tracking-widest text-xs">
-             {loadingPhase === 'analyzing' ? (
-               <Loader2Icon className="w-4 h-4 animate-spin" />
-             ) : (
-               <CheckCircle2Icon className="w-4 h-4" />
-             )}
-             <span>Gemini Pro Analyzing Script</span>
-           </div>
-           <div className={`flex items-center gap-3 font-bold uppercase tracking-widest text-xs ${loadingPhase === 'rendering' ? 'text-indigo-400' : 'text-gray-700'}`}>
-             {loadingPhase === 'rendering' ? (
-               <Loader2Icon className="w-4 h-4 animate-spin" />
-             ) : (
-               <div className="w-4 h-4 rounded-full border border-gray-800" />
-             )}
-             <span>Veo Rendering Visuals</span>
-           </div>
+        <div className="mt-8 flex items-center gap-3 text-indigo-400 font-bold uppercase tracking-widest text-xs">
+          <Loader2Icon className="w-4 h-4 animate-spin" />
+          <span>Gemini Pro Storyboarding Script</span>
         </div>
       </div>
     );
   }
 
-  if (appState === AppState.SUCCESS && videoUrl) {
+  if (appState === AppState.SUCCESS && scenes.length > 0) {
+    const readyCount = scenes.filter(scene => scene.status === SceneStatus.READY).length;
+    const narratedCount = scenes.filter(scene => scene.narrationAudio).length;
+    const totalDuration = scenes.reduce((sum, scene) => sum + (scene.narrationDuration ?? scene.durationSeconds), 0);
+    const isAssembling = assemblyProgress !== null;
+
     return (
-      <VideoResult 
-        videoUrl={videoUrl} 
-        onRetry={handleGenerateCourseVideo} 
-        onNewVideo={() => setAppState(AppState.IDLE)} 
-        onExtend={() => {}} 
-        canExtend={true}
-        aspectRatio={AspectRatio.LANDSCAPE}
-      />
+      <div className="flex flex-col gap-6">
+        <div className="flex items-center justify-between bg-gray-900/50 p-6 rounded-3xl border border-gray-800">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setAppState(AppState.IDLE)}
+              className="p-2 rounded-xl bg-gray-800 hover:bg-gray-700 text-gray-400 hover:text-white transition-colors"
+              aria-label="Back to script"
+            >
+              <ArrowLeftIcon className="w-5 h-5" />
+            </button>
+            <div>
+              <h3 className="text-xl font-bold">Storyboard</h3>
+              <p className="text-xs text-gray-500">
+                {scenes.length} scenes · {Math.round(totalDuration / 60 * 10) / 10} min · {readyCount}/{scenes.length} clips rendered · {narratedCount}/{scenes.length} narrated
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            {kits.length > 0 && (
+              <select
+                value={kitId}
+                onChange={(e) => setKitId(e.target.value)}
+                className="bg-gray-800 border-gray-700 rounded-xl text-xs font-bold px-3 py-3 text-gray-300 outline-none focus:ring-2 focus:ring-indigo-600"
+                title="Render every scene with the same reference images, style and prompt suffix"
+              >
+                <option value="">No consistency kit</option>
+                {kits.map(kit => <option key={kit.id} value={kit.id}>Kit: {kit.name}</option>)}
+              </select>
+            )}
+            <button
+              onClick={handleNarrateAll}
+              disabled={isNarratingAll || narratedCount === scenes.length}
+              className="px-6 py-3 bg-purple-600 hover:bg-purple-500 disabled:bg-gray-800 disabled:text-gray-600 rounded-2xl font-bold transition-all shadow-xl shadow-purple-600/20 flex items-center gap-3"
+            >
+              {isNarratingAll ? <Loader2Icon className="w-5 h-5 animate-spin" /> : <Volume2Icon className="w-5 h-5" />}
+              {isNarratingAll ? 'Voicing...' : 'Voice All Scenes'}
+            </button>
+            <button
+              onClick={handleRenderAll}
+              disabled={isRenderingAll || readyCount === scenes.length}
+              className="px-6 py-3 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-800 disabled:text-gray-600 rounded-2xl font-bold transition-all shadow-xl shadow-indigo-600/20 flex items-center gap-3"
+            >
+              {isRenderingAll ? <Loader2Icon className="w-5 h-5 animate-spin" /> : <FilmIcon className="w-5 h-5" />}
+              {isRenderingAll ? 'Rendering...' : 'Render All Scenes'}
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 bg-gray-900/50 px-6 py-4 rounded-3xl border border-gray-800">
+          {narratorVoices.slice(0, isDialogue ? 2 : 1).map((voice, i) => (
+            <VoicePicker
+              key={i}
+              label={i === 0 ? 'Narrator' : 'Second narrator'}
+              value={voice}
+              onChange={(next) => setNarratorVoices(prev => prev.map((v, j) => j === i ? next : v))}
+            />
+          ))}
+          <label className="md:col-span-2 flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+            <input type="checkbox" checked={isDialogue} onChange={e => setIsDialogue(e.target.checked)} className="accent-emerald-500" />
+            Dialogue scenes: read narration tagged with two speakers ("Teacher: ... / Student: ...") with both narrators
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 items-start">
+          <div className="bg-gray-900/50 p-6 rounded-3xl border border-gray-800 flex flex-col gap-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <div className="bg-emerald-600/20 p-2 rounded-xl">
+                  <ClapperboardIcon className="w-5 h-5 text-emerald-400" />
+                </div>
+                <div>
+                  <p className="font-bold">Lesson Assembly</p>
+                  <p className="text-xs text-gray-500">Rendered clips are fitted to their narration and recorded into one file. Keep this tab visible while assembling.</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <select
+                  value={lessonFormat}
+                  onChange={(e) => setLessonFormat(e.target.value as ComposeFormat)}
+                  disabled={isAssembling}
+                  className="bg-gray-800 border-gray-700 rounded-lg text-xs font-bold px-3 py-2 text-gray-300 outline-none focus:ring-2 focus:ring-indigo-600"
+                >
+                  <option value="webm">WebM</option>
+                  <option value="mp4" disabled={!getRecorderMimeType('mp4')}>MP4</option>
+                </select>
+                <button
+                  onClick={handleAssembleLesson}
+                  disabled={isAssembling || readyCount === 0}
+                  className="px-6 py-3 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-800 disabled:text-gray-600 rounded-2xl font-bold transition-all flex items-center gap-3"
+                >
+                  {isAssembling ? <Loader2Icon className="w-5 h-5 animate-spin" /> : <ClapperboardIcon className="w-5 h-5" />}
+                  {isAssembling ? `Assembling ${Math.round(assemblyProgress! * 100)}%` : 'Assemble Lesson'}
+                </button>
+              </div>
+            </div>
+
+            {isAssembling && (
+              <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                <div className="h-full bg-emerald-500 transition-all" style={{ width: `${assemblyProgress! * 100}%` }} />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between gap-4 pt-4 border-t border-gray-800">
+              <p className="text-xs text-gray-500">
+                Package the {lesson ? 'lesson' : 'rendered scenes'}, transcript, captions{quiz.length > 0 ? ' and quiz' : ''} for an LMS.
+              </p>
+              <div className="flex items-center gap-3 shrink-0">
+                <select
+                  value={lmsFormat}
+                  onChange={(e) => setLmsFormat(e.target.value as LmsFormat)}
+                  disabled={isExporting}
+                  className="bg-gray-800 border-gray-700 rounded-lg text-xs font-bold px-3 py-2 text-gray-300 outline-none focus:ring-2 focus:ring-indigo-600"
+                >
+                  <option value="scorm12">SCORM 1.2</option>
+                  <option value="cmi5">xAPI (cmi5)</option>
+                </select>
+                <button
+                  onClick={handleExportLms}
+                  disabled={isExporting || isAssembling || (!lesson && readyCount === 0)}
+                  className="px-4 py-2 bg-gray-800 hover:bg-gray-700 disabled:text-gray-600 rounded-xl text-xs font-bold flex items-center gap-2 transition-all"
+                >
+                  {isExporting ? <Loader2Icon className="w-4 h-4 animate-spin" /> : <PackageIcon className="w-4 h-4" />}
+                  Export to LMS
+                </button>
+              </div>
+            </div>
+
+            {error && (
+              <ErrorNotice error={error} onDismiss={() => setError(null)} compact />
+            )}
+
+            {lesson && (
+              <div className="flex flex-col gap-4">
+                <video
+                  ref={lessonVideoRef}
+                  src={lesson.url}
+                  controls
+                  className="w-full max-h-[60vh] rounded-2xl bg-black"
+                  onTimeUpdate={(e) => setLessonTime(e.currentTarget.currentTime)}
+                >
+                  {lessonTrackUrl && <track key={lessonTrackUrl} kind="captions" src={lessonTrackUrl} srcLang="en" label="English" default />}
+                </video>
+                <CaptionEditor
+                  cues={lessonCaptions}
+                  onChange={setLessonCaptions}
+                  onGenerate={() => setLessonCaptions(narrationToCues(lesson.narration))}
+                  generateLabel="Reset to Narration"
+                  isGenerating={false}
+                  currentTime={lessonTime}
+                  onSeek={(time) => { if (lessonVideoRef.current) lessonVideoRef.current.currentTime = time; }}
+                  fileName="lesson-captions"
+                />
+                <div className="flex items-center justify-end gap-3">
+                  <button
+                    onClick={() => { URL.revokeObjectURL(lesson.url); setLesson(null); setLessonCaptions([]); }}
+                    className="px-4 py-2 rounded-xl text-xs font-bold text-gray-400 hover:text-white hover:bg-gray-800 flex items-center gap-2"
+                  >
+                    <XIcon className="w-4 h-4" /> Discard
+                  </button>
+                  <a
+                    href={lesson.url}
+                    download={`lesson-${Date.now()}.${lesson.blob.type.includes('mp4') ? 'mp4' : 'webm'}`}
+                    className="px-6 py-3 bg-white text-black font-bold rounded-2xl hover:scale-105 transition-transform flex items-center gap-2"
+                  >
+                    <DownloadIcon className="w-5 h-5" /> Download Lesson
+                  </a>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <QuizPanel
+            questions={quiz}
+            academicLevel={academicLevel}
+            isGenerating={isGeneratingQuiz}
+            error={quizError}
+            onGenerate={handleGenerateQuiz}
+            onChange={setQuiz}
+            onDismissError={() => setQuizError(null)}
+          />
+        </div>
+
+        <Storyboard
+          scenes={scenes}
+          onMove={moveScene}
+          onUpdate={editScene}
+          onRender={renderScene}
+          onNarrate={narrateScene}
+        />
+      </div>
     );
   }
 
@@ -123,14 +541,24 @@ Example: 'Today we discuss the structural integrity of carbon nanotubes at the m
             <div className="text-xs text-gray-500">
               <span className="font-bold text-gray-400">{script.length}</span> characters
             </div>
-            <button 
-              onClick={handleGenerateCourseVideo}
-              disabled={!script.trim()}
-              className="px-8 py-3 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-800 disabled:text-gray-700 rounded-2xl font-bold transition-all shadow-xl shadow-indigo-600/20 flex items-center gap-3"
-            >
-              <FilmIcon className="w-5 h-5" />
-              Generate Learning Module
-            </button>
+            <div className="flex items-center gap-3">
+              {scenes.length > 0 && (
+                <button
+                  onClick={() => setAppState(AppState.SUCCESS)}
+                  className="px-6 py-3 bg-gray-800 hover:bg-gray-700 rounded-2xl font-bold transition-all text-gray-300"
+                >
+                  Open Storyboard
+                </button>
+              )}
+              <button 
+                onClick={handleGenerateStoryboard}
+                disabled={!script.trim()}
+                className="px-8 py-3 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-800 disabled:text-gray-700 rounded-2xl font-bold transition-all shadow-xl shadow-indigo-600/20 flex items-center gap-3"
+              >
+                <FilmIcon className="w-5 h-5" />
+                Generate Storyboard
+              </button>
+            </div>
           </div>
         </div>
       </div>
@@ -156,15 +584,22 @@ Example: 'Today we discuss the structural integrity of carbon nanotubes at the m
             <div className="flex gap-4">
               <div className="w-8 h-8 rounded-full bg-gray-800 flex items-center justify-center shrink-0 font-bold text-xs">2</div>
               <div>
-                <p className="font-bold text-sm">Cinematic Directing</p>
-                <p className="text-xs text-gray-500">The AI generates a sophisticated visual prompt for the video engine.</p>
+                <p className="font-bold text-sm">Scene Storyboarding</p>
+                <p className="text-xs text-gray-500">The script is split into ordered scenes, each with its own director prompt and duration target.</p>
               </div>
             </div>
             <div className="flex gap-4">
               <div className="w-8 h-8 rounded-full bg-gray-800 flex items-center justify-center shrink-0 font-bold text-xs">3</div>
               <div>
                 <p className="font-bold text-sm">Veo Rendering</p>
-                <p className="text-xs text-gray-500">Veo 3.1 creates high-fidelity visuals matching the academic tone.</p>
+                <p className="text-xs text-gray-500">Veo 3.1 renders every scene as its own clip. Reorder, edit or regenerate any scene independently.</p>
+              </div>
+            </div>
+            <div className="flex gap-4">
+              <div className="w-8 h-8 rounded-full bg-gray-800 flex items-center justify-center shrink-0 font-bold text-xs">4</div>
+              <div>
+                <p className="font-bold text-sm">Assessment</p>
+                <p className="text-xs text-gray-500">A question bank with answer keys and distractor explanations is written for the selected level, ready to edit or take beside the lesson.</p>
               </div>
             </div>
           </div>
@@ -181,10 +616,11 @@ Example: 'Today we discuss the structural integrity of carbon nanotubes at the m
         </div>
 
         {appState === AppState.ERROR && (
-           <div className="bg-red-900/10 border border-red-500/20 p-6 rounded-3xl">
-             <p className="text-red-400 text-sm font-bold">{errorMessage}</p>
-             <button onClick={() => setAppState(AppState.IDLE)} className="mt-4 text-xs font-bold text-red-500 hover:underline uppercase">Dismiss</button>
-           </div>
+           <ErrorNotice
+             error={error}
+             onRetry={handleGenerateStoryboard}
+             onDismiss={() => setAppState(AppState.IDLE)}
+           />
         )}
       </div>
     </div>
@@ -0,0 +1,110 @@
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { AlertTriangleIcon, GaugeIcon, ShieldAlertIcon, KeyRoundIcon, CreditCardIcon, WifiOffIcon, InboxIcon, RefreshCcwIcon, XIcon } from 'lucide-react';
+import { ServiceErrorKind, classifyError } from '../services/errors';
+
+interface Guidance {
+  title: string;
+  hint: string;
+  icon: React.FC<{className?: string}>;
+  canSelectKey?: boolean;
+}
+
+const guidance: Record<ServiceErrorKind, Guidance> = {
+  [ServiceErrorKind.QUOTA_EXCEEDED]: {
+    title: 'Quota exceeded',
+    hint: 'You have hit the rate or daily limit for this model. Wait a minute and try again, or switch to a project with a higher quota.',
+    icon: GaugeIcon,
+  },
+  [ServiceErrorKind.SAFETY_BLOCK]: {
+    title: 'Blocked by safety filters',
+    hint: 'Rephrase the prompt to avoid real people, violence or other sensitive content, or replace the uploaded media.',
+    icon: ShieldAlertIcon,
+  },
+  [ServiceErrorKind.INVALID_API_KEY]: {
+    title: 'API key not accepted',
+    hint: 'The selected key is missing, mistyped or revoked. Select a different API key to continue.',
+    icon: KeyRoundIcon,
+    canSelectKey: true,
+  },
+  [ServiceErrorKind.BILLING_REQUIRED]: {
+    title: 'Billing required',
+    hint: 'This model is only available on paid Google Cloud projects. Select a key from a project with billing enabled.',
+    icon: CreditCardIcon,
+    canSelectKey: true,
+  },
+  [ServiceErrorKind.NETWORK]: {
+    title: 'Connection problem',
+    hint: 'The Gemini API could not be reached after several attempts. Check your connection and try again.',
+    icon: WifiOffIcon,
+  },
+  [ServiceErrorKind.EMPTY_RESPONSE]: {
+    title: 'Nothing was generated',
+    hint: 'The model returned an empty result. Trying again or adding more detail to the prompt usually helps.',
+    icon: InboxIcon,
+  },
+  [ServiceErrorKind.UNKNOWN]: {
+    title: 'Something went wrong',
+    hint: 'An unexpected error occurred. Try again, and check the details below if it persists.',
+    icon: AlertTriangleIcon,
+  },
+};
+
+export const needsApiKeySelection = (error: unknown) =>
+  !!guidance[classifyError(error).kind].canSelectKey;
+
+interface ErrorNoticeProps {
+  error: unknown;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+  compact?: boolean;
+}
+
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, onDismiss, compact = false }) => {
+  const classified = classifyError(error);
+  const { title, hint, icon: Icon, canSelectKey } = guidance[classified.kind];
+
+  return (
+    <div className={`bg-red-900/10 border border-red-500/20 text-left ${compact ? 'p-4 rounded-2xl' : 'p-6 rounded-3xl'}`}>
+      <div className="flex items-start gap-3">
+        <Icon className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
+        <div className="min-w-0 flex-grow space-y-1">
+          <p className="text-red-400 text-sm font-bold">{title}</p>
+          <p className="text-xs text-gray-400 leading-relaxed">{hint}</p>
+          {!compact && <p className="text-[10px] text-gray-600 font-mono break-words">{classified.message}</p>}
+        </div>
+        {onDismiss && (
+          <button onClick={onDismiss} className="p-1 rounded-lg text-gray-500 hover:text-white" aria-label="Dismiss error">
+            <XIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {(onRetry || (canSelectKey && window.aistudio)) && (
+        <div className="mt-4 flex items-center gap-3">
+          {canSelectKey && window.aistudio && (
+            <button
+              onClick={() => window.aistudio?.openSelectKey()}
+              className="px-4 py-2 bg-red-600 hover:bg-red-500 rounded-xl text-xs font-bold flex items-center gap-2 transition-colors"
+            >
+              <KeyRoundIcon className="w-4 h-4" /> Select API Key
+            </button>
+          )}
+          {onRetry && (
+            <button
+              onClick={onRetry}
+              className="px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-xl text-xs font-bold flex items-center gap-2 transition-colors"
+            >
+              <RefreshCcwIcon className="w-4 h-4" /> Try Again
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {Resolution} from '../types';
+import {ChainSegment, chainPath, segmentVariants} from '../services/extendChain';
+import {
+  ArrowPathIcon,
+  BranchIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  FilmIcon,
+} from './icons';
+
+interface ExtendTimelineProps {
+  segments: ChainSegment[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onBranch: (id: string) => void;
+  onReroll: (id: string) => void;
+  onDuration: (id: string, duration: number) => void;
+}
+
+const ExtendTimeline: React.FC<ExtendTimelineProps> = ({
+  segments,
+  activeId,
+  onSelect,
+  onBranch,
+  onReroll,
+  onDuration,
+}) => {
+  const path = chainPath(segments, activeId);
+  const total = path[path.length - 1]?.duration ?? 0;
+
+  return (
+    <div className="w-full flex flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-gray-200">
+          <FilmIcon className="w-5 h-5 text-indigo-400" />
+          <span className="font-semibold">Extension Chain</span>
+        </div>
+        <span className="text-xs text-gray-500">
+          {path.length} segment{path.length === 1 ? '' : 's'}
+          {total ? ` · ${total.toFixed(1)}s` : ''}
+          {segments.length > path.length ? ` · ${segments.length - path.length} on other branches` : ''}
+        </span>
+      </div>
+
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {path.map((segment, index) => {
+          const variants = segmentVariants(segments, segment);
+          const variantIndex = variants.findIndex((v) => v.id === segment.id);
+          const previous = index > 0 ? path[index - 1].duration : 0;
+          const added = segment.duration != null && previous != null ? segment.duration - previous : null;
+          const isActive = segment.id === activeId;
+          return (
+            <div
+              key={segment.id}
+              className={`shrink-0 w-56 flex flex-col gap-2 p-3 rounded-lg border transition-colors ${isActive ? 'bg-indigo-600/10 border-indigo-500/60' : 'bg-gray-800/50 border-gray-700'}`}>
+              <button
+                onClick={() => onSelect(segment.id)}
+                className="relative aspect-video rounded-md overflow-hidden bg-black"
+                title="Show the video up to this segment">
+                <video
+                  src={segment.videoUrl}
+                  preload="metadata"
+                  muted
+                  className="w-full h-full object-cover"
+                  onLoadedMetadata={(e) => {
+                    if (segment.duration == null) onDuration(segment.id, e.currentTarget.duration);
+                  }}
+                />
+                <span className="absolute top-1 left-1 px-1.5 py-0.5 bg-indigo-600 text-[8px] font-black rounded uppercase tracking-tighter">
+                  {index + 1}
+                </span>
+                {added != null && (
+                  <span className="absolute bottom-1 right-1 px-1.5 py-0.5 bg-black/70 text-[10px] font-mono rounded">
+                    {index === 0 ? '' : '+'}{added.toFixed(1)}s
+                  </span>
+                )}
+              </button>
+              <p className="text-xs text-gray-400 line-clamp-2 min-h-[2rem]" title={segment.params.prompt}>
+                {segment.params.prompt || <span className="italic text-gray-600">No prompt</span>}
+              </p>
+              <div className="flex items-center justify-between">
+                {variants.length > 1 ? (
+                  <div className="flex items-center gap-1 text-[10px] text-gray-400">
+                    <button
+                      onClick={() => onSelect(variants[variantIndex - 1].id)}
+                      disabled={variantIndex === 0}
+                      className="p-0.5 rounded hover:bg-gray-700 disabled:opacity-30"
+                      aria-label="Previous take">
+                      <ChevronLeftIcon className="w-3 h-3" />
+                    </button>
+                    Take {variantIndex + 1}/{variants.length}
+                    <button
+                      onClick={() => onSelect(variants[variantIndex + 1].id)}
+                      disabled={variantIndex === variants.length - 1}
+                      className="p-0.5 rounded hover:bg-gray-700 disabled:opacity-30"
+                      aria-label="Next take">
+                      <ChevronRightIcon className="w-3 h-3" />
+                    </button>
+                  </div>
+                ) : (
+                  <span />
+                )}
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => onReroll(segment.id)}
+                    className="p-1.5 rounded-md text-gray-400 hover:bg-gray-700 hover:text-white"
+                    title="Re-roll this segment as a new take"
+                    aria-label="Re-roll segment">
+                    <ArrowPathIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onBranch(segment.id)}
+                    disabled={!segment.video || segment.params.resolution !== Resolution.P720}
+                    className="p-1.5 rounded-md text-gray-400 hover:bg-gray-700 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+                    title="Extend from this segment on a new branch"
+                    aria-label="Branch from segment">
+                    <BranchIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ExtendTimeline;
@@ -3,47 +3,87 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState } from 'react';
-import { SparklesIcon, Edit3Icon, DownloadIcon, LayoutGridIcon, Maximize2Icon, ImagePlusIcon, RefreshCcwIcon } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { SparklesIcon, Edit3Icon, DownloadIcon, LayoutGridIcon, Maximize2Icon, ImagePlusIcon, RefreshCcwIcon, FilmIcon, ChevronDownIcon } from 'lucide-react';
 import { generateImagePro, editImageFlash } from '../services/geminiService';
-import { AspectRatio, ImageSize } from '../types';
+import { archiveAsset, dataUrlToBlob } from '../services/libraryStore';
+import { dataUrlToImageFile, fileToImageFile, imageFileToDataUrl } from '../services/imageFiles';
+import { AspectRatio, AssetKind, ImageFile, ImageHandoff, ImageSize, ImageSlot, NavigationTab } from '../types';
+import ErrorNotice from './ErrorNotice';
 
-const ImageStudio: React.FC = () => {
+interface ImageStudioProps {
+  incomingImage?: ImageFile | null; // Handed over from another lab, opened in edit mode
+  onIncomingImageUsed?: () => void;
+  onSendToVideoLab?: (handoff: ImageHandoff) => void;
+}
+
+const ImageStudio: React.FC<ImageStudioProps> = ({ incomingImage, onIncomingImageUsed, onSendToVideoLab }) => {
   const [mode, setMode] = useState<'generate' | 'edit'>('generate');
   const [prompt, setPrompt] = useState('');
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>(AspectRatio.SQUARE);
   const [imageSize, setImageSize] = useState<ImageSize>(ImageSize.K1);
   const [resultImage, setResultImage] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [editSource, setEditSource] = useState<{data: string, mime: string} | null>(null);
+  const [editSource, setEditSource] = useState<ImageFile | null>(null);
+  const [isSendMenuOpen, setIsSendMenuOpen] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  useEffect(() => {
+    if (!incomingImage) return;
+    setMode('edit');
+    setResultImage(null);
+    setEditSource(incomingImage);
+    onIncomingImageUsed?.();
+  }, [incomingImage]);
 
   const handleAction = async () => {
     if (!prompt.trim()) return;
     setIsLoading(true);
+    setError(null);
     try {
+      let url: string | null = null;
       if (mode === 'generate') {
-        const url = await generateImagePro(prompt, aspectRatio, imageSize);
-        setResultImage(url);
+        url = await generateImagePro(prompt, aspectRatio, imageSize);
       } else if (editSource) {
-        const url = await editImageFlash(prompt, editSource.data, editSource.mime);
+        url = await editImageFlash(prompt, editSource.base64, editSource.file.type);
+      }
+      if (url) {
         setResultImage(url);
+        archiveAsset({
+          kind: AssetKind.IMAGE,
+          title: prompt.slice(0, 60),
+          tags: [mode],
+          source: NavigationTab.IMAGE,
+          blob: await dataUrlToBlob(url),
+          prompt,
+          metadata: mode === 'generate' ? { aspectRatio, imageSize } : { editSourceMimeType: editSource?.file.type },
+        });
       }
-    } catch (e: any) {
-      alert(`Error: ${e.message}`);
+    } catch (e) {
+      setError(e);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      const reader = new FileReader();
-      reader.onload = () => {
-        const base64 = (reader.result as string).split(',')[1];
-        setEditSource({ data: base64, mime: file.type });
-      };
-      reader.readAsDataURL(file);
+      try {
+        setEditSource(await fileToImageFile(file));
+      } catch (e) {
+        setError(e);
+      }
+    }
+  };
+
+  const handleSendToVideoLab = async (slot: ImageSlot) => {
+    if (!resultImage || !onSendToVideoLab) return;
+    setIsSendMenuOpen(false);
+    try {
+      onSendToVideoLab({ image: await dataUrlToImageFile(resultImage, `gemini-creation-${Date.now()}.png`), slot });
+    } catch (e) {
+      setError(e);
     }
   };
 
@@ -113,7 +153,7 @@ const ImageStudio: React.FC = () => {
               <label className="block text-xs font-bold text-gray-500 uppercase">Source Image</label>
               {editSource ? (
                 <div className="relative group">
-                  <img src={`data:${editSource.mime};base64,${editSource.data}`} alt="source" className="w-full h-40 object-cover rounded-2xl border border-gray-700" />
+                  <img src={imageFileToDataUrl(editSource)} alt="source" className="w-full h-40 object-cover rounded-2xl border border-gray-700" />
                   <button 
                     onClick={() => setEditSource(null)}
                     className="absolute top-2 right-2 bg-black/60 p-2 rounded-full text-white hover:bg-red-600 transition-colors"
@@ -139,6 +179,8 @@ const ImageStudio: React.FC = () => {
             {isLoading ? <RefreshCcwIcon className="w-6 h-6 animate-spin"/> : <SparklesIcon className="w-6 h-6"/>}
             {mode === 'generate' ? 'Generate Pro' : 'Apply Edits'}
           </button>
+
+          {error && <ErrorNotice error={error} onRetry={handleAction} onDismiss={() => setError(null)} compact />}
         </div>
       </div>
 
@@ -154,9 +196,34 @@ const ImageStudio: React.FC = () => {
                 <p className="font-bold text-lg">Creation Ready</p>
                 <p className="text-sm text-gray-500">Gemini {mode === 'generate' ? '3 Pro' : '2.5 Flash'} output</p>
               </div>
-              <a href={resultImage} download={`gemini-creation-${Date.now()}.png`} className="flex items-center gap-2 px-6 py-3 bg-white text-black font-bold rounded-2xl hover:scale-105 transition-transform">
-                <DownloadIcon className="w-5 h-5" /> Download
-              </a>
+              <div className="flex items-center gap-3">
+                {onSendToVideoLab && (
+                  <div className="relative">
+                    <button
+                      onClick={() => setIsSendMenuOpen(!isSendMenuOpen)}
+                      className="flex items-center gap-2 px-5 py-3 bg-gray-800 hover:bg-gray-700 font-bold rounded-2xl transition-colors"
+                    >
+                      <FilmIcon className="w-5 h-5" /> Send to Video Lab <ChevronDownIcon className="w-4 h-4" />
+                    </button>
+                    {isSendMenuOpen && (
+                      <div className="absolute bottom-full right-0 mb-2 w-48 bg-gray-800 border border-gray-700 rounded-xl shadow-2xl overflow-hidden z-30">
+                        {Object.values(ImageSlot).map(slot => (
+                          <button
+                            key={slot}
+                            onClick={() => handleSendToVideoLab(slot)}
+                            className="w-full text-left px-4 py-3 text-sm hover:bg-indigo-600/50 transition-colors"
+                          >
+                            {slot}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+                <a href={resultImage} download={`gemini-creation-${Date.now()}.png`} className="flex items-center gap-2 px-6 py-3 bg-white text-black font-bold rounded-2xl hover:scale-105 transition-transform">
+                  <DownloadIcon className="w-5 h-5" /> Download
+                </a>
+              </div>
             </div>
           </div>
         ) : (
@@ -4,28 +4,71 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useRef, useEffect } from 'react';
-import { SendIcon, SearchIcon, MapPinIcon, BrainIcon, PaperclipIcon, TrashIcon, ExternalLinkIcon, UserIcon, BotIcon } from 'lucide-react';
+import { SendIcon, SearchIcon, MapPinIcon, BrainIcon, PaperclipIcon, TrashIcon, ExternalLinkIcon, UserIcon, BotIcon, PlusIcon, MessagesSquareIcon, HistoryIcon, LightbulbIcon, SquareIcon } from 'lucide-react';
 import { performChat } from '../services/geminiService';
-import { ChatMessage } from '../types';
+import { createThread, deleteThread, listThreads, saveThread } from '../services/chatThreads';
+import { CHAT_TOKEN_BUDGET, activeHistory, compactThread, estimateHistoryTokens } from '../services/chatMemory';
+import { ChatMessage, ChatThread } from '../types';
+import ErrorNotice from './ErrorNotice';
+import Markdown from './Markdown';
 
 const IntelligenceLab: React.FC = () => {
   const [input, setInput] = useState('');
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [thread, setThread] = useState<ChatThread>(() => createThread());
   const [attachments, setAttachments] = useState<{file: File, base64: string}[]>([]);
   const [isThinking, setIsThinking] = useState(false);
   const [useSearch, setUseSearch] = useState(false);
   const [useMaps, setUseMaps] = useState(false);
+  const [showThoughts, setShowThoughts] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
   
   const scrollRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Replies land in the thread that asked, even if another thread is open by then
+  const activeThreadIdRef = useRef(thread.id);
+  const abortRef = useRef<AbortController | null>(null);
+  activeThreadIdRef.current = thread.id;
+  const messages = thread.messages;
+
+  useEffect(() => {
+    listThreads()
+      .then(setThreads)
+      .catch(error => console.error('Failed to load chat threads', error));
+  }, []);
 
   useEffect(() => {
     scrollRef.current?.scrollTo(0, scrollRef.current.scrollHeight);
   }, [messages, isLoading]);
 
+  const persistThread = (next: ChatThread) => {
+    if (next.messages.length === 0) return;
+    saveThread(next)
+      .then(saved => setThreads(prev => [saved, ...prev.filter(t => t.id !== saved.id)]))
+      .catch(error => console.warn('Failed to save chat thread', error));
+  };
+
+  const handleSelectThread = (next: ChatThread) => {
+    setThread(next);
+    setError(null);
+  };
+
+  const handleNewThread = () => {
+    setThread(createThread());
+    setError(null);
+  };
+
+  const handleDeleteThread = async (id: string) => {
+    if (!confirm('Delete this chat thread?')) return;
+    await deleteThread(id);
+    setThreads(prev => prev.filter(t => t.id !== id));
+    if (id === thread.id) handleNewThread();
+  };
+
   const handleSend = async () => {
-    if (!input.trim() && attachments.length === 0) return;
+    // One reply at a time: a second stream would take over the stop button and race the first one's save
+    if (isLoading || (!input.trim() && attachments.length === 0)) return;
     
     const userMsg: ChatMessage = { 
       role: 'user', 
@@ -33,31 +76,63 @@ const IntelligenceLab: React.FC = () => {
       images: attachments.map(a => `data:${a.file.type};base64,${a.base64}`) 
     };
     
-    setMessages(prev => [...prev, userMsg]);
+    const pending: ChatThread = {
+      ...thread,
+      name: thread.messages.length === 0 ? (input.slice(0, 60) || 'Image chat') : thread.name,
+      messages: [...thread.messages, userMsg],
+    };
+    setThread(pending);
     setInput('');
-    const currentAttachments = [...attachments];
     setAttachments([]);
     setIsLoading(true);
+    setError(null);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let reply: ChatMessage = { role: 'model', text: '', isThinking, isStreaming: true };
+    let base = pending;
+    const showReply = () => {
+      if (activeThreadIdRef.current === base.id) setThread({ ...base, messages: [...base.messages, reply] });
+    };
 
     try {
-      const response = await performChat(
-        input, 
-        currentAttachments.map(a => ({ data: a.base64, mime: a.file.type })),
-        isThinking,
+      // Old turns are summarized once the history outgrows the context budget
+      base = await compactThread(pending);
+      const response = await performChat(activeHistory(base), {
+        summary: base.summary,
+        useThinking: isThinking,
         useSearch,
-        useMaps
-      );
+        useMaps,
+        includeThoughts: isThinking && showThoughts,
+        signal: controller.signal,
+        onUpdate: ({ text, thoughts }) => {
+          reply = { ...reply, text, thoughts: thoughts || undefined };
+          showReply();
+        },
+      });
 
-      const modelMsg: ChatMessage = {
-        role: 'model',
-        text: response.text,
+      reply = {
+        ...reply,
+        text: response.text ?? reply.text,
+        thoughts: response.thoughts,
         groundingUrls: response.urls,
-        isThinking
+        isStreaming: false,
+        stopped: response.stopped,
       };
-      setMessages(prev => [...prev, modelMsg]);
-    } catch (e: any) {
-      setMessages(prev => [...prev, { role: 'model', text: `Error: ${e.message}` }]);
+      // Stopped before the first token: there is no turn to keep
+      const messages = reply.text ? [...base.messages, reply] : base.messages;
+      if (activeThreadIdRef.current === base.id) setThread({ ...base, messages });
+      persistThread({ ...base, messages, updatedAt: Date.now() });
+    } catch (e) {
+      // Keep whatever already streamed in, so a dropped connection doesn't lose the answer
+      if (reply.text) {
+        reply = { ...reply, isStreaming: false, stopped: true };
+        showReply();
+        persistThread({ ...base, messages: [...base.messages, reply], updatedAt: Date.now() });
+      }
+      if (!controller.signal.aborted && activeThreadIdRef.current === pending.id) setError(e);
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
   };
@@ -75,131 +150,222 @@ const IntelligenceLab: React.FC = () => {
     });
   };
 
+  const historyTokens = estimateHistoryTokens(activeHistory(thread));
+
   return (
-    <div className="flex flex-col h-full gap-4 max-w-5xl mx-auto w-full">
-      {/* Settings Bar */}
-      <div className="flex items-center gap-3 p-3 bg-gray-900/50 rounded-2xl border border-gray-800">
-        <button 
-          onClick={() => setIsThinking(!isThinking)}
-          className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border transition-all ${isThinking ? 'bg-indigo-600/20 border-indigo-600 text-indigo-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`}
-        >
-          <BrainIcon className="w-4 h-4" />
-          <span className="text-sm font-semibold">Deep Thinking</span>
-        </button>
-        <button 
-          onClick={() => setUseSearch(!useSearch)}
-          className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border transition-all ${useSearch ? 'bg-blue-600/20 border-blue-600 text-blue-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`}
+    <div className="flex h-full gap-4 max-w-6xl mx-auto w-full">
+      {/* Threads */}
+      <aside className="hidden lg:flex w-64 shrink-0 flex-col gap-3 min-h-0">
+        <button
+          onClick={handleNewThread}
+          className="flex items-center justify-center gap-2 px-4 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-2xl font-bold text-sm transition-colors"
         >
-          <SearchIcon className="w-4 h-4" />
-          <span className="text-sm font-semibold">Google Search</span>
+          <PlusIcon className="w-4 h-4" /> New Chat
         </button>
-        <button 
-          onClick={() => setUseMaps(!useMaps)}
-          className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border transition-all ${useMaps ? 'bg-emerald-600/20 border-emerald-600 text-emerald-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`}
-        >
-          <MapPinIcon className="w-4 h-4" />
-          <span className="text-sm font-semibold">Google Maps</span>
-        </button>
-      </div>
-
-      {/* Message Area */}
-      <div ref={scrollRef} className="flex-grow overflow-y-auto pr-2 space-y-6 min-h-0">
-        {messages.length === 0 && (
-          <div className="h-full flex flex-col items-center justify-center text-center p-10 opacity-30">
-            <BrainIcon className="w-16 h-16 mb-4" />
-            <h4 className="text-xl font-bold">Gemini Intelligence</h4>
-            <p>Ask complex questions, analyze images, or browse the web.</p>
-          </div>
-        )}
-        {messages.map((msg, idx) => (
-          <div key={idx} className={`flex gap-4 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-            <div className={`max-w-[85%] rounded-2xl p-4 ${msg.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-gray-900 border border-gray-800'}`}>
-              <div className="flex items-center gap-2 mb-2 opacity-50 text-xs font-bold uppercase tracking-wider">
-                {msg.role === 'user' ? <UserIcon className="w-3 h-3"/> : <BotIcon className="w-3 h-3"/>}
-                {msg.role === 'user' ? 'User' : (msg.isThinking ? 'Gemini Thinking' : 'Gemini')}
+        <div className="flex-grow overflow-y-auto space-y-1 pr-1">
+          {threads.length === 0 && (
+            <p className="text-xs text-gray-600 text-center p-6">Conversations are saved here so you can pick them up later.</p>
+          )}
+          {threads.map(t => (
+            <div
+              key={t.id}
+              className={`group flex items-center gap-2 px-3 py-2.5 rounded-xl border cursor-pointer transition-colors ${t.id === thread.id ? 'bg-indigo-600/10 border-indigo-600/40 text-white' : 'border-transparent text-gray-400 hover:bg-gray-900'}`}
+              onClick={() => handleSelectThread(t)}
+            >
+              <MessagesSquareIcon className="w-4 h-4 shrink-0 opacity-60" />
+              <div className="min-w-0 flex-grow">
+                <p className="text-sm font-semibold truncate">{t.name}</p>
+                <p className="text-[10px] text-gray-600">{t.messages.length} messages · {new Date(t.updatedAt).toLocaleDateString()}</p>
               </div>
-              
-              {msg.images && msg.images.length > 0 && (
-                <div className="flex flex-wrap gap-2 mb-3">
-                  {msg.images.map((img, i) => (
-                    <img key={i} src={img} alt="attachment" className="w-32 h-32 object-cover rounded-lg border border-white/10" />
-                  ))}
+              <button
+                onClick={(e) => { e.stopPropagation(); handleDeleteThread(t.id); }}
+                className="p-1 rounded-lg text-gray-600 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                aria-label="Delete thread"
+              >
+                <TrashIcon className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </aside>
+
+      <div className="flex flex-col h-full gap-4 flex-grow min-w-0">
+        {/* Settings Bar */}
+        <div className="flex items-center gap-3 p-3 bg-gray-900/50 rounded-2xl border border-gray-800">
+          <input
+            value={thread.name}
+            onChange={(e) => setThread({ ...thread, name: e.target.value })}
+            onBlur={() => persistThread(thread)}
+            className="flex-grow min-w-0 bg-transparent border-none focus:ring-0 font-bold text-sm px-2"
+            aria-label="Thread name"
+          />
+          <button 
+            onClick={() => setIsThinking(!isThinking)}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border transition-all ${isThinking ? 'bg-indigo-600/20 border-indigo-600 text-indigo-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`}
+          >
+            <BrainIcon className="w-4 h-4" />
+            <span className="text-sm font-semibold">Deep Thinking</span>
+          </button>
+          {isThinking && (
+            <button
+              onClick={() => setShowThoughts(!showThoughts)}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border transition-all ${showThoughts ? 'bg-indigo-600/20 border-indigo-600 text-indigo-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`}
+              title="Stream the model's thought summaries while it thinks"
+            >
+              <LightbulbIcon className="w-4 h-4" />
+              <span className="text-sm font-semibold">Thoughts</span>
+            </button>
+          )}
+          <button 
+            onClick={() => setUseSearch(!useSearch)}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border transition-all ${useSearch ? 'bg-blue-600/20 border-blue-600 text-blue-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`}
+          >
+            <SearchIcon className="w-4 h-4" />
+            <span className="text-sm font-semibold">Google Search</span>
+          </button>
+          <button 
+            onClick={() => setUseMaps(!useMaps)}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border transition-all ${useMaps ? 'bg-emerald-600/20 border-emerald-600 text-emerald-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`}
+          >
+            <MapPinIcon className="w-4 h-4" />
+            <span className="text-sm font-semibold">Google Maps</span>
+          </button>
+        </div>
+
+        {/* Message Area */}
+        <div ref={scrollRef} className="flex-grow overflow-y-auto pr-2 space-y-6 min-h-0">
+          {thread.summarizedCount > 0 && (
+            <div className="flex items-center justify-center gap-2 text-[10px] text-gray-600 font-bold uppercase tracking-widest">
+              <HistoryIcon className="w-3 h-3" />
+              {thread.summarizedCount} earlier messages condensed{thread.summary ? ' into a summary' : ''} · {Math.round(historyTokens / 1000)}k / {CHAT_TOKEN_BUDGET / 1000}k tokens in context
+            </div>
+          )}
+          {messages.length === 0 && (
+            <div className="h-full flex flex-col items-center justify-center text-center p-10 opacity-30">
+              <BrainIcon className="w-16 h-16 mb-4" />
+              <h4 className="text-xl font-bold">Gemini Intelligence</h4>
+              <p>Ask complex questions, analyze images, or browse the web.</p>
+            </div>
+          )}
+          {messages.map((msg, idx) => (
+            <div key={idx} className={`flex gap-4 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[85%] rounded-2xl p-4 ${msg.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-gray-900 border border-gray-800'}`}>
+                <div className="flex items-center gap-2 mb-2 opacity-50 text-xs font-bold uppercase tracking-wider">
+                  {msg.role === 'user' ? <UserIcon className="w-3 h-3"/> : <BotIcon className="w-3 h-3"/>}
+                  {msg.role === 'user' ? 'User' : (msg.isThinking ? 'Gemini Thinking' : 'Gemini')}
                 </div>
-              )}
-              
-              <div className="whitespace-pre-wrap leading-relaxed">{msg.text}</div>
               
-              {msg.groundingUrls && msg.groundingUrls.length > 0 && (
-                <div className="mt-4 pt-4 border-t border-gray-800">
-                  <p className="text-xs font-bold text-gray-500 mb-2 uppercase">Sources</p>
-                  <div className="flex flex-wrap gap-2">
-                    {msg.groundingUrls.map((link, i) => (
-                      <a key={i} href={link.uri} target="_blank" rel="noreferrer" className="flex items-center gap-2 px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded text-xs text-indigo-400 transition-colors">
-                        <ExternalLinkIcon className="w-3 h-3" />
-                        <span className="max-w-[150px] truncate">{link.title || link.uri}</span>
-                      </a>
+                {msg.images && msg.images.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {msg.images.map((img, i) => (
+                      <img key={i} src={img} alt="attachment" className="w-32 h-32 object-cover rounded-lg border border-white/10" />
                     ))}
                   </div>
-                </div>
-              )}
-            </div>
-          </div>
-        ))}
-        {isLoading && (
-          <div className="flex gap-4">
-             <div className="bg-gray-900 border border-gray-800 rounded-2xl p-4 flex items-center gap-3">
-               <div className="w-2 h-2 bg-indigo-500 rounded-full animate-bounce" />
-               <div className="w-2 h-2 bg-indigo-500 rounded-full animate-bounce [animation-delay:0.2s]" />
-               <div className="w-2 h-2 bg-indigo-500 rounded-full animate-bounce [animation-delay:0.4s]" />
-               <span className="text-xs text-gray-500 font-bold ml-2">GEMINI IS {isThinking ? 'THINKING' : 'TYPING'}...</span>
-             </div>
-          </div>
-        )}
-      </div>
+                )}
+              
+                {msg.thoughts && (
+                  <details open={msg.isStreaming && !msg.text} className="mb-3 rounded-xl bg-black/30 border border-gray-800 px-3 py-2">
+                    <summary className="cursor-pointer text-xs font-bold text-gray-500 flex items-center gap-2">
+                      <LightbulbIcon className="w-3 h-3" /> Thoughts
+                    </summary>
+                    <div className="mt-2 whitespace-pre-wrap text-xs text-gray-500 leading-relaxed">{msg.thoughts}</div>
+                  </details>
+                )}
 
-      {/* Input Area */}
-      <div className="p-4 bg-gray-900/80 backdrop-blur rounded-3xl border border-gray-800 shadow-2xl">
-        {attachments.length > 0 && (
-          <div className="flex gap-2 mb-3">
-            {attachments.map((a, i) => (
-              <div key={i} className="relative group">
-                <img src={`data:${a.file.type};base64,${a.base64}`} alt="upload" className="w-16 h-16 object-cover rounded-lg border border-gray-700" />
-                <button 
-                  onClick={() => setAttachments(prev => prev.filter((_, idx) => idx !== i))}
-                  className="absolute -top-2 -right-2 bg-red-600 text-white p-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
-                >
-                  <TrashIcon className="w-3 h-3" />
-                </button>
+                {msg.role === 'model' ? (
+                  <Markdown>{msg.text}</Markdown>
+                ) : (
+                  <div className="whitespace-pre-wrap leading-relaxed">{msg.text}</div>
+                )}
+                {msg.isStreaming && <span className="inline-block w-2 h-4 mt-1 bg-indigo-400 animate-pulse" />}
+                {msg.stopped && (
+                  <p className="mt-2 text-[10px] font-bold uppercase tracking-widest text-gray-600">Stopped</p>
+                )}
+              
+                {msg.groundingUrls && msg.groundingUrls.length > 0 && (
+                  <div className="mt-4 pt-4 border-t border-gray-800">
+                    <p className="text-xs font-bold text-gray-500 mb-2 uppercase">Sources</p>
+                    <div className="flex flex-wrap gap-2">
+                      {msg.groundingUrls.map((link, i) => (
+                        <a key={i} href={link.uri} target="_blank" rel="noreferrer" className="flex items-center gap-2 px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded text-xs text-indigo-400 transition-colors">
+                          <ExternalLinkIcon className="w-3 h-3" />
+                          <span className="max-w-[150px] truncate">{link.title || link.uri}</span>
+                        </a>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
-            ))}
-          </div>
-        )}
+            </div>
+          ))}
+          {isLoading && messages[messages.length - 1]?.role !== 'model' && (
+            <div className="flex gap-4">
+               <div className="bg-gray-900 border border-gray-800 rounded-2xl p-4 flex items-center gap-3">
+                 <div className="w-2 h-2 bg-indigo-500 rounded-full animate-bounce" />
+                 <div className="w-2 h-2 bg-indigo-500 rounded-full animate-bounce [animation-delay:0.2s]" />
+                 <div className="w-2 h-2 bg-indigo-500 rounded-full animate-bounce [animation-delay:0.4s]" />
+                 <span className="text-xs text-gray-500 font-bold ml-2">GEMINI IS {isThinking ? 'THINKING' : 'TYPING'}...</span>
+               </div>
+            </div>
+          )}
+        </div>
+
+        {error && <ErrorNotice error={error} onDismiss={() => setError(null)} compact />}
+
+        {/* Input Area */}
+        <div className="p-4 bg-gray-900/80 backdrop-blur rounded-3xl border border-gray-800 shadow-2xl">
+          {attachments.length > 0 && (
+            <div className="flex gap-2 mb-3">
+              {attachments.map((a, i) => (
+                <div key={i} className="relative group">
+                  <img src={`data:${a.file.type};base64,${a.base64}`} alt="upload" className="w-16 h-16 object-cover rounded-lg border border-gray-700" />
+                  <button 
+                    onClick={() => setAttachments(prev => prev.filter((_, idx) => idx !== i))}
+                    className="absolute -top-2 -right-2 bg-red-600 text-white p-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                  >
+                    <TrashIcon className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
         
-        <div className="flex items-end gap-3">
-          <button 
-            onClick={() => fileInputRef.current?.click()}
-            className="p-3 bg-gray-800 hover:bg-gray-700 rounded-2xl transition-colors text-gray-400"
-          >
-            <PaperclipIcon className="w-5 h-5" />
-          </button>
-          <input ref={fileInputRef} type="file" multiple accept="image/*,video/*" className="hidden" onChange={handleFileUpload} />
+          <div className="flex items-end gap-3">
+            <button 
+              onClick={() => fileInputRef.current?.click()}
+              className="p-3 bg-gray-800 hover:bg-gray-700 rounded-2xl transition-colors text-gray-400"
+            >
+              <PaperclipIcon className="w-5 h-5" />
+            </button>
+            <input ref={fileInputRef} type="file" multiple accept="image/*,video/*" className="hidden" onChange={handleFileUpload} />
           
-          <textarea 
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={(e) => { if(e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSend(); } }}
-            placeholder="Ask anything..."
-            className="flex-grow bg-transparent border-none focus:ring-0 resize-none py-3 text-lg placeholder:text-gray-600"
-            rows={1}
-          />
+            <textarea 
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => { if(e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); if (!isLoading) handleSend(); } }}
+              placeholder="Ask anything..."
+              className="flex-grow bg-transparent border-none focus:ring-0 resize-none py-3 text-lg placeholder:text-gray-600"
+              rows={1}
+            />
           
-          <button 
-            onClick={handleSend}
-            disabled={isLoading || (!input.trim() && attachments.length === 0)}
-            className="p-3 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-800 disabled:text-gray-700 rounded-2xl transition-all shadow-lg shadow-indigo-600/20"
-          >
-            <SendIcon className="w-6 h-6" />
-          </button>
+            {isLoading ? (
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="p-3 bg-red-600 hover:bg-red-500 rounded-2xl transition-all shadow-lg shadow-red-600/20"
+                aria-label="Stop generating"
+              >
+                <SquareIcon className="w-6 h-6 fill-current" />
+              </button>
+            ) : (
+              <button 
+                onClick={handleSend}
+                disabled={!input.trim() && attachments.length === 0}
+                className="p-3 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-800 disabled:text-gray-700 rounded-2xl transition-all shadow-lg shadow-indigo-600/20"
+              >
+                <SendIcon className="w-6 h-6" />
+              </button>
+            )}
+          </div>
         </div>
       </div>
     </div>
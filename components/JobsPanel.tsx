@@ -0,0 +1,139 @@
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { ListVideoIcon, XIcon, TrashIcon, Loader2Icon, CheckCircle2Icon, AlertTriangleIcon, ClockIcon, BanIcon, RefreshCcwIcon } from 'lucide-react';
+import { GenerationJob, JobStatus, expectedJobDuration, jobQueue } from '../services/jobQueue';
+
+const statusStyles: Record<JobStatus, string> = {
+  [JobStatus.QUEUED]: 'bg-gray-800 text-gray-400 border-gray-700',
+  [JobStatus.RUNNING]: 'bg-indigo-600/10 text-indigo-400 border-indigo-600/30',
+  [JobStatus.SUCCEEDED]: 'bg-emerald-600/10 text-emerald-400 border-emerald-600/30',
+  [JobStatus.FAILED]: 'bg-red-600/10 text-red-400 border-red-600/30',
+  [JobStatus.CANCELLED]: 'bg-gray-800 text-gray-500 border-gray-700',
+};
+
+const statusIcons: Record<JobStatus, React.ReactNode> = {
+  [JobStatus.QUEUED]: <ClockIcon className="w-4 h-4 text-gray-500" />,
+  [JobStatus.RUNNING]: <Loader2Icon className="w-4 h-4 text-indigo-400 animate-spin" />,
+  [JobStatus.SUCCEEDED]: <CheckCircle2Icon className="w-4 h-4 text-emerald-400" />,
+  [JobStatus.FAILED]: <AlertTriangleIcon className="w-4 h-4 text-red-400" />,
+  [JobStatus.CANCELLED]: <BanIcon className="w-4 h-4 text-gray-500" />,
+};
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return h > 0 ? `${h}h ${m}m` : `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+export const useJobs = () => useSyncExternalStore(jobQueue.subscribe, jobQueue.getJobs);
+
+const JobRow: React.FC<{ job: GenerationJob; now: number }> = ({ job, now }) => {
+  const elapsed = job.startedAt ? (job.finishedAt ?? now) - job.startedAt : 0;
+  const progress = job.status === JobStatus.SUCCEEDED
+    ? 1
+    : job.status === JobStatus.RUNNING ? Math.min(0.95, elapsed / expectedJobDuration(job)) : 0;
+  const result = jobQueue.getResult(job.id);
+
+  return (
+    <div className="bg-gray-900/50 rounded-2xl border border-gray-800 p-5 flex flex-col gap-3">
+      <div className="flex items-center gap-3">
+        {statusIcons[job.status]}
+        <div className="min-w-0 flex-grow">
+          <p className="font-bold text-sm truncate" title={job.params.prompt}>{job.label}</p>
+          <p className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">
+            {job.source} · {job.params.model.includes('fast') ? 'Veo Fast' : 'Veo'} · {job.params.resolution}
+          </p>
+        </div>
+        <span className="text-xs font-mono text-gray-400">{job.startedAt ? formatElapsed(elapsed) : '--:--'}</span>
+        <span className={`shrink-0 px-2 py-1 rounded border text-[10px] font-black uppercase tracking-widest ${statusStyles[job.status]}`}>
+          {job.status}
+        </span>
+        {job.status === JobStatus.QUEUED || job.status === JobStatus.RUNNING ? (
+          <button onClick={() => jobQueue.cancel(job.id)} className="p-2 rounded-lg text-gray-400 hover:bg-red-600/20 hover:text-red-400" aria-label="Cancel job">
+            <XIcon className="w-4 h-4" />
+          </button>
+        ) : (
+          <button onClick={() => jobQueue.remove(job.id)} className="p-2 rounded-lg text-gray-400 hover:bg-gray-800 hover:text-white" aria-label="Remove job">
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {(job.status === JobStatus.RUNNING || job.status === JobStatus.SUCCEEDED) && (
+        <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+          <div
+            className={`h-full transition-all duration-1000 ${job.status === JobStatus.SUCCEEDED ? 'bg-emerald-500' : 'bg-indigo-500'}`}
+            style={{ width: `${progress * 100}%` }}
+          />
+        </div>
+      )}
+
+      {job.error && job.status === JobStatus.FAILED && <p className="text-xs text-red-400">{job.error}</p>}
+
+      {result && (
+        <video src={result.objectUrl} controls muted loop className="w-full max-h-64 rounded-xl bg-black" />
+      )}
+      {!result && job.status === JobStatus.SUCCEEDED && (
+        <p className="text-xs text-gray-500">Saved to the Library.</p>
+      )}
+    </div>
+  );
+};
+
+const JobsPanel: React.FC = () => {
+  const jobs = useJobs();
+  const [now, setNow] = useState(Date.now());
+  const activeCount = jobs.filter(job => job.status === JobStatus.QUEUED || job.status === JobStatus.RUNNING).length;
+
+  useEffect(() => {
+    if (activeCount === 0) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [activeCount]);
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex items-center justify-between p-3 bg-gray-900/50 rounded-2xl border border-gray-800">
+        <p className="text-sm text-gray-400 px-2">
+          <span className="font-bold text-white">{activeCount}</span> active · {jobs.length - activeCount} finished
+        </p>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => jobQueue.pollNow()}
+            disabled={activeCount === 0}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg border bg-gray-800 border-gray-700 text-gray-400 hover:text-white disabled:opacity-40 text-xs font-bold"
+          >
+            <RefreshCcwIcon className="w-3 h-3" /> Check Now
+          </button>
+          <button
+            onClick={() => jobQueue.clearFinished()}
+            disabled={jobs.length === activeCount}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg border bg-gray-800 border-gray-700 text-gray-400 hover:text-white disabled:opacity-40 text-xs font-bold"
+          >
+            <TrashIcon className="w-3 h-3" /> Clear Finished
+          </button>
+        </div>
+      </div>
+
+      {jobs.length === 0 ? (
+        <div className="flex flex-col items-center justify-center bg-gray-900/20 border border-gray-800 border-dashed rounded-[40px] p-20 text-center text-gray-600">
+          <ListVideoIcon className="w-10 h-10 opacity-20 mb-4" />
+          <h4 className="text-2xl font-bold">No render jobs</h4>
+          <p className="max-w-xs mx-auto">Queue videos from the Video Lab or render a course storyboard to see them here. Jobs keep polling across tabs and reloads.</p>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-4">
+          {[...jobs].reverse().map(job => <JobRow key={job.id} job={job} now={now} />)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JobsPanel;
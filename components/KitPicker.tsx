@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useState} from 'react';
+import {ConsistencyKit, ImageFile} from '../types';
+import {deleteKit, listKits, saveKit} from '../services/libraryStore';
+import {validateKit} from '../services/consistencyKits';
+import {imageFileToDataUrl} from '../services/imageFiles';
+import {KitIcon, SaveIcon, TrashIcon, XMarkIcon} from './icons';
+
+interface KitPickerProps {
+  referenceImages: ImageFile[];
+  styleImage: ImageFile | null;
+  onApply: (kit: ConsistencyKit) => void;
+  onClose: () => void;
+}
+
+const KitPicker: React.FC<KitPickerProps> = ({
+  referenceImages,
+  styleImage,
+  onApply,
+  onClose,
+}) => {
+  const [kits, setKits] = useState<ConsistencyKit[]>([]);
+  const [saveName, setSaveName] = useState('');
+  const [promptSuffix, setPromptSuffix] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const refresh = () =>
+    listKits()
+      .then(setKits)
+      .catch(() => setNotice('Failed to load kits from the project library.'));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleSave = async () => {
+    const kit = {name: saveName.trim(), referenceImages, styleImage, promptSuffix: promptSuffix.trim()};
+    const problem = validateKit(kit);
+    if (problem) {
+      setNotice(problem);
+      return;
+    }
+    try {
+      await saveKit(kit);
+      setSaveName('');
+      setPromptSuffix('');
+      setNotice(`Saved "${kit.name}".`);
+      refresh();
+    } catch {
+      setNotice('Failed to save the kit.');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteKit(id).catch(() => setNotice('Failed to delete the kit.'));
+    refresh();
+  };
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-3 p-4 bg-[#2c2c2e] rounded-xl border border-gray-700 shadow-2xl z-20 flex flex-col gap-3 max-h-[28rem]">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-gray-200">
+          <KitIcon className="w-5 h-5 text-indigo-400" />
+          <span className="font-medium text-sm">Consistency Kits</span>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1.5 rounded-md text-gray-400 hover:bg-gray-700 hover:text-white"
+          aria-label="Close kits">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      {notice && <p className="text-xs text-gray-400">{notice}</p>}
+
+      <div className="flex flex-col gap-1 overflow-y-auto">
+        {kits.length === 0 && (
+          <p className="text-xs text-gray-500 italic py-2">
+            No kits yet. Add reference images in References mode, then save them as a kit below.
+          </p>
+        )}
+        {kits.map((kit) => (
+          <div
+            key={kit.id}
+            className="group flex items-center gap-2 rounded-lg hover:bg-gray-700/60">
+            <button
+              type="button"
+              onClick={() => onApply(kit)}
+              className="flex-grow min-w-0 flex items-center gap-3 text-left p-2">
+              <div className="flex -space-x-2 shrink-0">
+                {[...kit.referenceImages, ...(kit.styleImage ? [kit.styleImage] : [])].map((image, i) => (
+                  <img
+                    key={i}
+                    src={imageFileToDataUrl(image)}
+                    alt=""
+                    className={`w-9 h-9 rounded-md object-cover border-2 ${image === kit.styleImage ? 'border-indigo-500' : 'border-[#2c2c2e]'}`}
+                  />
+                ))}
+              </div>
+              <div className="min-w-0">
+                <span className="text-sm text-gray-200 font-medium truncate block">{kit.name}</span>
+                <p className="text-xs text-gray-500 truncate">
+                  {kit.promptSuffix || `${kit.referenceImages.length} reference${kit.referenceImages.length === 1 ? '' : 's'}${kit.styleImage ? ' + style' : ''}`}
+                </p>
+              </div>
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDelete(kit.id)}
+              className="m-2 p-1 rounded-md text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+              aria-label={`Delete ${kit.name}`}>
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-2 pt-3 border-t border-gray-700">
+        <input
+          value={promptSuffix}
+          onChange={(e) => setPromptSuffix(e.target.value)}
+          placeholder="Prompt suffix, e.g. 'Flat pastel illustration, same instructor throughout'"
+          className="bg-[#1f1f1f] border border-gray-600 rounded-lg px-3 py-2 text-sm focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <div className="flex items-center gap-2">
+          <input
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            placeholder="Save current references as..."
+            className="flex-grow bg-[#1f1f1f] border border-gray-600 rounded-lg px-3 py-2 text-sm focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!saveName.trim() || referenceImages.length === 0}
+            className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:text-gray-500 disabled:cursor-not-allowed"
+            title="Saves the reference and style images currently in the form"
+            aria-label="Save as kit">
+            <SaveIcon className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KitPicker;
@@ -0,0 +1,242 @@
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useState } from 'react';
+import { SearchIcon, TrashIcon, DownloadIcon, TagIcon, XIcon, LibraryIcon, FilmIcon, ImageIcon, MusicIcon, FileTextIcon, Loader2Icon } from 'lucide-react';
+import { deleteAsset, listAssets, updateAsset } from '../services/libraryStore';
+import { AssetKind, LibraryAsset } from '../types';
+import ErrorNotice from './ErrorNotice';
+
+const kindIcons: Record<AssetKind, React.FC<{className?: string}>> = {
+  [AssetKind.VIDEO]: FilmIcon,
+  [AssetKind.IMAGE]: ImageIcon,
+  [AssetKind.AUDIO]: MusicIcon,
+  [AssetKind.TRANSCRIPT]: FileTextIcon,
+};
+
+const fileExtensions: Record<string, string> = {
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/apng': 'png',
+  'audio/wav': 'wav',
+  'audio/mpeg': 'mp3',
+};
+
+const transcriptText = (asset: LibraryAsset) => asset.messages
+  ? asset.messages.map(m => `${m.role === 'user' ? 'User' : 'Gemini'}: ${m.text}`).join('\n\n')
+  : asset.text ?? '';
+
+const AssetPreview: React.FC<{ asset: LibraryAsset }> = ({ asset }) => {
+  const url = useMemo(() => asset.blob ? URL.createObjectURL(asset.blob) : null, [asset.blob]);
+  useEffect(() => () => { if (url) URL.revokeObjectURL(url); }, [url]);
+
+  if (asset.kind === AssetKind.VIDEO && url) {
+    return <video src={url} controls muted loop className="w-full h-full object-contain bg-black" />;
+  }
+  if (asset.kind === AssetKind.IMAGE && url) {
+    return <img src={url} alt={asset.title} className="w-full h-full object-contain bg-black" />;
+  }
+  if (asset.kind === AssetKind.AUDIO && url) {
+    return (
+      <div className="w-full h-full flex items-center justify-center p-4">
+        <audio src={url} controls className="w-full" />
+      </div>
+    );
+  }
+  return (
+    <div className="w-full h-full p-4 overflow-hidden text-xs text-gray-400 whitespace-pre-wrap leading-relaxed">
+      {transcriptText(asset).slice(0, 600)}
+    </div>
+  );
+};
+
+const AssetCard: React.FC<{
+  asset: LibraryAsset;
+  onChange: (asset: LibraryAsset) => void;
+  onDelete: (id: string) => void;
+  onTagClick: (tag: string) => void;
+  onError: (error: unknown) => void;
+}> = ({ asset, onChange, onDelete, onTagClick, onError }) => {
+  const [tagInput, setTagInput] = useState('');
+  const KindIcon = kindIcons[asset.kind];
+
+  const setTags = async (tags: string[]) => {
+    try {
+      onChange(await updateAsset(asset.id, { tags }));
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  const handleAddTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = tagInput.trim().toLowerCase();
+    setTagInput('');
+    if (tag && !asset.tags.includes(tag)) setTags([...asset.tags, tag]);
+  };
+
+  const handleDownload = () => {
+    const blob = asset.blob ?? new Blob([transcriptText(asset)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${asset.title.replace(/[^\w-]+/g, '-').slice(0, 40) || 'asset'}.${fileExtensions[blob.type] ?? 'txt'}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-gray-900/50 rounded-3xl border border-gray-800 overflow-hidden flex flex-col">
+      <div className="aspect-video bg-black/40">
+        <AssetPreview asset={asset} />
+      </div>
+      <div className="p-5 flex flex-col gap-3 flex-grow">
+        <div className="flex items-start gap-3">
+          <KindIcon className="w-4 h-4 mt-0.5 text-indigo-400 shrink-0" />
+          <div className="min-w-0">
+            <p className="font-bold text-sm truncate" title={asset.title}>{asset.title}</p>
+            <p className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">
+              {asset.source} · {new Date(asset.createdAt).toLocaleString()}
+            </p>
+          </div>
+        </div>
+
+        {asset.prompt && (
+          <p className="text-xs text-gray-500 italic line-clamp-2" title={asset.prompt}>{asset.prompt}</p>
+        )}
+
+        <div className="flex flex-wrap gap-1.5">
+          {asset.tags.map(tag => (
+            <span key={tag} className="flex items-center gap-1 px-2 py-0.5 bg-indigo-600/10 border border-indigo-600/20 text-indigo-300 rounded text-[10px] font-bold">
+              <button onClick={() => onTagClick(tag)}>#{tag}</button>
+              <button onClick={() => setTags(asset.tags.filter(t => t !== tag))} aria-label={`Remove tag ${tag}`}>
+                <XIcon className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          <form onSubmit={handleAddTag} className="flex items-center gap-1">
+            <TagIcon className="w-3 h-3 text-gray-600" />
+            <input
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              placeholder="Add tag"
+              className="w-20 bg-transparent border-none p-0 text-[10px] text-gray-400 placeholder:text-gray-700 focus:ring-0"
+            />
+          </form>
+        </div>
+
+        <div className="mt-auto pt-3 border-t border-gray-800 flex items-center justify-end gap-2">
+          <button onClick={handleDownload} className="p-2 rounded-lg text-gray-400 hover:bg-gray-800 hover:text-white" aria-label="Download asset">
+            <DownloadIcon className="w-4 h-4" />
+          </button>
+          <button onClick={() => onDelete(asset.id)} className="p-2 rounded-lg text-gray-400 hover:bg-red-600/20 hover:text-red-400" aria-label="Delete asset">
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const Library: React.FC = () => {
+  const [assets, setAssets] = useState<LibraryAsset[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [kindFilter, setKindFilter] = useState<AssetKind | null>(null);
+  const [error, setError] = useState<unknown>(null);
+
+  useEffect(() => {
+    listAssets()
+      .then(setAssets)
+      .catch(setError)
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const filteredAssets = useMemo(() => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return assets.filter(asset => {
+      if (kindFilter && asset.kind !== kindFilter) return false;
+      const haystack = [asset.title, asset.prompt ?? '', asset.text ?? '', ...asset.tags.map(t => `#${t}`)].join(' ').toLowerCase();
+      return terms.every(term => haystack.includes(term));
+    });
+  }, [assets, query, kindFilter]);
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this asset from the library?')) return;
+    setError(null);
+    try {
+      await deleteAsset(id);
+      setAssets(prev => prev.filter(asset => asset.id !== id));
+    } catch (error) {
+      setError(error);
+    }
+  };
+
+  const handleChange = (updated: LibraryAsset) => {
+    setAssets(prev => prev.map(asset => asset.id === updated.id ? updated : asset));
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-col md:flex-row md:items-center gap-3 p-3 bg-gray-900/50 rounded-2xl border border-gray-800">
+        <div className="flex items-center gap-2 flex-grow px-2">
+          <SearchIcon className="w-4 h-4 text-gray-500" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search titles, prompts, transcripts or #tags..."
+            className="flex-grow bg-transparent border-none focus:ring-0 text-sm placeholder:text-gray-600"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          {Object.values(AssetKind).map(kind => (
+            <button
+              key={kind}
+              onClick={() => setKindFilter(kindFilter === kind ? null : kind)}
+              className={`px-3 py-1.5 rounded-lg border text-xs font-bold transition-all ${kindFilter === kind ? 'bg-indigo-600/20 border-indigo-600 text-indigo-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`}
+            >
+              {kind}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!!error && <ErrorNotice error={error} onDismiss={() => setError(null)} />}
+
+      {isLoading ? (
+        <div className="flex justify-center p-20">
+          <Loader2Icon className="w-8 h-8 text-indigo-500 animate-spin" />
+        </div>
+      ) : filteredAssets.length === 0 ? (
+        <div className="flex flex-col items-center justify-center bg-gray-900/20 border border-gray-800 border-dashed rounded-[40px] p-20 text-center text-gray-600">
+          <LibraryIcon className="w-10 h-10 opacity-20 mb-4" />
+          <h4 className="text-2xl font-bold">{assets.length === 0 ? 'Your library is empty' : 'No matching assets'}</h4>
+          <p className="max-w-xs mx-auto">Everything generated in the labs is saved here automatically.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {filteredAssets.map(asset => (
+            <AssetCard
+              key={asset.id}
+              asset={asset}
+              onChange={handleChange}
+              onDelete={handleDelete}
+              onTagClick={(tag) => setQuery(`#${tag}`)}
+              onError={setError}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Library;
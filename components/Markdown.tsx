@@ -0,0 +1,86 @@
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import ReactMarkdown, { Components, Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import { CopyIcon, CheckIcon } from 'lucide-react';
+
+// Raw HTML in the source is never rendered (no rehype-raw), and react-markdown strips unsafe link protocols
+const remarkPlugins: Options['remarkPlugins'] = [remarkGfm, remarkMath];
+const rehypePlugins: Options['rehypePlugins'] = [[rehypeKatex, { throwOnError: false, strict: false }], [rehypeHighlight, { detect: true }]];
+
+const CodeBlock: React.FC<React.HTMLAttributes<HTMLPreElement>> = ({ children, ...props }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+  const codeClass = React.isValidElement<{className?: string}>(children) ? children.props.className ?? '' : '';
+  const language = /language-([\w-]+)/.exec(codeClass)?.[1];
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.textContent ?? '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.warn('Clipboard write failed', e);
+    }
+  };
+
+  return (
+    <div className="my-3 rounded-xl border border-gray-800 bg-black/50 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-gray-800 bg-gray-900/60">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-gray-500">{language ?? 'code'}</span>
+        <button onClick={handleCopy} className="flex items-center gap-1 text-[10px] font-bold text-gray-500 hover:text-white transition-colors">
+          {copied ? <CheckIcon className="w-3 h-3 text-emerald-400" /> : <CopyIcon className="w-3 h-3" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre ref={preRef} {...props} className="p-3 overflow-x-auto text-xs leading-relaxed font-mono">{children}</pre>
+    </div>
+  );
+};
+
+const components: Components = {
+  pre: ({ node, ...props }) => <CodeBlock {...props} />,
+  code: ({ node, className, ...props }) => className?.includes('hljs') || className?.includes('language-')
+    ? <code className={`${className} !bg-transparent !p-0`} {...props} />
+    : <code className="px-1.5 py-0.5 rounded bg-black/40 border border-gray-800 text-indigo-300 text-[0.85em] font-mono" {...props} />,
+  a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" className="text-indigo-400 hover:underline break-words" />,
+  p: ({ node, ...props }) => <p className="my-2 first:mt-0 last:mb-0" {...props} />,
+  h1: ({ node, ...props }) => <h1 className="mt-4 mb-2 text-xl font-bold" {...props} />,
+  h2: ({ node, ...props }) => <h2 className="mt-4 mb-2 text-lg font-bold" {...props} />,
+  h3: ({ node, ...props }) => <h3 className="mt-3 mb-2 font-bold" {...props} />,
+  ul: ({ node, ...props }) => <ul className="my-2 pl-5 list-disc space-y-1" {...props} />,
+  ol: ({ node, ...props }) => <ol className="my-2 pl-5 list-decimal space-y-1" {...props} />,
+  blockquote: ({ node, ...props }) => <blockquote className="my-2 pl-3 border-l-2 border-indigo-600/50 text-gray-400 italic" {...props} />,
+  hr: () => <hr className="my-4 border-gray-800" />,
+  table: ({ node, ...props }) => (
+    <div className="my-3 overflow-x-auto rounded-xl border border-gray-800">
+      <table className="w-full text-left text-xs" {...props} />
+    </div>
+  ),
+  thead: ({ node, ...props }) => <thead className="bg-gray-900/80 text-gray-400" {...props} />,
+  th: ({ node, ...props }) => <th className="px-3 py-2 font-bold border-b border-gray-800" {...props} />,
+  td: ({ node, ...props }) => <td className="px-3 py-2 border-t border-gray-800/60 align-top" {...props} />,
+};
+
+interface MarkdownProps {
+  children: string;
+  className?: string;
+}
+
+/** Renders model output as GitHub-flavoured markdown with KaTeX math and highlighted code blocks */
+const Markdown: React.FC<MarkdownProps> = ({ children, className = '' }) => (
+  <div className={`leading-relaxed break-words ${className}`}>
+    <ReactMarkdown remarkPlugins={remarkPlugins} rehypePlugins={rehypePlugins} components={components}>
+      {children}
+    </ReactMarkdown>
+  </div>
+);
+
+export default Markdown;
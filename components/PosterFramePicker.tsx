@@ -0,0 +1,218 @@
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useRef, useState} from 'react';
+import {AssetKind, ImageFile, NavigationTab} from '../types';
+import {ChevronLeftIcon, ChevronRightIcon, DownloadIcon, ImagePlusIcon, WandIcon} from './icons';
+import {FrameFormat, SampledFrame, captureFrame, sampleFrames} from '../services/frameCapture';
+import {blobToImageFile} from '../services/imageFiles';
+import {PosterPick, pickPosterFrame} from '../services/geminiService';
+import {archiveAsset} from '../services/libraryStore';
+import ErrorNotice from './ErrorNotice';
+
+const FRAME_DURATION = 1 / 24;
+const SAMPLE_COUNT = 8;
+
+const frameExtensions: Record<FrameFormat, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+};
+
+interface PosterFramePickerProps {
+  videoUrl: string;
+  prompt?: string; // What the video shows; helps the auto-pick judge relevance
+  onSendToImageLab?: (image: ImageFile) => void;
+}
+
+const PosterFramePicker: React.FC<PosterFramePickerProps> = ({videoUrl, prompt, onSendToImageLab}) => {
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const [duration, setDuration] = useState(0);
+  const [size, setSize] = useState<{width: number; height: number} | null>(null);
+  const [time, setTime] = useState(0);
+  const [format, setFormat] = useState<FrameFormat>('image/png');
+  const [samples, setSamples] = useState<SampledFrame[]>([]);
+  const [pick, setPick] = useState<PosterPick | null>(null);
+  const [busy, setBusy] = useState<'pick' | 'export' | 'send' | null>(null);
+  const [error, setError] = useState<unknown>(null);
+
+  useEffect(() => {
+    if (previewRef.current) previewRef.current.currentTime = time;
+  }, [time]);
+
+  useEffect(() => {
+    setSamples([]);
+    setPick(null);
+    setTime(0);
+  }, [videoUrl]);
+
+  const seekTo = (value: number) => setTime(Math.min(Math.max(0, value), duration));
+
+  const handleAutoPick = async () => {
+    setBusy('pick');
+    setError(null);
+    try {
+      const frames = await sampleFrames(videoUrl, SAMPLE_COUNT);
+      setSamples(frames);
+      const result = await pickPosterFrame(frames.map(frame => frame.base64), prompt);
+      setPick(result);
+      setTime(frames[result.index].time);
+    } catch (e) {
+      setError(e);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleExport = async () => {
+    setBusy('export');
+    setError(null);
+    try {
+      const blob = await captureFrame(videoUrl, time, format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `veo-studio-poster-${time.toFixed(2)}s.${frameExtensions[format]}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      archiveAsset({
+        kind: AssetKind.IMAGE,
+        title: prompt ? `Poster: ${prompt.slice(0, 50)}` : 'Poster frame',
+        tags: ['poster'],
+        source: NavigationTab.VIDEO,
+        blob,
+        prompt,
+        metadata: {time, ...size},
+      });
+    } catch (e) {
+      setError(e);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!onSendToImageLab) return;
+    setBusy('send');
+    setError(null);
+    try {
+      // PNG so Image Lab edits start from a lossless source
+      const blob = await captureFrame(videoUrl, time, 'image/png');
+      onSendToImageLab(await blobToImageFile(blob, `frame-${time.toFixed(2)}s.png`));
+    } catch (e) {
+      setError(e);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="w-full bg-gray-900/60 border border-gray-700 rounded-lg p-4 flex flex-col gap-4">
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="sm:w-1/2 rounded-lg overflow-hidden bg-black border border-gray-700">
+          <video
+            ref={previewRef}
+            src={videoUrl}
+            muted
+            playsInline
+            preload="auto"
+            className="w-full max-h-64 object-contain"
+            onLoadedMetadata={(e) => {
+              setDuration(e.currentTarget.duration);
+              setSize({width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight});
+            }}
+          />
+        </div>
+
+        <div className="flex-1 flex flex-col gap-3">
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <span className="font-mono">{time.toFixed(2)}s / {duration.toFixed(2)}s</span>
+            {size && <span>{size.width}×{size.height} native</span>}
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => seekTo(time - FRAME_DURATION)}
+              className="p-1.5 rounded-md bg-gray-700/60 text-gray-300 hover:text-white"
+              title="Previous frame">
+              <ChevronLeftIcon className="w-4 h-4" />
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={duration || 0}
+              step={FRAME_DURATION}
+              value={time}
+              onChange={(e) => seekTo(Number(e.target.value))}
+              className="flex-1 accent-indigo-500"
+              aria-label="Frame position"
+            />
+            <button
+              onClick={() => seekTo(time + FRAME_DURATION)}
+              className="p-1.5 rounded-md bg-gray-700/60 text-gray-300 hover:text-white"
+              title="Next frame">
+              <ChevronRightIcon className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as FrameFormat)}
+              className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm">
+              <option value="image/png">PNG</option>
+              <option value="image/jpeg">JPEG</option>
+            </select>
+            <button
+              onClick={handleExport}
+              disabled={!!busy || !duration}
+              className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white text-sm font-semibold rounded-lg transition-all">
+              <DownloadIcon className="w-4 h-4" />
+              {busy === 'export' ? 'Exporting...' : 'Export Frame'}
+            </button>
+            {onSendToImageLab && (
+              <button
+                onClick={handleSend}
+                disabled={!!busy || !duration}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white text-sm font-semibold rounded-lg transition-all"
+                title="Open this frame in Image Lab's editor">
+                <ImagePlusIcon className="w-4 h-4" />
+                {busy === 'send' ? 'Sending...' : 'Edit in Image Lab'}
+              </button>
+            )}
+            <button
+              onClick={handleAutoPick}
+              disabled={!!busy || !duration}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-sm font-semibold rounded-lg transition-all"
+              title={`Sample ${SAMPLE_COUNT} frames and let Gemini choose the best poster`}>
+              <WandIcon className="w-4 h-4" />
+              {busy === 'pick' ? 'Picking...' : 'Auto-pick'}
+            </button>
+          </div>
+
+          {pick && <p className="text-xs text-gray-400 italic">{pick.reason}</p>}
+        </div>
+      </div>
+
+      {samples.length > 0 && (
+        <div className="grid grid-cols-4 sm:grid-cols-8 gap-2">
+          {samples.map((sample, i) => (
+            <button
+              key={sample.time}
+              onClick={() => setTime(sample.time)}
+              className={`rounded-md overflow-hidden border-2 transition-colors ${pick?.index === i ? 'border-indigo-500' : Math.abs(sample.time - time) < FRAME_DURATION ? 'border-gray-400' : 'border-transparent hover:border-gray-600'}`}
+              title={`${sample.time.toFixed(2)}s`}>
+              <img src={`data:image/jpeg;base64,${sample.base64}`} alt={`Frame at ${sample.time.toFixed(2)}s`} className="w-full aspect-video object-cover bg-black" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {!!error && <ErrorNotice error={error} onDismiss={() => setError(null)} compact />}
+    </div>
+  );
+};
+
+export default PosterFramePicker;
@@ -7,9 +7,12 @@ import {Video} from '@google/genai';
 import React, {useCallback, useEffect, useRef, useState} from 'react';
 import {
   AspectRatio,
+  ConsistencyKit,
   GenerateVideoParams,
   GenerationMode,
   ImageFile,
+  ImageHandoff,
+  ImageSlot,
   Resolution,
   VeoModel,
   VideoFile,
@@ -17,17 +20,26 @@ import {
 import {
   ArrowRightIcon,
   ChevronDownIcon,
+  CompareIcon,
+  KitIcon,
   FilmIcon,
   FramesModeIcon,
   PlusIcon,
+  QueueIcon,
   RectangleStackIcon,
   ReferencesModeIcon,
   SlidersHorizontalIcon,
   SparklesIcon,
+  TemplateIcon,
   TextModeIcon,
   TvIcon,
   XMarkIcon,
 } from './icons';
+import TemplatePicker from './TemplatePicker';
+import {extractLastFrameBase64} from '../services/frameCapture';
+import {blobToBase64, fileToImageFile} from '../services/imageFiles';
+import {MAX_REFERENCE_IMAGES, withKitSuffix} from '../services/consistencyKits';
+import KitPicker from './KitPicker';
 
 const aspectRatioDisplayNames: Record<AspectRatio, string> = {
   [AspectRatio.SQUARE]: 'Square (1:1)',
@@ -49,60 +61,8 @@ const modeIcons: Record<GenerationMode, React.ReactNode> = {
   [GenerationMode.EXTEND_VIDEO]: <FilmIcon className="w-5 h-5" />,
 };
 
-const fileToBase64 = <T extends {file: File; base64: string}>(
-  file: File,
-): Promise<T> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const base64 = (reader.result as string).split(',')[1];
-      if (base64) {
-        resolve({file, base64} as T);
-      } else {
-        reject(new Error('Failed to read file as base64.'));
-      }
-    };
-    reader.onerror = (error) => reject(error);
-    reader.readAsDataURL(file);
-  });
-};
-
-const extractLastFrameBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const video = document.createElement('video');
-    video.preload = 'metadata';
-    video.src = URL.createObjectURL(file);
-    video.muted = true;
-    video.playsInline = true;
-
-    video.onloadedmetadata = () => {
-      // Seek to just before the end
-      video.currentTime = Math.max(0, video.duration - 0.1);
-    };
-
-    video.onseeked = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-        const dataUrl = canvas.toDataURL('image/png');
-        resolve(dataUrl.split(',')[1]);
-      } else {
-        reject(new Error('Failed to get canvas context'));
-      }
-      URL.revokeObjectURL(video.src);
-    };
-
-    video.onerror = () => reject(new Error('Error loading video for frame extraction'));
-  });
-};
-
-const fileToImageFile = (file: File): Promise<ImageFile> =>
-  fileToBase64<ImageFile>(file);
-const fileToVideoFile = (file: File): Promise<VideoFile> =>
-  fileToBase64<VideoFile>(file);
+const fileToVideoFile = async (file: File): Promise<VideoFile> =>
+  ({file, base64: await blobToBase64(file)});
 
 const CustomSelect: React.FC<{
   label: string;
@@ -275,14 +235,29 @@ const VideoUpload: React.FC<{
   );
 };
 
+export interface CompareVariantParams {
+  label: string;
+  params: GenerateVideoParams;
+}
+
+type CompareBy = 'models' | 'prompts';
+
 interface PromptFormProps {
   onGenerate: (params: GenerateVideoParams) => void;
+  onQueue?: (params: GenerateVideoParams) => void;
+  onCompare?: (variants: CompareVariantParams[]) => void;
   initialValues?: GenerateVideoParams | null;
+  incomingImage?: ImageHandoff | null; // Sent over from another lab
+  onIncomingImageUsed?: () => void;
 }
 
 const PromptForm: React.FC<PromptFormProps> = ({
   onGenerate,
+  onQueue,
+  onCompare,
   initialValues,
+  incomingImage,
+  onIncomingImageUsed,
 }) => {
   const [prompt, setPrompt] = useState(initialValues?.prompt ?? '');
   const [model, setModel] = useState<VeoModel>(
@@ -324,6 +299,11 @@ const PromptForm: React.FC<PromptFormProps> = ({
   const [isLooping, setIsLooping] = useState(initialValues?.isLooping ?? false);
 
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [isKitsOpen, setIsKitsOpen] = useState(false);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [compareBy, setCompareBy] = useState<CompareBy>('models');
+  const [variantPrompt, setVariantPrompt] = useState('');
   const [isModeSelectorOpen, setIsModeSelectorOpen] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const modeSelectorRef = useRef<HTMLDivElement>(null);
@@ -374,26 +354,23 @@ const PromptForm: React.FC<PromptFormProps> = ({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const handleSubmit = useCallback(
-    (e: React.FormEvent) => {
-      e.preventDefault();
-      onGenerate({
-        prompt,
-        model,
-        aspectRatio,
-        resolution,
-        mode: generationMode,
-        startFrame,
-        endFrame,
-        referenceImages,
-        styleImage,
-        inputVideo,
-        inputVideoObject,
-        inputVideoUrl,
-        lastFrameFromVideo,
-        isLooping,
-      });
-    },
+  const buildParams = useCallback(
+    (): GenerateVideoParams => ({
+      prompt,
+      model,
+      aspectRatio,
+      resolution,
+      mode: generationMode,
+      startFrame,
+      endFrame,
+      referenceImages,
+      styleImage,
+      inputVideo,
+      inputVideoObject,
+      inputVideoUrl,
+      lastFrameFromVideo,
+      isLooping,
+    }),
     [
       prompt,
       model,
@@ -408,14 +385,41 @@ const PromptForm: React.FC<PromptFormProps> = ({
       inputVideoObject,
       inputVideoUrl,
       lastFrameFromVideo,
-      onGenerate,
       isLooping,
     ],
   );
 
+  const handleSubmit = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+      onGenerate(buildParams());
+    },
+    [buildParams, onGenerate],
+  );
+
+  const handleCompare = () => {
+    const params = buildParams();
+    const variants: CompareVariantParams[] =
+      compareBy === 'models'
+        ? [
+            {label: 'Fast (Veo 3.1)', params: {...params, model: VeoModel.VEO_FAST}},
+            {label: 'High Quality (Veo 3.1)', params: {...params, model: VeoModel.VEO}},
+          ]
+        : [
+            {label: 'Prompt A', params},
+            {label: 'Prompt B', params: {...params, prompt: variantPrompt}},
+          ];
+    setIsCompareOpen(false);
+    onCompare?.(variants);
+  };
+
   const handleSelectMode = (mode: GenerationMode) => {
     setGenerationMode(mode);
     setIsModeSelectorOpen(false);
+    clearMedia();
+  };
+
+  const clearMedia = () => {
     setStartFrame(null);
     setEndFrame(null);
     setReferenceImages([]);
@@ -427,6 +431,45 @@ const PromptForm: React.FC<PromptFormProps> = ({
     setIsLooping(false);
   };
 
+  // Effects run twice in development; a reference must still only be added once
+  const usedImageRef = useRef<ImageHandoff | null>(null);
+  useEffect(() => {
+    if (!incomingImage || usedImageRef.current === incomingImage) return;
+    usedImageRef.current = incomingImage;
+    const {image, slot} = incomingImage;
+    const mode = slot === ImageSlot.START_FRAME || slot === ImageSlot.END_FRAME
+      ? GenerationMode.FRAMES_TO_VIDEO
+      : GenerationMode.REFERENCES_TO_VIDEO;
+    if (mode !== generationMode) {
+      setGenerationMode(mode);
+      clearMedia();
+    }
+    if (slot === ImageSlot.START_FRAME) {
+      setStartFrame(image);
+    } else if (slot === ImageSlot.END_FRAME) {
+      setEndFrame(image);
+      setIsLooping(false);
+    } else if (slot === ImageSlot.STYLE) {
+      setStyleImage(image);
+      setReferenceImages((imgs) => imgs.slice(0, MAX_REFERENCE_IMAGES - 1));
+    } else {
+      // A full set drops its oldest reference to make room
+      setReferenceImages((imgs) => [...imgs, image].slice(-(MAX_REFERENCE_IMAGES - (styleImage ? 1 : 0))));
+    }
+    onIncomingImageUsed?.();
+  }, [incomingImage]);
+
+  const handleApplyKit = (kit: ConsistencyKit) => {
+    if (generationMode !== GenerationMode.REFERENCES_TO_VIDEO) {
+      setGenerationMode(GenerationMode.REFERENCES_TO_VIDEO);
+      clearMedia();
+    }
+    setReferenceImages(kit.referenceImages);
+    setStyleImage(kit.styleImage);
+    setPrompt((current) => withKitSuffix(current, kit));
+    setIsKitsOpen(false);
+  };
+
   const promptPlaceholder = {
     [GenerationMode.TEXT_TO_VIDEO]: 'Describe the video you want to create...',
     [GenerationMode.FRAMES_TO_VIDEO]:
@@ -492,7 +535,7 @@ const PromptForm: React.FC<PromptFormProps> = ({
         <div className="mb-3 p-4 bg-[#2c2c2e] rounded-xl border border-gray-700 flex flex-col items-center gap-5">
           <div className="w-full">
             <label className="text-xs font-semibold text-gray-400 uppercase tracking-widest block mb-3 text-center">
-              Content References ({referenceImages.length}/3)
+              Content References ({referenceImages.length + (styleImage ? 1 : 0)}/{MAX_REFERENCE_IMAGES})
             </label>
             <div className="flex flex-wrap items-center justify-center gap-3">
               {referenceImages.map((img, index) => (
@@ -506,7 +549,7 @@ const PromptForm: React.FC<PromptFormProps> = ({
                   }
                 />
               ))}
-              {(referenceImages.length + (styleImage ? 1 : 0)) < 3 && (
+              {(referenceImages.length + (styleImage ? 1 : 0)) < MAX_REFERENCE_IMAGES && (
                 <ImageUpload
                   label="Add Asset"
                   onSelect={(img) => setReferenceImages((imgs) => [...imgs, img])}
@@ -514,6 +557,21 @@ const PromptForm: React.FC<PromptFormProps> = ({
               )}
             </div>
           </div>
+          {(styleImage || referenceImages.length < MAX_REFERENCE_IMAGES) && (
+            <div className="w-full">
+              <label className="text-xs font-semibold text-gray-400 uppercase tracking-widest block mb-3 text-center">
+                Style Reference
+              </label>
+              <div className="flex justify-center">
+                <ImageUpload
+                  label="Add Style"
+                  image={styleImage}
+                  onSelect={setStyleImage}
+                  onRemove={() => setStyleImage(null)}
+                />
+              </div>
+            </div>
+          )}
         </div>
       );
     }
@@ -594,6 +652,71 @@ const PromptForm: React.FC<PromptFormProps> = ({
 
   return (
     <div className="relative w-full">
+      {isTemplatesOpen && (
+        <TemplatePicker
+          mode={generationMode}
+          prompt={prompt}
+          onApply={(text) => {
+            setPrompt(text);
+            setIsTemplatesOpen(false);
+          }}
+          onClose={() => setIsTemplatesOpen(false)}
+        />
+      )}
+      {isKitsOpen && (
+        <KitPicker
+          referenceImages={referenceImages}
+          styleImage={styleImage}
+          onApply={handleApplyKit}
+          onClose={() => setIsKitsOpen(false)}
+        />
+      )}
+      {isCompareOpen && (
+        <div className="absolute bottom-full left-0 right-0 mb-3 p-4 bg-[#2c2c2e] rounded-xl border border-gray-700 shadow-2xl z-20 flex flex-col gap-3">
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-sm text-gray-200">A/B Comparison</span>
+            <div className="flex bg-[#1f1f1f] border border-gray-600 rounded-lg p-0.5">
+              {(['models', 'prompts'] as CompareBy[]).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => {
+                    setCompareBy(option);
+                    if (option === 'prompts' && !variantPrompt) setVariantPrompt(prompt);
+                  }}
+                  className={`px-3 py-1 rounded-md text-xs font-medium ${compareBy === option ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}>
+                  {option === 'models' ? 'Fast vs Quality' : 'Prompt Variants'}
+                </button>
+              ))}
+            </div>
+          </div>
+          {compareBy === 'models' ? (
+            <p className="text-xs text-gray-400">
+              Renders the current prompt and settings with both Veo 3.1 Fast and Veo 3.1.
+            </p>
+          ) : (
+            <div>
+              <label className="text-xs block mb-1.5 font-medium text-gray-400">
+                Variant B prompt (A is the prompt below)
+              </label>
+              <textarea
+                value={variantPrompt}
+                onChange={(e) => setVariantPrompt(e.target.value)}
+                rows={3}
+                className="w-full bg-[#1f1f1f] border border-gray-600 rounded-lg px-3 py-2 text-sm resize-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={handleCompare}
+            disabled={isSubmitDisabled || (compareBy === 'prompts' && !variantPrompt.trim())}
+            title={tooltipText || undefined}
+            className="self-end px-4 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg text-sm font-medium">
+            Generate A/B
+          </button>
+        </div>
+      )}
       {isSettingsOpen && (
         <div className="absolute bottom-full left-0 right-0 mb-3 p-4 bg-[#2c2c2e] rounded-xl border border-gray-700 shadow-2xl z-20">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -677,11 +800,68 @@ const PromptForm: React.FC<PromptFormProps> = ({
           />
           <button
             type="button"
-            onClick={() => setIsSettingsOpen((prev) => !prev)}
+            onClick={() => {
+              setIsTemplatesOpen((prev) => !prev);
+              setIsKitsOpen(false);
+              setIsSettingsOpen(false);
+              setIsCompareOpen(false);
+            }}
+            className={`p-2.5 rounded-full hover:bg-gray-700 ${isTemplatesOpen ? 'bg-gray-700 text-white' : 'text-gray-300'}`}
+            aria-label="Prompt templates"
+            title="Prompt templates">
+            <TemplateIcon className="w-5 h-5" />
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setIsKitsOpen((prev) => !prev);
+              setIsTemplatesOpen(false);
+              setIsSettingsOpen(false);
+              setIsCompareOpen(false);
+            }}
+            className={`p-2.5 rounded-full hover:bg-gray-700 ${isKitsOpen ? 'bg-gray-700 text-white' : 'text-gray-300'}`}
+            aria-label="Consistency kits"
+            title="Consistency kits: saved characters and style">
+            <KitIcon className="w-5 h-5" />
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setIsSettingsOpen((prev) => !prev);
+              setIsTemplatesOpen(false);
+              setIsKitsOpen(false);
+              setIsCompareOpen(false);
+            }}
             className={`p-2.5 rounded-full hover:bg-gray-700 ${isSettingsOpen ? 'bg-gray-700 text-white' : 'text-gray-300'}`}
             aria-label="Toggle settings">
             <SlidersHorizontalIcon className="w-5 h-5" />
           </button>
+          {onCompare && (
+            <button
+              type="button"
+              onClick={() => {
+                setIsCompareOpen((prev) => !prev);
+                setIsSettingsOpen(false);
+                setIsTemplatesOpen(false);
+                setIsKitsOpen(false);
+              }}
+              className={`p-2.5 rounded-full hover:bg-gray-700 ${isCompareOpen ? 'bg-gray-700 text-white' : 'text-gray-300'}`}
+              aria-label="Compare variants"
+              title="Compare variants side by side">
+              <CompareIcon className="w-5 h-5" />
+            </button>
+          )}
+          {onQueue && (
+            <button
+              type="button"
+              onClick={() => onQueue(buildParams())}
+              className="p-2.5 rounded-full hover:bg-gray-700 text-gray-300 disabled:text-gray-600 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+              aria-label="Add to render queue"
+              title="Add to render queue"
+              disabled={isSubmitDisabled}>
+              <QueueIcon className="w-5 h-5" />
+            </button>
+          )}
           <div className="relative group">
             <button
               type="submit"
@@ -0,0 +1,335 @@
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ClipboardCheckIcon, PencilIcon, PlayIcon, PlusIcon, TrashIcon, RotateCcwIcon, CheckCircle2Icon, XCircleIcon, Loader2Icon, SparklesIcon } from 'lucide-react';
+import { QuestionType, QuizDifficulty, QuizOption, QuizQuestion } from '../types';
+import ErrorNotice from './ErrorNotice';
+
+interface QuizPanelProps {
+  questions: QuizQuestion[];
+  academicLevel: string;
+  isGenerating: boolean;
+  error: unknown;
+  onGenerate: () => void;
+  onChange: (questions: QuizQuestion[]) => void;
+  onDismissError: () => void;
+}
+
+const difficultyStyles: Record<QuizDifficulty, string> = {
+  [QuizDifficulty.EASY]: 'bg-emerald-600/10 text-emerald-400 border-emerald-600/30',
+  [QuizDifficulty.MEDIUM]: 'bg-amber-600/10 text-amber-400 border-amber-600/30',
+  [QuizDifficulty.HARD]: 'bg-red-600/10 text-red-400 border-red-600/30',
+};
+
+const defaultOptions = (type: QuestionType) => {
+  if (type === QuestionType.TRUE_FALSE) {
+    return [{ text: 'True', explanation: '' }, { text: 'False', explanation: '' }];
+  }
+  if (type === QuestionType.MULTIPLE_CHOICE) {
+    return Array.from({ length: 4 }, () => ({ text: '', explanation: '' }));
+  }
+  return [];
+};
+
+const normalizeAnswer = (value: string) => value.toLowerCase().replace(/[^\w\s]/g, '').replace(/\s+/g, ' ').trim();
+
+/** Short answers are accepted when they contain the key, or the key contains them and they aren't trivially short */
+const isShortAnswerCorrect = (response: string, key: string) => {
+  const given = normalizeAnswer(response);
+  const expected = normalizeAnswer(key);
+  if (!given || !expected) return false;
+  return given.includes(expected) || (given.length >= 3 && expected.includes(given));
+};
+
+const isCorrect = (question: QuizQuestion, response: number | string) =>
+  question.type === QuestionType.SHORT_ANSWER
+    ? isShortAnswerCorrect(String(response), question.answer)
+    : response === question.correctOption;
+
+const QuestionEditor: React.FC<{
+  question: QuizQuestion;
+  index: number;
+  onUpdate: (patch: Partial<QuizQuestion>) => void;
+  onDelete: () => void;
+}> = ({ question, index, onUpdate, onDelete }) => {
+  const updateOption = (optionIndex: number, patch: Partial<QuizOption>) => {
+    const options = question.options.map((option, i) => i === optionIndex ? { ...option, ...patch } : option);
+    // The written-out answer follows the text of the correct option
+    onUpdate(optionIndex === question.correctOption && patch.text !== undefined ? { options, answer: patch.text } : { options });
+  };
+
+  return (
+    <div className="bg-black/20 rounded-2xl border border-gray-800 p-5 flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-black text-gray-600">Q{index + 1}</span>
+        <select
+          value={question.type}
+          onChange={(e) => {
+            const type = e.target.value as QuestionType;
+            const options = defaultOptions(type);
+            onUpdate({ type, options, correctOption: 0, answer: options[0]?.text ?? question.answer });
+          }}
+          className="bg-gray-800 border-gray-700 rounded-lg text-[10px] font-bold px-2 py-1 text-gray-300 outline-none"
+        >
+          {Object.values(QuestionType).map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+        <select
+          value={question.difficulty}
+          onChange={(e) => onUpdate({ difficulty: e.target.value as QuizDifficulty })}
+          className="bg-gray-800 border-gray-700 rounded-lg text-[10px] font-bold px-2 py-1 text-gray-300 outline-none"
+        >
+          {Object.values(QuizDifficulty).map(difficulty => <option key={difficulty} value={difficulty}>{difficulty}</option>)}
+        </select>
+        <button onClick={onDelete} className="ml-auto p-1.5 rounded-lg text-gray-500 hover:bg-red-600/20 hover:text-red-400" aria-label="Delete question">
+          <TrashIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <textarea
+        value={question.prompt}
+        onChange={(e) => onUpdate({ prompt: e.target.value })}
+        placeholder="Question"
+        className="w-full bg-black/40 border border-gray-800 rounded-xl p-3 text-sm resize-none h-16 focus:ring-2 focus:ring-indigo-600"
+      />
+
+      {question.options.map((option, optionIndex) => (
+        <div key={optionIndex} className="flex items-start gap-2">
+          <input
+            type="radio"
+            checked={question.correctOption === optionIndex}
+            onChange={() => onUpdate({ correctOption: optionIndex, answer: option.text })}
+            className="mt-2.5 text-emerald-500 bg-gray-800 border-gray-700 focus:ring-emerald-600"
+            aria-label={`Mark option ${optionIndex + 1} as correct`}
+          />
+          <div className="flex-grow flex flex-col gap-1">
+            <input
+              value={option.text}
+              onChange={(e) => updateOption(optionIndex, { text: e.target.value })}
+              disabled={question.type === QuestionType.TRUE_FALSE}
+              placeholder={`Option ${optionIndex + 1}`}
+              className="w-full bg-black/40 border border-gray-800 rounded-lg px-3 py-1.5 text-sm disabled:text-gray-400"
+            />
+            <input
+              value={option.explanation}
+              onChange={(e) => updateOption(optionIndex, { explanation: e.target.value })}
+              placeholder={question.correctOption === optionIndex ? 'Why this is correct' : 'Why this distractor is wrong'}
+              className="w-full bg-transparent border-none p-0 px-3 text-xs text-gray-500 placeholder:text-gray-700 focus:ring-0"
+            />
+          </div>
+        </div>
+      ))}
+
+      {question.type === QuestionType.SHORT_ANSWER && (
+        <input
+          value={question.answer}
+          onChange={(e) => onUpdate({ answer: e.target.value })}
+          placeholder="Model answer"
+          className="w-full bg-black/40 border border-gray-800 rounded-lg px-3 py-1.5 text-sm"
+        />
+      )}
+
+      <input
+        value={question.explanation}
+        onChange={(e) => onUpdate({ explanation: e.target.value })}
+        placeholder="Explanation shown after answering"
+        className="w-full bg-black/40 border border-gray-800 rounded-lg px-3 py-1.5 text-xs text-gray-400"
+      />
+    </div>
+  );
+};
+
+const QuestionCard: React.FC<{
+  question: QuizQuestion;
+  index: number;
+  response?: number | string;
+  onAnswer: (response: number | string) => void;
+}> = ({ question, index, response, onAnswer }) => {
+  const [draft, setDraft] = useState('');
+  const answered = response !== undefined;
+  const correct = answered && isCorrect(question, response);
+
+  return (
+    <div className="bg-black/20 rounded-2xl border border-gray-800 p-5 flex flex-col gap-3">
+      <div className="flex items-start gap-3">
+        <span className="text-xs font-black text-gray-600 mt-0.5">Q{index + 1}</span>
+        <p className="flex-grow text-sm font-bold leading-relaxed">{question.prompt}</p>
+        <span className={`shrink-0 px-2 py-0.5 rounded border text-[10px] font-black uppercase tracking-widest ${difficultyStyles[question.difficulty]}`}>
+          {question.difficulty}
+        </span>
+      </div>
+
+      {question.type === QuestionType.SHORT_ANSWER ? (
+        <form
+          onSubmit={(e) => { e.preventDefault(); if (draft.trim()) onAnswer(draft); }}
+          className="flex items-center gap-2"
+        >
+          <input
+            value={answered ? String(response) : draft}
+            onChange={(e) => setDraft(e.target.value)}
+            disabled={answered}
+            placeholder="Type your answer..."
+            className="flex-grow bg-black/40 border border-gray-800 rounded-xl px-3 py-2 text-sm disabled:text-gray-400"
+          />
+          {!answered && (
+            <button type="submit" disabled={!draft.trim()} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-800 rounded-xl text-xs font-bold">
+              Check
+            </button>
+          )}
+        </form>
+      ) : (
+        <div className="flex flex-col gap-2">
+          {question.options.map((option, optionIndex) => {
+            const isChosen = response === optionIndex;
+            const isKey = question.correctOption === optionIndex;
+            const style = !answered
+              ? 'bg-gray-800/50 border-gray-700 hover:border-indigo-500 text-gray-300'
+              : isKey
+                ? 'bg-emerald-600/10 border-emerald-600/50 text-emerald-300'
+                : isChosen ? 'bg-red-600/10 border-red-600/50 text-red-300' : 'bg-gray-900/50 border-gray-800 text-gray-500';
+            return (
+              <button
+                key={optionIndex}
+                onClick={() => onAnswer(optionIndex)}
+                disabled={answered}
+                className={`text-left px-4 py-2.5 rounded-xl border text-sm transition-colors ${style}`}
+              >
+                <span>{option.text}</span>
+                {answered && (isChosen || isKey) && option.explanation && (
+                  <span className="block text-xs text-gray-400 mt-1">{option.explanation}</span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {answered && (
+        <div className={`flex items-start gap-2 text-xs ${correct ? 'text-emerald-400' : 'text-red-400'}`}>
+          {correct ? <CheckCircle2Icon className="w-4 h-4 shrink-0" /> : <XCircleIcon className="w-4 h-4 shrink-0" />}
+          <div className="space-y-1">
+            <p className="font-bold">
+              {correct ? 'Correct' : question.type === QuestionType.SHORT_ANSWER ? `Expected: ${question.answer}` : 'Not quite'}
+            </p>
+            {question.explanation && <p className="text-gray-400">{question.explanation}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const QuizPanel: React.FC<QuizPanelProps> = ({ questions, academicLevel, isGenerating, error, onGenerate, onChange, onDismissError }) => {
+  const [mode, setMode] = useState<'quiz' | 'edit'>('quiz');
+  const [responses, setResponses] = useState<Record<string, number | string>>({});
+
+  const answeredCount = questions.filter(q => responses[q.id] !== undefined).length;
+  const score = questions.filter(q => responses[q.id] !== undefined && isCorrect(q, responses[q.id])).length;
+
+  const updateQuestion = (id: string, patch: Partial<QuizQuestion>) => {
+    onChange(questions.map(q => q.id === id ? { ...q, ...patch } : q));
+    // An edited question may have a different key, so any earlier attempt no longer applies
+    setResponses(prev => { const { [id]: _, ...rest } = prev; return rest; });
+  };
+
+  const addQuestion = () => {
+    onChange([...questions, {
+      id: crypto.randomUUID(),
+      type: QuestionType.MULTIPLE_CHOICE,
+      prompt: '',
+      options: defaultOptions(QuestionType.MULTIPLE_CHOICE),
+      correctOption: 0,
+      answer: '',
+      explanation: '',
+      difficulty: QuizDifficulty.MEDIUM,
+      academicLevel,
+    }]);
+  };
+
+  return (
+    <div className="bg-gray-900/50 p-6 rounded-3xl border border-gray-800 flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-amber-600/20 p-2 rounded-xl">
+            <ClipboardCheckIcon className="w-5 h-5 text-amber-400" />
+          </div>
+          <div>
+            <p className="font-bold">Assessment</p>
+            <p className="text-xs text-gray-500">
+              {questions.length > 0
+                ? `${questions.length} questions · ${academicLevel}${mode === 'quiz' && answeredCount > 0 ? ` · Score ${score}/${answeredCount}` : ''}`
+                : `Question bank generated from the script for the ${academicLevel} level.`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {questions.length > 0 && (
+            <>
+              <div className="flex bg-gray-800 p-1 rounded-lg">
+                <button onClick={() => setMode('quiz')} className={`px-3 py-1 rounded-md text-xs font-bold flex items-center gap-1.5 ${mode === 'quiz' ? 'bg-indigo-600 text-white' : 'text-gray-400'}`}>
+                  <PlayIcon className="w-3 h-3" /> Take
+                </button>
+                <button onClick={() => setMode('edit')} className={`px-3 py-1 rounded-md text-xs font-bold flex items-center gap-1.5 ${mode === 'edit' ? 'bg-indigo-600 text-white' : 'text-gray-400'}`}>
+                  <PencilIcon className="w-3 h-3" /> Edit
+                </button>
+              </div>
+              {mode === 'quiz' && answeredCount > 0 && (
+                <button onClick={() => setResponses({})} className="p-2 rounded-lg text-gray-400 hover:bg-gray-800 hover:text-white" aria-label="Restart quiz">
+                  <RotateCcwIcon className="w-4 h-4" />
+                </button>
+              )}
+            </>
+          )}
+          <button
+            onClick={onGenerate}
+            disabled={isGenerating}
+            className="px-4 py-2 bg-amber-600 hover:bg-amber-500 disabled:bg-gray-800 disabled:text-gray-600 rounded-xl text-xs font-bold flex items-center gap-2 transition-all"
+          >
+            {isGenerating ? <Loader2Icon className="w-4 h-4 animate-spin" /> : <SparklesIcon className="w-4 h-4" />}
+            {isGenerating ? 'Writing...' : questions.length > 0 ? 'Regenerate' : 'Generate Quiz'}
+          </button>
+        </div>
+      </div>
+
+      {error && <ErrorNotice error={error} onRetry={onGenerate} onDismiss={onDismissError} compact />}
+
+      {questions.length > 0 && (
+        <div className="flex flex-col gap-3 max-h-[70vh] overflow-y-auto pr-1">
+          {mode === 'quiz'
+            ? questions.map((question, index) => (
+                <QuestionCard
+                  key={question.id}
+                  question={question}
+                  index={index}
+                  response={responses[question.id]}
+                  onAnswer={(response) => setResponses(prev => ({ ...prev, [question.id]: response }))}
+                />
+              ))
+            : (
+              <>
+                {questions.map((question, index) => (
+                  <QuestionEditor
+                    key={question.id}
+                    question={question}
+                    index={index}
+                    onUpdate={(patch) => updateQuestion(question.id, patch)}
+                    onDelete={() => onChange(questions.filter(q => q.id !== question.id))}
+                  />
+                ))}
+                <button
+                  onClick={addQuestion}
+                  className="py-3 border-2 border-dashed border-gray-800 hover:border-indigo-600 rounded-2xl text-xs font-bold text-gray-500 hover:text-indigo-400 flex items-center justify-center gap-2 transition-colors"
+                >
+                  <PlusIcon className="w-4 h-4" /> Add Question
+                </button>
+              </>
+            )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizPanel;
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { AlertTriangleIcon, CheckIcon, ClockIcon, Loader2Icon, RotateCcwIcon } from 'lucide-react';
+import { ChunkStatus, SpeechChunk } from '../services/longSpeech';
+import { classifyError } from '../services/errors';
+
+const statusIcons: Record<ChunkStatus, React.ReactNode> = {
+  [ChunkStatus.PENDING]: <ClockIcon className="w-4 h-4 text-gray-600" />,
+  [ChunkStatus.SYNTHESIZING]: <Loader2Icon className="w-4 h-4 text-purple-400 animate-spin" />,
+  [ChunkStatus.DONE]: <CheckIcon className="w-4 h-4 text-emerald-500" />,
+  [ChunkStatus.FAILED]: <AlertTriangleIcon className="w-4 h-4 text-red-400" />,
+};
+
+interface SpeechChunkListProps {
+  chunks: SpeechChunk[];
+  onRetry: (index: number) => void;
+  disabled?: boolean; // While a pass is running
+}
+
+const SpeechChunkList: React.FC<SpeechChunkListProps> = ({ chunks, onRetry, disabled }) => {
+  const doneCount = chunks.filter(chunk => chunk.status === ChunkStatus.DONE).length;
+
+  return (
+    <div className="bg-black/40 p-4 rounded-xl border border-gray-800 space-y-3">
+      <div className="flex items-center justify-between text-xs font-bold text-gray-500 uppercase">
+        <span>Long-form narration</span>
+        <span>{doneCount}/{chunks.length} chunks</span>
+      </div>
+      <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+        <div className="h-full bg-purple-500 transition-all" style={{ width: `${(doneCount / chunks.length) * 100}%` }} />
+      </div>
+      <ol className="max-h-48 overflow-y-auto space-y-1">
+        {chunks.map((chunk, i) => (
+          <li key={i} className="flex items-start gap-2 text-sm">
+            <span className="mt-0.5 shrink-0">{statusIcons[chunk.status]}</span>
+            <div className="flex-grow min-w-0">
+              <p className="truncate text-gray-300" title={chunk.text}>{i + 1}. {chunk.text}</p>
+              {chunk.status === ChunkStatus.FAILED && (
+                <p className="text-xs text-red-400 truncate">{classifyError(chunk.error).message}</p>
+              )}
+            </div>
+            {chunk.status === ChunkStatus.FAILED && (
+              <button
+                onClick={() => onRetry(i)}
+                disabled={disabled}
+                className="shrink-0 p-1 rounded-md text-gray-400 hover:text-white hover:bg-gray-800 disabled:opacity-50"
+                title="Retry this chunk"
+                aria-label={`Retry chunk ${i + 1}`}
+              >
+                <RotateCcwIcon className="w-4 h-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default SpeechChunkList;
@@ -0,0 +1,203 @@
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowUpIcon, ArrowDownIcon, PencilIcon, CheckIcon, RefreshCcwIcon, Loader2Icon, FilmIcon, ClockIcon, AlertTriangleIcon, Volume2Icon } from 'lucide-react';
+import { ClipFitMode, CourseScene, SceneStatus } from '../types';
+import { pcmToWavUrl } from '../services/audioUtils';
+import ErrorNotice from './ErrorNotice';
+import Markdown from './Markdown';
+
+const statusStyles: Record<SceneStatus, string> = {
+  [SceneStatus.DRAFT]: 'bg-gray-800 text-gray-400 border-gray-700',
+  [SceneStatus.RENDERING]: 'bg-indigo-600/10 text-indigo-400 border-indigo-600/30',
+  [SceneStatus.READY]: 'bg-emerald-600/10 text-emerald-400 border-emerald-600/30',
+  [SceneStatus.FAILED]: 'bg-red-600/10 text-red-400 border-red-600/30',
+};
+
+interface StoryboardProps {
+  scenes: CourseScene[];
+  onMove: (id: string, direction: -1 | 1) => void;
+  onUpdate: (id: string, patch: Partial<CourseScene>) => void;
+  onRender: (id: string) => void;
+  onNarrate: (id: string) => void;
+}
+
+const SceneCard: React.FC<{
+  scene: CourseScene;
+  index: number;
+  isFirst: boolean;
+  isLast: boolean;
+} & Omit<StoryboardProps, 'scenes'>> = ({ scene, index, isFirst, isLast, onMove, onUpdate, onRender, onNarrate }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const isRendering = scene.status === SceneStatus.RENDERING;
+  const isNarrating = scene.narrationStatus === SceneStatus.RENDERING;
+  const narrationAudioUrl = useMemo(() => scene.narrationAudio ? pcmToWavUrl(scene.narrationAudio) : null, [scene.narrationAudio]);
+
+  useEffect(() => () => { if (narrationAudioUrl) URL.revokeObjectURL(narrationAudioUrl); }, [narrationAudioUrl]);
+
+  return (
+    <div className="bg-gray-900/50 rounded-3xl border border-gray-800 overflow-hidden grid grid-cols-1 md:grid-cols-12">
+      <div className="md:col-span-5 bg-black aspect-video md:aspect-auto flex items-center justify-center">
+        {scene.videoUrl ? (
+          <video src={scene.videoUrl} controls loop className="w-full h-full object-contain" />
+        ) : isRendering ? (
+          <Loader2Icon className="w-8 h-8 text-indigo-500 animate-spin" />
+        ) : (
+          <FilmIcon className="w-8 h-8 text-gray-800" />
+        )}
+      </div>
+
+      <div className="md:col-span-7 p-6 flex flex-col gap-4">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-8 h-8 rounded-full bg-gray-800 flex items-center justify-center shrink-0 font-bold text-xs">{index + 1}</div>
+            {isEditing ? (
+              <input
+                value={scene.title}
+                onChange={(e) => onUpdate(scene.id, { title: e.target.value })}
+                className="flex-grow bg-gray-800 border-none rounded-lg text-sm font-bold focus:ring-2 focus:ring-indigo-600"
+              />
+            ) : (
+              <p className="font-bold truncate">{scene.title}</p>
+            )}
+          </div>
+          <span className={`shrink-0 px-2 py-1 rounded border text-[10px] font-black uppercase tracking-widest ${statusStyles[scene.status]}`}>
+            {scene.status}
+          </span>
+        </div>
+
+        {isEditing ? (
+          <>
+            <div className="space-y-2">
+              <label className="block text-xs font-bold text-gray-500 uppercase">Narration</label>
+              <textarea
+                value={scene.narration}
+                onChange={(e) => onUpdate(scene.id, { narration: e.target.value })}
+                className="w-full bg-gray-800 border-none rounded-2xl h-24 text-sm focus:ring-2 focus:ring-indigo-600 resize-none"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="block text-xs font-bold text-gray-500 uppercase">Director Prompt</label>
+              <textarea
+                value={scene.directorPrompt}
+                onChange={(e) => onUpdate(scene.id, { directorPrompt: e.target.value })}
+                className="w-full bg-gray-800 border-none rounded-2xl h-24 text-sm focus:ring-2 focus:ring-indigo-600 resize-none"
+              />
+            </div>
+            <div className="flex items-center gap-3">
+              <label className="text-xs font-bold text-gray-500 uppercase">Target Duration (s)</label>
+              <input
+                type="number"
+                min={1}
+                value={scene.durationSeconds}
+                onChange={(e) => onUpdate(scene.id, { durationSeconds: Math.max(1, Number(e.target.value) || 1) })}
+                className="w-20 bg-gray-800 border-none rounded-lg text-sm focus:ring-2 focus:ring-indigo-600"
+              />
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-300 leading-relaxed line-clamp-3">{scene.narration}</p>
+            <Markdown className="text-xs text-gray-500 italic line-clamp-3">{scene.directorPrompt}</Markdown>
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <ClockIcon className="w-3 h-3" /> {scene.durationSeconds}s target
+              {scene.narrationDuration ? <span>· {scene.narrationDuration.toFixed(1)}s narrated</span> : null}
+            </div>
+          </>
+        )}
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => onNarrate(scene.id)}
+            disabled={isNarrating || !scene.narration.trim()}
+            className="px-3 py-1.5 bg-purple-600/10 border border-purple-600/30 text-purple-300 hover:bg-purple-600/20 disabled:opacity-40 rounded-lg text-xs font-bold flex items-center gap-2 transition-all"
+          >
+            {isNarrating ? <Loader2Icon className="w-3 h-3 animate-spin" /> : <Volume2Icon className="w-3 h-3" />}
+            {scene.narrationAudio ? 'Re-voice' : 'Voice'}
+          </button>
+          {narrationAudioUrl && <audio src={narrationAudioUrl} controls className="h-8 flex-grow min-w-0" />}
+          <select
+            value={scene.fitMode}
+            onChange={(e) => onUpdate(scene.id, { fitMode: e.target.value as ClipFitMode })}
+            className="ml-auto bg-gray-800 border-gray-700 rounded-lg text-xs font-bold px-2 py-1.5 text-gray-300 outline-none focus:ring-2 focus:ring-indigo-600"
+            title="How the clip is fitted to the narration"
+          >
+            {Object.values(ClipFitMode).map(mode => <option key={mode} value={mode}>{mode}</option>)}
+          </select>
+        </div>
+
+        {scene.narrationStatus === SceneStatus.FAILED && (
+          <div className="flex items-start gap-2 text-xs text-red-400">
+            <AlertTriangleIcon className="w-4 h-4 shrink-0" />
+            <span>Narration failed. Try voicing the scene again.</span>
+          </div>
+        )}
+
+        {scene.status === SceneStatus.FAILED && scene.error && (
+          <ErrorNotice error={scene.error} onRetry={() => onRender(scene.id)} compact />
+        )}
+
+        <div className="mt-auto pt-4 border-t border-gray-800 flex items-center justify-between">
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => onMove(scene.id, -1)}
+              disabled={isFirst}
+              className="p-2 rounded-lg text-gray-400 hover:bg-gray-800 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+              aria-label="Move scene up"
+            >
+              <ArrowUpIcon className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onMove(scene.id, 1)}
+              disabled={isLast}
+              className="p-2 rounded-lg text-gray-400 hover:bg-gray-800 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+              aria-label="Move scene down"
+            >
+              <ArrowDownIcon className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setIsEditing(!isEditing)}
+              className={`p-2 rounded-lg hover:bg-gray-800 ${isEditing ? 'text-emerald-400' : 'text-gray-400 hover:text-white'}`}
+              aria-label={isEditing ? 'Finish editing' : 'Edit scene'}
+            >
+              {isEditing ? <CheckIcon className="w-4 h-4" /> : <PencilIcon className="w-4 h-4" />}
+            </button>
+          </div>
+          <button
+            onClick={() => onRender(scene.id)}
+            disabled={isRendering}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-800 disabled:text-gray-600 rounded-xl text-xs font-bold flex items-center gap-2 transition-all"
+          >
+            {isRendering ? <Loader2Icon className="w-4 h-4 animate-spin" /> : <RefreshCcwIcon className="w-4 h-4" />}
+            {scene.status === SceneStatus.DRAFT ? 'Render' : 'Regenerate'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const Storyboard: React.FC<StoryboardProps> = ({ scenes, onMove, onUpdate, onRender, onNarrate }) => {
+  return (
+    <div className="flex flex-col gap-6">
+      {scenes.map((scene, index) => (
+        <SceneCard
+          key={scene.id}
+          scene={scene}
+          index={index}
+          isFirst={index === 0}
+          isLast={index === scenes.length - 1}
+          onMove={onMove}
+          onUpdate={onUpdate}
+          onRender={onRender}
+          onNarrate={onNarrate}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default Storyboard;
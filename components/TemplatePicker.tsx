@@ -0,0 +1,266 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useMemo, useRef, useState} from 'react';
+import {GenerationMode} from '../types';
+import {
+  PromptTemplate,
+  deleteTemplate,
+  exportTemplatePack,
+  extractVariables,
+  fillTemplate,
+  importTemplatePack,
+  listTemplates,
+  saveTemplate,
+} from '../services/promptTemplates';
+import {
+  ArrowLeftIcon,
+  DownloadIcon,
+  SaveIcon,
+  TemplateIcon,
+  TrashIcon,
+  UploadIcon,
+  XMarkIcon,
+} from './icons';
+
+const labelFor = (name: string) => name.replace(/[_-]+/g, ' ');
+
+interface TemplatePickerProps {
+  mode: GenerationMode;
+  prompt: string;
+  onApply: (prompt: string) => void;
+  onClose: () => void;
+}
+
+const TemplatePicker: React.FC<TemplatePickerProps> = ({
+  mode,
+  prompt,
+  onApply,
+  onClose,
+}) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>(listTemplates);
+  const [showAllModes, setShowAllModes] = useState(false);
+  const [selected, setSelected] = useState<PromptTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [saveName, setSaveName] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const visible = useMemo(
+    () => (showAllModes ? templates : templates.filter((t) => t.mode === mode)),
+    [templates, showAllModes, mode],
+  );
+  const variables = useMemo(
+    () => (selected ? extractVariables(selected.body) : []),
+    [selected],
+  );
+  const preview = selected ? fillTemplate(selected.body, values) : '';
+
+  const handleSelect = (template: PromptTemplate) => {
+    setSelected(template);
+    setValues({});
+    setNotice(null);
+  };
+
+  const handleSave = () => {
+    saveTemplate({name: saveName, mode, body: prompt});
+    setTemplates(listTemplates());
+    setSaveName('');
+    setNotice('Saved the current prompt as a template.');
+  };
+
+  const handleDelete = (id: string) => {
+    deleteTemplate(id);
+    setTemplates(listTemplates());
+  };
+
+  const customTemplates = templates.filter((t) => !t.builtIn);
+
+  // Only the user's own templates; starters ship with the app
+  const handleExport = () => {
+    const url = URL.createObjectURL(exportTemplatePack(customTemplates));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'prompt-templates.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await importTemplatePack(file);
+      setTemplates(listTemplates());
+      setNotice(`Imported ${imported.length} template${imported.length === 1 ? '' : 's'}.`);
+    } catch (error) {
+      setNotice(error instanceof Error ? error.message : 'Failed to import templates.');
+    }
+  };
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-3 p-4 bg-[#2c2c2e] rounded-xl border border-gray-700 shadow-2xl z-20 flex flex-col gap-3 max-h-[28rem]">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-gray-200">
+          {selected ? (
+            <button
+              type="button"
+              onClick={() => setSelected(null)}
+              className="p-1 rounded-md hover:bg-gray-700"
+              aria-label="Back to templates">
+              <ArrowLeftIcon className="w-4 h-4" />
+            </button>
+          ) : (
+            <TemplateIcon className="w-5 h-5 text-indigo-400" />
+          )}
+          <span className="font-medium text-sm">
+            {selected ? selected.name : 'Prompt Templates'}
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          {!selected && (
+            <>
+              <button
+                type="button"
+                onClick={() => setShowAllModes((prev) => !prev)}
+                className="px-2 py-1 rounded-md text-xs text-gray-400 hover:bg-gray-700 hover:text-white">
+                {showAllModes ? 'All modes' : mode}
+              </button>
+              <button
+                type="button"
+                onClick={() => importRef.current?.click()}
+                className="p-1.5 rounded-md text-gray-400 hover:bg-gray-700 hover:text-white"
+                title="Import template pack"
+                aria-label="Import template pack">
+                <UploadIcon className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={handleExport}
+                disabled={customTemplates.length === 0}
+                className="p-1.5 rounded-md text-gray-400 hover:bg-gray-700 hover:text-white disabled:opacity-40 disabled:pointer-events-none"
+                title={customTemplates.length === 0 ? 'Save a template first to export it' : 'Export template pack'}
+                aria-label="Export template pack">
+                <DownloadIcon className="w-4 h-4" />
+              </button>
+              <input
+                type="file"
+                ref={importRef}
+                onChange={handleImport}
+                accept="application/json,.json"
+                className="hidden"
+              />
+            </>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1.5 rounded-md text-gray-400 hover:bg-gray-700 hover:text-white"
+            aria-label="Close templates">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {notice && <p className="text-xs text-gray-400">{notice}</p>}
+
+      {selected ? (
+        <div className="flex flex-col gap-3 overflow-y-auto">
+          {variables.length === 0 && (
+            <p className="text-xs text-gray-500 italic">This template has no variables.</p>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {variables.map((variable) => (
+              <div key={variable.name}>
+                <label className="text-xs block mb-1.5 font-medium text-gray-400 capitalize">
+                  {labelFor(variable.name)}
+                </label>
+                <input
+                  value={values[variable.name] ?? ''}
+                  onChange={(e) =>
+                    setValues((prev) => ({...prev, [variable.name]: e.target.value}))
+                  }
+                  placeholder={variable.defaultValue || 'Required'}
+                  className="w-full bg-[#1f1f1f] border border-gray-600 rounded-lg px-3 py-2 text-sm focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-sm text-gray-300 bg-[#1f1f1f] border border-gray-700 rounded-lg p-3 leading-relaxed">
+            {preview}
+          </p>
+          <button
+            type="button"
+            onClick={() => onApply(preview)}
+            disabled={variables.some((v) => !v.defaultValue && !values[v.name]?.trim())}
+            className="self-end px-4 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg text-sm font-medium">
+            Use Template
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-col gap-1 overflow-y-auto">
+            {visible.length === 0 && (
+              <p className="text-xs text-gray-500 italic py-2">No templates for {mode} yet.</p>
+            )}
+            {visible.map((template) => (
+              <div
+                key={template.id}
+                className="group flex items-start gap-2 rounded-lg hover:bg-gray-700/60">
+                <button
+                  type="button"
+                  onClick={() => handleSelect(template)}
+                  className="flex-grow min-w-0 text-left p-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-gray-200 font-medium truncate">{template.name}</span>
+                    {showAllModes && (
+                      <span className="shrink-0 text-[10px] text-gray-500">{template.mode}</span>
+                    )}
+                    {template.builtIn && (
+                      <span className="shrink-0 px-1.5 py-0.5 bg-indigo-600/20 text-indigo-300 text-[8px] font-black rounded uppercase tracking-tighter">
+                        Starter
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 truncate">{template.body}</p>
+                </button>
+                {!template.builtIn && (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(template.id)}
+                    className="m-2 p-1 rounded-md text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                    aria-label={`Delete ${template.name}`}>
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 pt-3 border-t border-gray-700">
+            <input
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              placeholder="Save current prompt as..."
+              className="flex-grow bg-[#1f1f1f] border border-gray-600 rounded-lg px-3 py-2 text-sm focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={!prompt.trim() || !saveName.trim()}
+              className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:text-gray-500 disabled:cursor-not-allowed"
+              title="Use {{name}} or {{name:default}} in the prompt to add variables"
+              aria-label="Save as template">
+              <SaveIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TemplatePicker;
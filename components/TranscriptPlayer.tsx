@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { DownloadIcon } from 'lucide-react';
+import { TranscriptSegment } from '../types';
+import { LOW_CONFIDENCE, TranscriptFormat, formatClock, transcriptSpeakers, transcriptToBlob } from '../services/transcripts';
+
+const SPEAKER_COLORS = ['text-blue-400', 'text-emerald-400', 'text-amber-400', 'text-pink-400', 'text-cyan-400', 'text-purple-400'];
+
+const exportFormats: { format: TranscriptFormat; label: string }[] = [
+  { format: 'srt', label: 'SRT' },
+  { format: 'vtt', label: 'VTT' },
+  { format: 'txt', label: 'TXT' },
+  { format: 'doc', label: 'Word' },
+];
+
+interface TranscriptPlayerProps {
+  audioUrl: string;
+  segments: TranscriptSegment[];
+  title: string; // Heading of the Word export and base of every file name
+}
+
+const TranscriptPlayer: React.FC<TranscriptPlayerProps> = ({ audioUrl, segments, title }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const activeRef = useRef<HTMLButtonElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const speakers = transcriptSpeakers(segments);
+  const activeId = segments.find(segment => currentTime >= segment.start && currentTime < segment.end)?.id;
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeId]);
+
+  const seek = (time: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = time;
+    setCurrentTime(time);
+    audio.play().catch(() => {});
+  };
+
+  const handleExport = (format: TranscriptFormat) => {
+    const url = URL.createObjectURL(transcriptToBlob(segments, format, title));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${title.replace(/\.[^.]+$/, '').replace(/[^\w-]+/g, '-').slice(0, 40) || 'transcript'}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-black/40 p-4 rounded-xl border border-gray-800 space-y-3">
+      <audio
+        ref={audioRef}
+        src={audioUrl}
+        controls
+        className="w-full h-10"
+        onTimeUpdate={e => setCurrentTime(e.currentTarget.currentTime)}
+        onSeeked={e => setCurrentTime(e.currentTarget.currentTime)}
+      />
+      <div className="max-h-72 overflow-y-auto space-y-1 pr-1">
+        {segments.map(segment => {
+          const isActive = segment.id === activeId;
+          const isUnclear = segment.confidence < LOW_CONFIDENCE;
+          return (
+            <button
+              key={segment.id}
+              ref={isActive ? activeRef : undefined}
+              onClick={() => seek(segment.start)}
+              className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${isActive ? 'bg-blue-600/20' : 'hover:bg-gray-800/60'}`}
+            >
+              <div className="flex items-center gap-2 text-xs mb-0.5">
+                <span className="font-mono text-gray-500">{formatClock(segment.start)}</span>
+                {speakers.length > 1 && (
+                  <span className={`font-bold ${SPEAKER_COLORS[speakers.indexOf(segment.speaker) % SPEAKER_COLORS.length]}`}>{segment.speaker}</span>
+                )}
+              </div>
+              <p
+                className={isUnclear ? 'text-gray-300 underline decoration-dotted decoration-amber-500' : 'text-gray-200'}
+                title={isUnclear ? `Low confidence (${Math.round(segment.confidence * 100)}%) — check against the recording` : undefined}
+              >
+                {segment.text}
+              </p>
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex gap-2">
+        {exportFormats.map(({ format, label }) => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            className="flex-1 flex items-center justify-center gap-1.5 py-2 bg-gray-800 hover:bg-gray-700 rounded-xl text-xs font-bold"
+          >
+            <DownloadIcon className="w-3.5 h-3.5" /> {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptPlayer;
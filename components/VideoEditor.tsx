@@ -0,0 +1,374 @@
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { ScissorsIcon, XIcon, PlusIcon, TrashIcon, ArrowLeftIcon, ArrowRightIcon, DownloadIcon, Loader2Icon, LibraryIcon, GaugeIcon, BlendIcon } from 'lucide-react';
+import { ComposeFormat, EditClip, MAX_CROSSFADE, SPEED_PRESETS, editDuration, loadVideoDuration, renderEdit } from '../services/videoComposer';
+import { archiveAsset, listAssets } from '../services/libraryStore';
+import { AspectRatio, AssetKind, LibraryAsset, NavigationTab } from '../types';
+import { animationSize, aspectRatioValue } from '../services/animationExport';
+import ErrorNotice from './ErrorNotice';
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${m}:${s}`;
+};
+
+interface VideoEditorProps {
+  source: { title: string; src: string };
+  aspectRatio: AspectRatio;
+  onClose: () => void;
+}
+
+const VideoEditor: React.FC<VideoEditorProps> = ({ source, aspectRatio, onClose }) => {
+  const aspect = aspectRatioValue(aspectRatio);
+  // Rendered at the clip's own shape, long edge 1280
+  const outputSize = animationSize(aspect, 1280);
+  const [clips, setClips] = useState<EditClip[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [crossfade, setCrossfade] = useState(0);
+  const [speed, setSpeed] = useState(1);
+  const [format, setFormat] = useState<ComposeFormat>('webm');
+  const [libraryVideos, setLibraryVideos] = useState<LibraryAsset[] | null>(null);
+  const [progress, setProgress] = useState<{ value: number; stage: 'render' | 'encode' } | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const [playhead, setPlayhead] = useState(0);
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Object URLs created for library clips, revoked when the editor closes
+  const ownedUrlsRef = useRef<string[]>([]);
+
+  const selected = clips.find(clip => clip.id === selectedId) ?? null;
+  const totalDuration = editDuration(clips, crossfade, speed);
+
+  const createClip = async (title: string, src: string): Promise<EditClip> => {
+    const duration = await loadVideoDuration(src);
+    return { id: crypto.randomUUID(), title, src, duration, inPoint: 0, outPoint: duration };
+  };
+
+  const addClip = async (title: string, src: string) => {
+    try {
+      const clip = await createClip(title, src);
+      setClips(prev => [...prev, clip]);
+      setSelectedId(clip.id);
+    } catch (e) {
+      setError(e);
+    }
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    createClip(source.title, source.src)
+      .then(clip => {
+        if (cancelled) return;
+        setClips([clip]);
+        setSelectedId(clip.id);
+      })
+      .catch(e => { if (!cancelled) setError(e); });
+    return () => {
+      cancelled = true;
+      abortRef.current?.abort();
+    };
+  }, [source.src]);
+
+  useEffect(() => () => ownedUrlsRef.current.forEach(url => URL.revokeObjectURL(url)), []);
+
+  useEffect(() => {
+    if (previewRef.current) previewRef.current.playbackRate = speed;
+  }, [speed, selectedId]);
+
+  const updateClip = (id: string, patch: Partial<EditClip>) => {
+    setClips(prev => prev.map(clip => clip.id === id ? { ...clip, ...patch } : clip));
+  };
+
+  const moveClip = (index: number, offset: number) => {
+    setClips(prev => {
+      const next = [...prev];
+      const [clip] = next.splice(index, 1);
+      next.splice(index + offset, 0, clip);
+      return next;
+    });
+  };
+
+  const removeClip = (id: string) => {
+    setClips(prev => prev.filter(clip => clip.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const handleOpenLibrary = async () => {
+    if (libraryVideos) {
+      setLibraryVideos(null);
+      return;
+    }
+    try {
+      setLibraryVideos((await listAssets()).filter(asset => asset.kind === AssetKind.VIDEO && asset.blob));
+    } catch (e) {
+      setError(e);
+    }
+  };
+
+  const handleAddFromLibrary = (asset: LibraryAsset) => {
+    const url = URL.createObjectURL(asset.blob!);
+    ownedUrlsRef.current.push(url);
+    setLibraryVideos(null);
+    addClip(asset.title, url);
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress({ value: 0, stage: 'render' });
+    try {
+      const blob = await renderEdit(clips, {
+        crossfade,
+        speed,
+        format,
+        width: outputSize.width,
+        height: outputSize.height,
+        signal: controller.signal,
+        onProgress: (value, stage) => setProgress({ value, stage }),
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `veo-studio-edit.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      archiveAsset({
+        kind: AssetKind.VIDEO,
+        title: clips.length > 1 ? `Edit of ${clips.length} clips` : `${clips[0].title} (edited)`,
+        tags: ['edit'],
+        source: NavigationTab.VIDEO,
+        blob,
+        metadata: { crossfade, speed, clips: clips.map(({ title, inPoint, outPoint }) => ({ title, inPoint, outPoint })) },
+      });
+    } catch (e) {
+      if (!controller.signal.aborted) setError(e);
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+      <div className="w-full max-w-5xl max-h-full overflow-y-auto bg-gray-900 rounded-3xl border border-gray-800 p-6 flex flex-col gap-6 text-left">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <ScissorsIcon className="w-5 h-5 text-indigo-400" />
+            <div>
+              <p className="font-bold">Video Editor</p>
+              <p className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">
+                {clips.length} clip{clips.length === 1 ? '' : 's'} · {formatTime(totalDuration)} output
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-gray-500 hover:bg-gray-800 hover:text-white" aria-label="Close editor">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!!error && <ErrorNotice error={error} onDismiss={() => setError(null)} compact />}
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_18rem] gap-6">
+          <div className="flex flex-col gap-4">
+            <div className={`w-full ${aspect < 1 ? 'max-w-xs mx-auto' : ''} rounded-2xl overflow-hidden bg-black border border-gray-800`} style={{ aspectRatio: aspect }}>
+              {selected && (
+                <video
+                  key={selected.id}
+                  ref={previewRef}
+                  src={selected.src}
+                  controls
+                  className="w-full h-full object-contain"
+                  onLoadedMetadata={(e) => {
+                    e.currentTarget.currentTime = selected.inPoint;
+                    e.currentTarget.playbackRate = speed;
+                  }}
+                  onTimeUpdate={(e) => {
+                    const video = e.currentTarget;
+                    setPlayhead(video.currentTime);
+                    // Preview loops inside the trim range
+                    if (video.currentTime >= selected.outPoint || video.currentTime < selected.inPoint - 0.05) {
+                      video.currentTime = selected.inPoint;
+                    }
+                  }}
+                />
+              )}
+            </div>
+
+            {selected && (
+              <div className="bg-black/20 rounded-2xl border border-gray-800 p-4 flex flex-col gap-3">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="font-bold text-gray-400 truncate">{selected.title}</span>
+                  <span className="font-mono text-gray-500">
+                    {formatTime(selected.inPoint)} – {formatTime(selected.outPoint)} of {formatTime(selected.duration)}
+                  </span>
+                </div>
+                {(['inPoint', 'outPoint'] as const).map(field => (
+                  <div key={field} className="flex items-center gap-3">
+                    <label className="w-10 text-xs font-bold text-gray-500 uppercase">{field === 'inPoint' ? 'In' : 'Out'}</label>
+                    <input
+                      type="range"
+                      min={0}
+                      max={selected.duration}
+                      step={0.05}
+                      value={selected[field]}
+                      onChange={(e) => {
+                        const value = Number(e.target.value);
+                        updateClip(selected.id, field === 'inPoint'
+                          ? { inPoint: Math.min(value, selected.outPoint - 0.1) }
+                          : { outPoint: Math.max(value, selected.inPoint + 0.1) });
+                        if (previewRef.current) previewRef.current.currentTime = value;
+                      }}
+                      className="flex-grow accent-indigo-500"
+                    />
+                    <button
+                      onClick={() => updateClip(selected.id, field === 'inPoint'
+                        ? { inPoint: Math.min(playhead, selected.outPoint - 0.1) }
+                        : { outPoint: Math.max(playhead, selected.inPoint + 0.1) })}
+                      className="px-2 py-1 rounded-lg bg-gray-800 border border-gray-700 text-[10px] font-bold text-gray-400 hover:text-white whitespace-nowrap"
+                    >
+                      Set at {formatTime(playhead)}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-4">
+            <div className="flex flex-col gap-2">
+              <p className="text-xs font-bold text-gray-500 uppercase">Clips</p>
+              {clips.map((clip, index) => (
+                <div
+                  key={clip.id}
+                  className={`flex items-center gap-2 p-2 rounded-xl border cursor-pointer ${clip.id === selectedId ? 'bg-indigo-600/10 border-indigo-600/40' : 'bg-black/20 border-gray-800 hover:border-gray-700'}`}
+                  onClick={() => setSelectedId(clip.id)}
+                >
+                  <span className="w-5 text-center text-[10px] font-black text-gray-500">{index + 1}</span>
+                  <div className="flex-grow min-w-0">
+                    <p className="text-xs font-bold truncate">{clip.title}</p>
+                    <p className="text-[10px] font-mono text-gray-500">{formatTime(clip.outPoint - clip.inPoint)}</p>
+                  </div>
+                  <button onClick={(e) => { e.stopPropagation(); moveClip(index, -1); }} disabled={index === 0} className="p-1 rounded text-gray-500 hover:text-white disabled:opacity-30" aria-label="Move earlier">
+                    <ArrowLeftIcon className="w-3 h-3" />
+                  </button>
+                  <button onClick={(e) => { e.stopPropagation(); moveClip(index, 1); }} disabled={index === clips.length - 1} className="p-1 rounded text-gray-500 hover:text-white disabled:opacity-30" aria-label="Move later">
+                    <ArrowRightIcon className="w-3 h-3" />
+                  </button>
+                  <button onClick={(e) => { e.stopPropagation(); removeClip(clip.id); }} className="p-1 rounded text-gray-500 hover:text-red-400" aria-label="Remove clip">
+                    <TrashIcon className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={handleOpenLibrary}
+                className="py-2 border-2 border-dashed border-gray-800 hover:border-indigo-600 rounded-xl text-xs font-bold text-gray-500 hover:text-indigo-400 flex items-center justify-center gap-2 transition-colors"
+              >
+                <PlusIcon className="w-4 h-4" /> Add from Library
+              </button>
+              {libraryVideos && (
+                <div className="max-h-48 overflow-y-auto flex flex-col gap-1 bg-black/30 rounded-xl border border-gray-800 p-2">
+                  {libraryVideos.length === 0 && <p className="text-xs text-gray-600 italic p-2">No videos in the library yet.</p>}
+                  {libraryVideos.map(asset => (
+                    <button
+                      key={asset.id}
+                      onClick={() => handleAddFromLibrary(asset)}
+                      className="flex items-center gap-2 p-2 rounded-lg text-left text-xs hover:bg-gray-800"
+                    >
+                      <LibraryIcon className="w-3 h-3 text-gray-500 shrink-0" />
+                      <span className="truncate">{asset.title}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <label className="text-xs font-bold text-gray-500 uppercase flex items-center gap-2">
+                <BlendIcon className="w-3 h-3" /> Crossfade · {crossfade.toFixed(1)}s
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={MAX_CROSSFADE}
+                step={0.1}
+                value={crossfade}
+                onChange={(e) => setCrossfade(Number(e.target.value))}
+                disabled={clips.length < 2}
+                className="accent-indigo-500 disabled:opacity-40"
+              />
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <label className="text-xs font-bold text-gray-500 uppercase flex items-center gap-2">
+                <GaugeIcon className="w-3 h-3" /> Speed
+              </label>
+              <div className="flex gap-1">
+                {SPEED_PRESETS.map(preset => (
+                  <button
+                    key={preset}
+                    onClick={() => setSpeed(preset)}
+                    className={`flex-1 py-1.5 rounded-lg border text-xs font-bold ${speed === preset ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'}`}
+                  >
+                    {preset}x
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <label className="text-xs font-bold text-gray-500 uppercase">Format</label>
+              <div className="flex gap-1">
+                {(['webm', 'mp4'] as ComposeFormat[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setFormat(option)}
+                    className={`flex-1 py-1.5 rounded-lg border text-xs font-bold uppercase ${format === option ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'}`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+              {format === 'mp4' && (
+                <p className="text-[10px] text-gray-500">MP4 is encoded in the browser; the encoder downloads on first use.</p>
+              )}
+            </div>
+
+            {progress ? (
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center justify-between text-xs text-gray-400">
+                  <span className="flex items-center gap-2">
+                    <Loader2Icon className="w-3 h-3 animate-spin" />
+                    {progress.stage === 'render' ? 'Rendering' : 'Encoding MP4'} · {Math.round(progress.value * 100)}%
+                  </span>
+                  <button onClick={() => abortRef.current?.abort()} className="font-bold text-red-400 hover:text-red-300">Cancel</button>
+                </div>
+                <div className="h-1.5 rounded-full bg-gray-800 overflow-hidden">
+                  <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress.value * 100}%` }} />
+                </div>
+                <p className="text-[10px] text-gray-600">Rendering runs in real time; keep this tab visible.</p>
+              </div>
+            ) : (
+              <button
+                onClick={handleExport}
+                disabled={clips.length === 0}
+                className="py-3 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-800 disabled:text-gray-600 rounded-xl font-bold text-sm flex items-center justify-center gap-2"
+              >
+                <DownloadIcon className="w-4 h-4" /> Export {format.toUpperCase()}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VideoEditor;
@@ -4,10 +4,17 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, {useState, useRef} from 'react';
-import {AspectRatio} from '../types';
-import {ArrowPathIcon, DownloadIcon, SparklesIcon, FileImageIcon, PlusIcon} from './icons';
-// @ts-ignore
-import gifshot from 'gifshot';
+import {AspectRatio, CaptionCue, ImageFile} from '../types';
+import {ArrowPathIcon, DownloadIcon, SparklesIcon, FileImageIcon, PlusIcon, CaptionsIcon, ScissorsIcon, PosterIcon} from './icons';
+import {transcribeCaptions} from '../services/geminiService';
+import {SegmentMarker} from '../services/extendChain';
+import {SPEED_PRESETS} from '../services/videoComposer';
+import {blobToBase64} from '../services/imageFiles';
+import CaptionEditor, {useCaptionTrackUrl} from './CaptionEditor';
+import VideoEditor from './VideoEditor';
+import AnimationExportDialog from './AnimationExportDialog';
+import PosterFramePicker from './PosterFramePicker';
+import {aspectRatioValue} from '../services/animationExport';
 
 interface VideoResultProps {
   videoUrl: string;
@@ -16,6 +23,10 @@ interface VideoResultProps {
   onExtend: () => void;
   canExtend: boolean;
   aspectRatio: AspectRatio;
+  videoBlob?: Blob | null;
+  markers?: SegmentMarker[]; // Extension boundaries inside the video
+  prompt?: string;
+  onSendToImageLab?: (image: ImageFile) => void;
 }
 
 const VideoResult: React.FC<VideoResultProps> = ({
@@ -25,110 +36,38 @@ const VideoResult: React.FC<VideoResultProps> = ({
   onExtend,
   canExtend,
   aspectRatio,
+  videoBlob,
+  markers,
+  prompt,
+  onSendToImageLab,
 }) => {
   const isPortrait = aspectRatio === AspectRatio.PORTRAIT;
-  const [isConvertingGif, setIsConvertingGif] = useState(false);
   const [videoDuration, setVideoDuration] = useState(0);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const [showCaptions, setShowCaptions] = useState(false);
+  const [cues, setCues] = useState<CaptionCue[]>([]);
+  const [isCaptioning, setIsCaptioning] = useState(false);
+  const [captionError, setCaptionError] = useState<unknown>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isExportingAnimation, setIsExportingAnimation] = useState(false);
+  const [showPoster, setShowPoster] = useState(false);
+  const trackUrl = useCaptionTrackUrl(cues);
 
-  const handleDownloadGif = async (frames: number) => {
-    if (!videoUrl) return;
-    
-    setIsConvertingGif(true);
-    
+  const handleGenerateCaptions = async () => {
+    setCaptionError(null);
+    setIsCaptioning(true);
     try {
-      // Create an off-screen video element to capture frames
-      const video = document.createElement('video');
-      video.src = videoUrl;
-      video.muted = true;
-      video.playsInline = true;
-      video.crossOrigin = "anonymous";
-
-      // Wait for metadata to ensure we have duration
-      await new Promise((resolve) => {
-        if (video.readyState >= 1) {
-          resolve(null);
-        } else {
-          video.onloadedmetadata = () => resolve(null);
-        }
-      });
-
-      const duration = video.duration;
-      const width = isPortrait ? 360 : 640;
-      const height = isPortrait ? 640 : 360;
-      
-      // Calculate time step to cover the full video duration in 'frames' count
-      const step = duration / frames;
-
-      const canvas = document.createElement('canvas');
-      canvas.width = width;
-      canvas.height = height;
-      const ctx = canvas.getContext('2d');
-      const images: string[] = [];
-
-      // Extract frames
-      for (let i = 0; i < frames; i++) {
-        const time = i * step;
-        
-        // Seek only if necessary (skip for first frame if at 0)
-        if (time > 0) {
-          video.currentTime = time;
-          await new Promise((resolve) => {
-             const onSeeked = () => {
-               video.removeEventListener('seeked', onSeeked);
-               resolve(null);
-             };
-             video.addEventListener('seeked', onSeeked);
-          });
-        }
-        
-        if (ctx) {
-          ctx.drawImage(video, 0, 0, width, height);
-          images.push(canvas.toDataURL('image/jpeg', 0.8));
-        }
-      }
-
-      // Generate GIF from extracted images
-      gifshot.createGIF({
-        images: images,
-        interval: 0.1, // 10fps playback
-        gifWidth: width,
-        gifHeight: height,
-        numFrames: frames,
-        sampleInterval: 10,
-      }, (obj: any) => {
-        if (!obj.error) {
-          const link = document.createElement('a');
-          link.href = obj.image;
-          link.download = `veo-studio-creation-${(frames/10).toFixed(1)}s.gif`;
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-        } else {
-          console.error('GIF generation failed:', obj.error);
-          alert('Failed to generate GIF. Try again.');
-        }
-        setIsConvertingGif(false);
-      });
-
+      const blob = videoBlob ?? await (await fetch(videoUrl)).blob();
+      setCues(await transcribeCaptions(await blobToBase64(blob), blob.type || 'video/mp4'));
     } catch (error) {
-      console.error('Error preparing GIF:', error);
-      setIsConvertingGif(false);
-      alert('An error occurred while preparing the GIF.');
+      setCaptionError(error);
+    } finally {
+      setIsCaptioning(false);
     }
   };
 
-  const getDurationLabel = (divisor: number) => {
-    if (!videoDuration) return divisor === 1 ? '8s' : divisor === 2 ? '4s' : '2s';
-    return `${Math.round(videoDuration / divisor)}s`;
-  };
-
-  // Base frames on 10fps
-  const getFrames = (divisor: number) => {
-    const duration = videoDuration || 8; // fallback
-    return Math.floor((duration / divisor) * 10);
-  }
-
   return (
     <div className="w-full relative flex flex-col items-center gap-8 p-12 bg-gray-800/50 rounded-lg border border-gray-700 shadow-2xl overflow-visible">
       {/* New Video Button moved to top-left corner of the card */}
@@ -161,10 +100,52 @@ const VideoResult: React.FC<VideoResultProps> = ({
           autoPlay
           loop
           className="w-full h-full object-contain"
-          onLoadedMetadata={(e) => setVideoDuration(e.currentTarget.duration)}
-        />
+          onLoadedMetadata={(e) => {
+            setVideoDuration(e.currentTarget.duration);
+            e.currentTarget.playbackRate = playbackRate;
+          }}
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        >
+          {trackUrl && <track key={trackUrl} kind="captions" src={trackUrl} srcLang="en" label="English" default />}
+        </video>
+      </div>
+
+      <div className="-mt-4 flex items-center gap-1">
+        {SPEED_PRESETS.map((rate) => (
+          <button
+            key={rate}
+            onClick={() => {
+              setPlaybackRate(rate);
+              if (videoRef.current) videoRef.current.playbackRate = rate;
+            }}
+            className={`px-2.5 py-1 rounded-md text-xs font-semibold transition-colors ${playbackRate === rate ? 'bg-indigo-600 text-white' : 'bg-gray-700/60 text-gray-400 hover:text-white'}`}>
+            {rate}x
+          </button>
+        ))}
       </div>
 
+      {markers && markers.length > 1 && videoDuration > 0 && (
+        <div className={`w-full ${isPortrait ? 'max-w-xs' : 'max-w-2xl'} -mt-4 relative flex h-6 rounded-md overflow-hidden border border-gray-700`}>
+          {markers.map((marker, i) => {
+            const end = markers[i + 1]?.time ?? videoDuration;
+            return (
+              <button
+                key={marker.label}
+                onClick={() => { if (videoRef.current) videoRef.current.currentTime = marker.time; }}
+                style={{width: `${((end - marker.time) / videoDuration) * 100}%`}}
+                className={`h-full text-[10px] font-bold text-gray-300 hover:text-white border-r border-gray-900 last:border-r-0 truncate ${i % 2 ? 'bg-indigo-600/30 hover:bg-indigo-600/50' : 'bg-indigo-900/40 hover:bg-indigo-900/60'}`}
+                title={`${marker.label} · ${marker.time.toFixed(1)}s`}>
+                {marker.label}
+              </button>
+            );
+          })}
+          <div
+            className="absolute top-0 bottom-0 w-0.5 bg-white pointer-events-none"
+            style={{left: `${Math.min(100, (currentTime / videoDuration) * 100)}%`}}
+          />
+        </div>
+      )}
+
       <div className="flex flex-wrap justify-center gap-4">
         <button
           onClick={onRetry}
@@ -182,53 +163,37 @@ const VideoResult: React.FC<VideoResultProps> = ({
           Download MP4
         </a>
 
-        {/* GIF Download Dropdown with hover bridge fix */}
-        <div className="relative group">
-          <button
-            disabled={isConvertingGif}
-            onClick={() => handleDownloadGif(getFrames(1))}
-            className={`flex items-center gap-2 px-6 py-3 bg-amber-600 hover:bg-amber-500 text-white font-semibold rounded-lg transition-all active:scale-95 shadow-lg shadow-amber-900/20 disabled:opacity-50 disabled:cursor-wait`}
-          >
-            {isConvertingGif ? (
-              <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-            ) : (
-              <FileImageIcon className="w-5 h-5" />
-            )}
-            {isConvertingGif ? 'Converting...' : 'Download GIF'}
-          </button>
-          
-          {!isConvertingGif && (
-            <div className="absolute bottom-full left-0 mb-2 w-full bg-gray-800 border border-gray-700 rounded-xl shadow-2xl overflow-visible opacity-0 translate-y-2 pointer-events-none group-hover:opacity-100 group-hover:translate-y-0 group-hover:pointer-events-auto transition-all duration-200 z-30
-            after:content-[''] after:absolute after:top-full after:left-0 after:w-full after:h-4">
-              <div className="overflow-hidden rounded-xl bg-gray-800">
-                <div className="p-3 text-[10px] text-gray-400 uppercase tracking-widest border-b border-gray-700 text-center font-bold">
-                  Select GIF Duration
-                </div>
-                <button 
-                  onClick={(e) => { e.stopPropagation(); handleDownloadGif(getFrames(4)); }}
-                  className="w-full text-left px-4 py-3 text-sm hover:bg-amber-600/50 transition-colors flex justify-between items-center group/item"
-                >
-                  <span>{getDurationLabel(4)}</span>
-                  <span className="text-[10px] text-gray-500 group-hover/item:text-white">4x Speed</span>
-                </button>
-                <button 
-                  onClick={(e) => { e.stopPropagation(); handleDownloadGif(getFrames(2)); }}
-                  className="w-full text-left px-4 py-3 text-sm hover:bg-amber-600/50 transition-colors flex justify-between items-center group/item"
-                >
-                  <span>{getDurationLabel(2)}</span>
-                  <span className="text-[10px] text-gray-500 group-hover/item:text-white">2x Speed</span>
-                </button>
-                <button 
-                  onClick={(e) => { e.stopPropagation(); handleDownloadGif(getFrames(1)); }}
-                  className="w-full text-left px-4 py-3 text-sm hover:bg-amber-600/50 transition-colors flex justify-between items-center group/item"
-                >
-                  <span>{getDurationLabel(1)}</span>
-                  <span className="text-[10px] text-gray-500 group-hover/item:text-white">Normal</span>
-                </button>
-              </div>
-            </div>
-          )}
-        </div>
+        <button
+          onClick={() => setIsExportingAnimation(true)}
+          className="flex items-center gap-2 px-6 py-3 bg-amber-600 hover:bg-amber-500 text-white font-semibold rounded-lg transition-all active:scale-95 shadow-lg shadow-amber-900/20"
+          title="Export as GIF, animated WebP or APNG">
+          <FileImageIcon className="w-5 h-5" />
+          Export Animation
+        </button>
+
+        <button
+          onClick={() => setIsEditing(true)}
+          className="flex items-center gap-2 px-6 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition-all active:scale-95"
+          title="Trim, join clips and export WebM or MP4">
+          <ScissorsIcon className="w-5 h-5" />
+          Edit
+        </button>
+
+        <button
+          onClick={() => setShowPoster(!showPoster)}
+          className={`flex items-center gap-2 px-6 py-3 font-semibold rounded-lg transition-all active:scale-95 ${showPoster ? 'bg-indigo-600/20 text-indigo-300 border border-indigo-600' : 'bg-gray-700 hover:bg-gray-600 text-white'}`}
+          title="Pick a frame and export it as a poster image">
+          <PosterIcon className="w-5 h-5" />
+          Poster
+        </button>
+
+        <button
+          onClick={() => setShowCaptions(!showCaptions)}
+          className={`flex items-center gap-2 px-6 py-3 font-semibold rounded-lg transition-all active:scale-95 ${showCaptions ? 'bg-indigo-600/20 text-indigo-300 border border-indigo-600' : 'bg-gray-700 hover:bg-gray-600 text-white'}`}
+          title="Generate, edit and export captions">
+          <CaptionsIcon className="w-5 h-5" />
+          Captions
+        </button>
 
         {canExtend ? (
           <button
@@ -248,6 +213,48 @@ const VideoResult: React.FC<VideoResultProps> = ({
           </button>
         )}
       </div>
+
+      {isEditing && (
+        <VideoEditor
+          source={{title: 'Veo creation', src: videoUrl}}
+          aspectRatio={aspectRatio}
+          onClose={() => setIsEditing(false)}
+        />
+      )}
+
+      {isExportingAnimation && (
+        <AnimationExportDialog
+          videoUrl={videoUrl}
+          duration={videoDuration || 8}
+          aspect={videoRef.current?.videoWidth
+            ? videoRef.current.videoWidth / videoRef.current.videoHeight
+            : aspectRatioValue(aspectRatio)}
+          onClose={() => setIsExportingAnimation(false)}
+        />
+      )}
+
+      {showPoster && (
+        <div className="w-full max-w-2xl">
+          <PosterFramePicker videoUrl={videoUrl} prompt={prompt} onSendToImageLab={onSendToImageLab} />
+        </div>
+      )}
+
+      {showCaptions && (
+        <div className="w-full max-w-2xl">
+          <CaptionEditor
+            cues={cues}
+            onChange={setCues}
+            onGenerate={handleGenerateCaptions}
+            generateLabel="Transcribe Video"
+            isGenerating={isCaptioning}
+            error={captionError}
+            onDismissError={() => setCaptionError(null)}
+            currentTime={currentTime}
+            onSeek={(time) => { if (videoRef.current) videoRef.current.currentTime = time; }}
+            fileName="veo-studio-creation"
+          />
+        </div>
+      )}
     </div>
   );
 };
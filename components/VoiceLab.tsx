@@ -3,110 +3,107 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { MicIcon, MicOffIcon, MessageSquareTextIcon, SpeakerIcon, PlayIcon, Volume2Icon, Loader2Icon, Trash2Icon, HeadphonesIcon } from 'lucide-react';
-import { GoogleGenAI, Modality } from '@google/genai';
-import { transcribeAudio, generateSpeech } from '../services/geminiService';
+import { transcribeAudio, connectLiveSession, LiveSession, SpeechOptions } from '../services/geminiService';
+import { decodeBase64, encodeBase64, pcmToAudioBuffer, pcmToWav } from '../services/audioUtils';
+import {
+  DEFAULT_LIVE_VOICE,
+  DEFAULT_SECOND_VOICE,
+  DEFAULT_SPEECH_STYLE,
+  DEFAULT_TTS_VOICE,
+  MAX_SPEAKERS,
+  SPEECH_TONES,
+  SpeechPace,
+  SpeechStyle,
+  describeSpeechStyle,
+  parseSpeakerScript,
+} from '../services/voices';
+import { ChunkStatus, SpeechChunk, createSpeechChunks, stitchPcm, synthesizeChunks } from '../services/longSpeech';
+import { archiveAsset } from '../services/libraryStore';
+import { transcriptSpeakers, transcriptToText } from '../services/transcripts';
+import { AssetKind, NavigationTab, TranscriptSegment } from '../types';
+import ErrorNotice from './ErrorNotice';
+import Markdown from './Markdown';
+import SpeechChunkList from './SpeechChunkList';
+import TranscriptPlayer from './TranscriptPlayer';
+import VoicePicker from './VoicePicker';
+import WaveformPlayer from './WaveformPlayer';
+
+const DIALOGUE_PLACEHOLDER = 'Teacher: Today we look at photosynthesis.\nStudent: Is that how plants make food?\nTeacher: Exactly. Let\'s see how.';
 
 const VoiceLab: React.FC = () => {
   const [mode, setMode] = useState<'live' | 'tools'>('live');
   
   // Live API States
   const [isLiveActive, setIsLiveActive] = useState(false);
+  const [liveVoice, setLiveVoice] = useState(DEFAULT_LIVE_VOICE);
   const [liveTranscription, setLiveTranscription] = useState<{role: string, text: string}[]>([]);
-  const liveSessionRef = useRef<any>(null);
+  const liveSessionRef = useRef<LiveSession | null>(null);
   const nextStartTimeRef = useRef(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   const inputAudioCtxRef = useRef<AudioContext | null>(null);
   const outputAudioCtxRef = useRef<AudioContext | null>(null);
 
   // Tools States
-  const [transcriptionResult, setTranscriptionResult] = useState('');
+  const [transcript, setTranscript] = useState<{ title: string; audioUrl: string; segments: TranscriptSegment[] } | null>(null);
   const [isTranscribing, setIsTranscribing] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null); // Only reported for large files
   const [ttsInput, setTtsInput] = useState('');
   const [isGeneratingSpeech, setIsGeneratingSpeech] = useState(false);
-
-  // Audio helper functions
-  const encode = (bytes: Uint8Array) => {
-    let binary = '';
-    for (let i = 0; i < bytes.byteLength; i++) binary += String.fromCharCode(bytes[i]);
-    return btoa(binary);
-  };
-  const decode = (base64: string) => {
-    const binaryString = atob(base64);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
-    return bytes;
-  };
-  const decodeAudioData = async (data: Uint8Array, ctx: AudioContext) => {
-    const dataInt16 = new Int16Array(data.buffer);
-    const buffer = ctx.createBuffer(1, dataInt16.length, 24000);
-    const channelData = buffer.getChannelData(0);
-    for (let i = 0; i < dataInt16.length; i++) channelData[i] = dataInt16[i] / 32768.0;
-    return buffer;
-  };
+  const [ttsMode, setTtsMode] = useState<'single' | 'dialogue'>('single');
+  const [ttsVoice, setTtsVoice] = useState(DEFAULT_TTS_VOICE);
+  const [speakerVoices, setSpeakerVoices] = useState<string[]>([DEFAULT_TTS_VOICE, DEFAULT_SECOND_VOICE]);
+  const [speechStyle, setSpeechStyle] = useState<SpeechStyle>(DEFAULT_SPEECH_STYLE);
+  const [speechAudio, setSpeechAudio] = useState<string | null>(null);
+  const [speechChunks, setSpeechChunks] = useState<SpeechChunk[]>([]);
+  const [liveError, setLiveError] = useState<unknown>(null);
+  const [toolsError, setToolsError] = useState<unknown>(null);
 
   const startLive = async () => {
+    setLiveError(null);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       inputAudioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
       outputAudioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
       
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        callbacks: {
-          onopen: () => {
-            setIsLiveActive(true);
-            const source = inputAudioCtxRef.current!.createMediaStreamSource(stream);
-            const scriptProcessor = inputAudioCtxRef.current!.createScriptProcessor(4096, 1, 1);
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const int16 = new Int16Array(inputData.length);
-              for (let i = 0; i < inputData.length; i++) int16[i] = inputData[i] * 32768;
-              const pcmBlob = { data: encode(new Uint8Array(int16.buffer)), mimeType: 'audio/pcm;rate=16000' };
-              sessionPromise.then(s => s.sendRealtimeInput({ media: pcmBlob }));
-            };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputAudioCtxRef.current!.destination);
-            (window as any)._scriptProcessor = scriptProcessor;
-          },
-          onmessage: async (message) => {
-            const audioData = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (audioData && outputAudioCtxRef.current) {
-              const ctx = outputAudioCtxRef.current;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              const buffer = await decodeAudioData(decode(audioData), ctx);
-              const source = ctx.createBufferSource();
-              source.buffer = buffer;
-              source.connect(ctx.destination);
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += buffer.duration;
-              sourcesRef.current.add(source);
-              source.onended = () => sourcesRef.current.delete(source);
-            }
-            if (message.serverContent?.outputTranscription) {
-              setLiveTranscription(prev => [...prev, {role: 'gemini', text: message.serverContent!.outputTranscription!.text}]);
-            }
-            if (message.serverContent?.inputTranscription) {
-              setLiveTranscription(prev => [...prev, {role: 'user', text: message.serverContent!.inputTranscription!.text}]);
-            }
-          },
-          onclose: () => setIsLiveActive(false),
-          onerror: (e) => console.error(e)
+      liveSessionRef.current = await connectLiveSession({
+        voiceName: liveVoice,
+        systemInstruction: 'You are a friendly, helpful conversational AI. Speak naturally and keep responses concise.',
+        onOpen: () => {
+          setIsLiveActive(true);
+          const source = inputAudioCtxRef.current!.createMediaStreamSource(stream);
+          const scriptProcessor = inputAudioCtxRef.current!.createScriptProcessor(4096, 1, 1);
+          scriptProcessor.onaudioprocess = (e) => {
+            const inputData = e.inputBuffer.getChannelData(0);
+            const int16 = new Int16Array(inputData.length);
+            for (let i = 0; i < inputData.length; i++) int16[i] = inputData[i] * 32768;
+            liveSessionRef.current?.sendAudio(encodeBase64(new Uint8Array(int16.buffer)));
+          };
+          source.connect(scriptProcessor);
+          scriptProcessor.connect(inputAudioCtxRef.current!.destination);
+          (window as any)._scriptProcessor = scriptProcessor;
         },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } } },
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-          systemInstruction: 'You are a friendly, helpful conversational AI. Speak naturally and keep responses concise.'
-        }
+        onAudio: (audioData) => {
+          if (!outputAudioCtxRef.current) return;
+          const ctx = outputAudioCtxRef.current;
+          nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
+          const buffer = pcmToAudioBuffer(decodeBase64(audioData));
+          const source = ctx.createBufferSource();
+          source.buffer = buffer;
+          source.connect(ctx.destination);
+          source.start(nextStartTimeRef.current);
+          nextStartTimeRef.current += buffer.duration;
+          sourcesRef.current.add(source);
+          source.onended = () => sourcesRef.current.delete(source);
+        },
+        onTranscription: (role, text) => setLiveTranscription(prev => [...prev, {role, text}]),
+        onClose: () => setIsLiveActive(false),
+        onError: (e) => { console.error(e); setLiveError(e); },
       });
-      liveSessionRef.current = await sessionPromise;
-    } catch (e) {
-      alert("Microphone access required for Live API.");
+    } catch (e: any) {
+      setLiveError(e?.name === 'NotAllowedError' ? new Error('Microphone access required for Live API.') : e);
     }
   };
 
@@ -114,37 +111,98 @@ const VoiceLab: React.FC = () => {
     liveSessionRef.current?.close();
     setIsLiveActive(false);
     if ((window as any)._scriptProcessor) (window as any)._scriptProcessor.disconnect();
+    if (liveTranscription.length > 0) {
+      archiveAsset({
+        kind: AssetKind.TRANSCRIPT,
+        title: `Live conversation ${new Date().toLocaleString()}`,
+        tags: ['live'],
+        source: NavigationTab.VOICE,
+        text: liveTranscription.map(t => `${t.role === 'user' ? 'User' : 'Gemini'}: ${t.text}`).join('\n'),
+      });
+    }
   };
 
+  useEffect(() => () => { if (transcript) URL.revokeObjectURL(transcript.audioUrl); }, [transcript]);
+
   const handleTranscription = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      setIsTranscribing(true);
-      try {
-        const reader = new FileReader();
-        reader.onload = async () => {
-          const base64 = (reader.result as string).split(',')[1];
-          const text = await transcribeAudio(base64, file.type);
-          setTranscriptionResult(text);
-          setIsTranscribing(false);
-        };
-        reader.readAsDataURL(file);
-      } catch (e) { setIsTranscribing(false); }
+    e.target.value = '';
+    if (!file) return;
+    setIsTranscribing(true);
+    setUploadProgress(null);
+    setToolsError(null);
+    try {
+      // The file is passed as is; the provider decides whether it is small enough to inline
+      const segments = await transcribeAudio(file, setUploadProgress);
+      setTranscript({ title: file.name, audioUrl: URL.createObjectURL(file), segments });
+      archiveAsset({
+        kind: AssetKind.TRANSCRIPT,
+        title: file.name,
+        tags: ['transcription'],
+        source: NavigationTab.VOICE,
+        text: transcriptToText(segments),
+        metadata: { fileName: file.name, mimeType: file.type, speakers: transcriptSpeakers(segments), segments },
+      });
+    } catch (e) {
+      setToolsError(e);
+    } finally {
+      setIsTranscribing(false);
+      setUploadProgress(null);
     }
   };
 
-  const handleTTS = async () => {
-    if (!ttsInput.trim()) return;
+  const dialogueSpeakers = useMemo(() => parseSpeakerScript(ttsInput).speakers, [ttsInput]);
+  const isDialogueReady = dialogueSpeakers.length === MAX_SPEAKERS;
+
+  const buildSpeechOptions = (): SpeechOptions => {
+    const style = describeSpeechStyle(speechStyle) || undefined;
+    if (ttsMode === 'dialogue') {
+      return { style, speakers: dialogueSpeakers.map((speaker, i) => ({ speaker, voiceName: speakerVoices[i] })) };
+    }
+    return { style, voiceName: ttsVoice };
+  };
+
+  // Chunks and options of the last script, kept so failed chunks can be retried on their own
+  const speechJobRef = useRef<{ text: string; chunks: SpeechChunk[]; options: SpeechOptions } | null>(null);
+
+  const synthesize = async (indices?: number[]) => {
+    const job = speechJobRef.current;
+    if (!job) return;
     setIsGeneratingSpeech(true);
-    try {
-      const base64 = await generateSpeech(ttsInput);
-      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      const buffer = await decodeAudioData(decode(base64), ctx);
-      const source = ctx.createBufferSource();
-      source.buffer = buffer;
-      source.connect(ctx.destination);
-      source.start();
-    } finally { setIsGeneratingSpeech(false); }
+    setToolsError(null);
+    const chunks = await synthesizeChunks(job.chunks, job.options, (index, chunk) => {
+      setSpeechChunks(prev => prev.map((c, i) => i === index ? chunk : c));
+    }, indices);
+    speechJobRef.current = { ...job, chunks };
+    setIsGeneratingSpeech(false);
+
+    const failed = chunks.find(chunk => chunk.status === ChunkStatus.FAILED);
+    if (failed) {
+      // A single chunk has no list to show its error in
+      if (chunks.length === 1) setToolsError(failed.error);
+      return;
+    }
+    if (chunks.some(chunk => chunk.status !== ChunkStatus.DONE)) return;
+    const base64 = stitchPcm(chunks.map(chunk => chunk.audio!));
+    archiveAsset({
+      kind: AssetKind.AUDIO,
+      title: job.text.slice(0, 60),
+      tags: job.options.speakers ? ['tts', 'dialogue'] : ['tts'],
+      source: NavigationTab.VOICE,
+      blob: pcmToWav(decodeBase64(base64)),
+      prompt: job.text,
+      metadata: { ...job.options, chunks: chunks.length },
+    });
+    setSpeechAudio(base64);
+  };
+
+  const handleTTS = () => {
+    if (!ttsInput.trim()) return;
+    const chunks = createSpeechChunks(ttsInput);
+    speechJobRef.current = { text: ttsInput, chunks, options: buildSpeechOptions() };
+    setSpeechChunks(chunks);
+    setSpeechAudio(null);
+    synthesize();
   };
 
   return (
@@ -158,8 +216,14 @@ const VoiceLab: React.FC = () => {
         </button>
       </div>
 
+      {mode === 'live' && liveError && <ErrorNotice error={liveError} onRetry={startLive} onDismiss={() => setLiveError(null)} />}
+      {mode === 'tools' && toolsError && <ErrorNotice error={toolsError} onDismiss={() => setToolsError(null)} />}
+
       {mode === 'live' ? (
         <div className="flex flex-col items-center gap-10 py-10">
+          <div className="w-64">
+            <VoicePicker label="Gemini's voice" value={liveVoice} onChange={setLiveVoice} disabled={isLiveActive} onError={setLiveError} />
+          </div>
           <div className="relative">
             <div className={`absolute inset-0 bg-indigo-600/20 rounded-full blur-3xl animate-pulse transition-opacity ${isLiveActive ? 'opacity-100' : 'opacity-0'}`} />
             <button 
@@ -186,7 +250,7 @@ const VoiceLab: React.FC = () => {
                  liveTranscription.map((t, idx) => (
                    <div key={idx} className={`flex ${t.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                      <div className={`max-w-[80%] px-4 py-2 rounded-2xl text-sm ${t.role === 'user' ? 'bg-gray-800 text-white' : 'bg-indigo-600/10 border border-indigo-600/20 text-indigo-300'}`}>
-                        {t.text}
+                        {t.role === 'gemini' ? <Markdown>{t.text}</Markdown> : t.text}
                      </div>
                    </div>
                  ))
@@ -202,17 +266,20 @@ const VoiceLab: React.FC = () => {
               <div className="bg-blue-600/20 p-2 rounded-lg"><MessageSquareTextIcon className="w-6 h-6 text-blue-400" /></div>
               <h4 className="text-xl font-bold">Transcription</h4>
             </div>
-            <p className="text-sm text-gray-500">Upload audio files to get lightning-fast accurate transcripts via Gemini 3 Flash.</p>
-            <label className="flex flex-col items-center justify-center h-40 border-2 border-dashed border-gray-800 rounded-2xl hover:border-blue-600 transition-colors cursor-pointer">
+            <p className="text-sm text-gray-500">Upload a recording for a timestamped, speaker-labelled transcript via Gemini 3 Flash. Click any line to jump to it.</p>
+            <label className={`flex flex-col items-center justify-center h-40 border-2 border-dashed border-gray-800 rounded-2xl transition-colors ${isTranscribing ? 'cursor-wait' : 'hover:border-blue-600 cursor-pointer'}`}>
               {isTranscribing ? <Loader2Icon className="w-8 h-8 animate-spin text-blue-500" /> : <MicIcon className="w-8 h-8 text-gray-700 mb-2" />}
-              <span className="text-sm font-bold text-gray-600 uppercase">Upload Audio</span>
-              <input type="file" className="hidden" accept="audio/*" onChange={handleTranscription} />
+              <span className="text-sm font-bold text-gray-600 uppercase">
+                {!isTranscribing ? 'Upload Audio or Video' : uploadProgress !== null && uploadProgress < 1 ? `Uploading ${Math.round(uploadProgress * 100)}%` : 'Transcribing...'}
+              </span>
+              {isTranscribing && uploadProgress !== null && (
+                <div className="w-2/3 h-1.5 mt-3 bg-gray-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-500 transition-all" style={{ width: `${uploadProgress * 100}%` }} />
+                </div>
+              )}
+              <input type="file" className="hidden" accept="audio/*,video/*" onChange={handleTranscription} disabled={isTranscribing} />
             </label>
-            {transcriptionResult && (
-              <div className="bg-black/40 p-4 rounded-xl border border-gray-800 max-h-40 overflow-y-auto whitespace-pre-wrap text-sm leading-relaxed">
-                {transcriptionResult}
-              </div>
-            )}
+            {transcript && <TranscriptPlayer {...transcript} />}
           </div>
 
           {/* TTS */}
@@ -222,20 +289,86 @@ const VoiceLab: React.FC = () => {
               <h4 className="text-xl font-bold">Text to Speech</h4>
             </div>
             <p className="text-sm text-gray-500">Convert text into lifelike human audio using Gemini 2.5 TTS.</p>
+            <div className="flex bg-black/40 p-1 rounded-xl border border-gray-800">
+              {(['single', 'dialogue'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setTtsMode(option)}
+                  className={`flex-1 py-2 rounded-lg text-xs font-bold transition-all ${ttsMode === option ? 'bg-purple-600 text-white' : 'text-gray-500 hover:text-white'}`}
+                >
+                  {option === 'single' ? 'Single Voice' : 'Dialogue'}
+                </button>
+              ))}
+            </div>
             <textarea 
               value={ttsInput}
               onChange={e => setTtsInput(e.target.value)}
-              placeholder="What should I say?"
+              placeholder={ttsMode === 'dialogue' ? DIALOGUE_PLACEHOLDER : 'What should I say?'}
               className="w-full bg-black/40 border border-gray-800 rounded-2xl h-40 p-4 focus:ring-2 focus:ring-purple-600 resize-none"
             />
+            {ttsMode === 'single' ? (
+              <VoicePicker label="Voice" value={ttsVoice} onChange={setTtsVoice} onError={setToolsError} />
+            ) : (
+              <div className="space-y-3">
+                {isDialogueReady ? dialogueSpeakers.map((speaker, i) => (
+                  <VoicePicker
+                    key={speaker}
+                    label={speaker}
+                    value={speakerVoices[i]}
+                    onChange={(voice) => setSpeakerVoices(prev => prev.map((v, j) => j === i ? voice : v))}
+                    onError={setToolsError}
+                  />
+                )) : (
+                  <p className="text-xs text-gray-500">
+                    Start each line with a speaker name and a colon. Exactly {MAX_SPEAKERS} speakers are supported
+                    {dialogueSpeakers.length > 0 && ` (found ${dialogueSpeakers.length}: ${dialogueSpeakers.join(', ')})`}.
+                  </p>
+                )}
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1.5">Pace</label>
+                <select
+                  value={speechStyle.pace}
+                  onChange={e => setSpeechStyle(prev => ({ ...prev, pace: e.target.value as SpeechPace }))}
+                  className="w-full bg-black/40 border border-gray-800 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-purple-600"
+                >
+                  <option value="slow">Slow</option>
+                  <option value="natural">Natural</option>
+                  <option value="fast">Fast</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1.5">Tone</label>
+                <select
+                  value={speechStyle.tone}
+                  onChange={e => setSpeechStyle(prev => ({ ...prev, tone: e.target.value }))}
+                  className="w-full bg-black/40 border border-gray-800 rounded-xl px-3 py-2 text-sm capitalize focus:ring-2 focus:ring-purple-600"
+                >
+                  <option value="">Voice default</option>
+                  {SPEECH_TONES.map(tone => <option key={tone} value={tone}>{tone}</option>)}
+                </select>
+              </div>
+            </div>
+            <input
+              value={speechStyle.emphasis}
+              onChange={e => setSpeechStyle(prev => ({ ...prev, emphasis: e.target.value }))}
+              placeholder="Emphasis, e.g. 'Stress the key terms and pause after questions'"
+              className="w-full bg-black/40 border border-gray-800 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-purple-600"
+            />
             <button 
               onClick={handleTTS}
-              disabled={isGeneratingSpeech || !ttsInput.trim()}
+              disabled={isGeneratingSpeech || !ttsInput.trim() || (ttsMode === 'dialogue' && !isDialogueReady)}
               className="w-full py-4 bg-purple-600 hover:bg-purple-500 disabled:bg-gray-800 rounded-2xl font-bold flex items-center justify-center gap-3 transition-all"
             >
               {isGeneratingSpeech ? <Loader2Icon className="w-5 h-5 animate-spin" /> : <Volume2Icon className="w-5 h-5" />}
-              Generate & Play
+              Generate Speech
             </button>
+            {speechChunks.length > 1 && (
+              <SpeechChunkList chunks={speechChunks} onRetry={index => synthesize([index])} disabled={isGeneratingSpeech} />
+            )}
+            {speechAudio && <WaveformPlayer pcm={speechAudio} />}
           </div>
         </div>
       )}
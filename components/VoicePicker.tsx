@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { PlayIcon, SquareIcon, Loader2Icon } from 'lucide-react';
+import { generateSpeech } from '../services/geminiService';
+import { playPcm } from '../services/audioUtils';
+import { PREBUILT_VOICES } from '../services/voices';
+
+// Samples are the same every time, so each voice is synthesized at most once per session
+const previewCache = new Map<string, string>();
+
+interface VoicePickerProps {
+  value: string;
+  onChange: (voiceName: string) => void;
+  label?: string;
+  disabled?: boolean;
+  onError?: (error: unknown) => void;
+}
+
+const VoicePicker: React.FC<VoicePickerProps> = ({ value, onChange, label, disabled, onError }) => {
+  const [previewState, setPreviewState] = useState<'idle' | 'loading' | 'playing'>('idle');
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Bumped on stop, so a preview that finishes loading afterwards stays silent
+  const requestRef = useRef(0);
+
+  const stopPreview = () => {
+    requestRef.current++;
+    sourceRef.current?.stop();
+    sourceRef.current = null;
+    setPreviewState('idle');
+  };
+
+  useEffect(() => () => {
+    requestRef.current++;
+    sourceRef.current?.stop();
+  }, []);
+
+  const handlePreview = async () => {
+    if (previewState !== 'idle') {
+      stopPreview();
+      return;
+    }
+    const request = ++requestRef.current;
+    setPreviewState('loading');
+    try {
+      let audio = previewCache.get(value);
+      if (!audio) {
+        audio = await generateSpeech(`Hi, I'm ${value}. This is how I sound when I narrate your lesson.`, { voiceName: value });
+        previewCache.set(value, audio);
+      }
+      if (request !== requestRef.current) return;
+      const source = playPcm(audio);
+      source.addEventListener('ended', () => {
+        if (sourceRef.current === source) stopPreview();
+      });
+      sourceRef.current = source;
+      setPreviewState('playing');
+    } catch (error) {
+      if (request !== requestRef.current) return;
+      setPreviewState('idle');
+      onError?.(error);
+    }
+  };
+
+  return (
+    <div>
+      {label && <label className="block text-xs font-bold text-gray-500 uppercase mb-1.5">{label}</label>}
+      <div className="flex items-center gap-2">
+        <select
+          value={value}
+          onChange={(e) => {
+            stopPreview();
+            onChange(e.target.value);
+          }}
+          disabled={disabled}
+          className="flex-grow min-w-0 bg-black/40 border border-gray-800 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-purple-600 disabled:opacity-50"
+        >
+          {PREBUILT_VOICES.map(voice => (
+            <option key={voice.name} value={voice.name}>{voice.name} · {voice.character}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handlePreview}
+          className="p-2 rounded-xl bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white transition-colors"
+          title={previewState === 'idle' ? `Preview ${value}` : 'Stop preview'}
+          aria-label={previewState === 'idle' ? `Preview ${value}` : 'Stop preview'}
+        >
+          {previewState === 'loading' ? <Loader2Icon className="w-4 h-4 animate-spin" />
+            : previewState === 'playing' ? <SquareIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VoicePicker;
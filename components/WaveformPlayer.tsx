@@ -0,0 +1,221 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useMemo, useRef, useState} from 'react';
+import {DownloadIcon, PauseIcon, PlayIcon} from './icons';
+import {PCM_SAMPLE_RATE} from '../services/audioUtils';
+import {
+  AudioExportFormat,
+  SPEECH_LOUDNESS_TARGET,
+  computePeaks,
+  encodeAudio,
+  encodeWav,
+  measureLoudness,
+  normalizeLoudness,
+  pcmToSamples,
+  trimSamples,
+} from '../services/audioMastering';
+import ErrorNotice from './ErrorNotice';
+
+const BAR_COUNT = 160;
+const MIN_CLIP = 0.1; // Seconds kept between the trim handles
+
+interface WaveformPlayerProps {
+  pcm: string; // base64 mono 16-bit PCM
+  fileName?: string; // Without extension
+  sampleRate?: number;
+}
+
+const WaveformPlayer: React.FC<WaveformPlayerProps> = ({pcm, fileName = 'veo-studio-speech', sampleRate = PCM_SAMPLE_RATE}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [normalize, setNormalize] = useState(true);
+  const [trim, setTrim] = useState<[number, number]>([0, 0]);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [exporting, setExporting] = useState<AudioExportFormat | null>(null);
+  const [error, setError] = useState<unknown>(null);
+
+  const source = useMemo(() => pcmToSamples(pcm), [pcm]);
+  const duration = source.length / sampleRate;
+  const loudness = useMemo(() => measureLoudness(source, sampleRate), [source, sampleRate]);
+  const mastered = useMemo(
+    () => (normalize ? normalizeLoudness(source, sampleRate) : {samples: source, gainDb: 0}),
+    [source, sampleRate, normalize],
+  );
+  const peaks = useMemo(() => computePeaks(mastered.samples, BAR_COUNT), [mastered]);
+  const audioUrl = useMemo(() => URL.createObjectURL(encodeWav(mastered.samples, sampleRate)), [mastered, sampleRate]);
+  const [trimStart, trimEnd] = trim;
+
+  useEffect(() => () => URL.revokeObjectURL(audioUrl), [audioUrl]);
+
+  useEffect(() => {
+    setTrim([0, duration]);
+    setPosition(0);
+    setIsPlaying(false);
+  }, [pcm, duration]);
+
+  // Follow playback, stopping at the end handle rather than the end of the clip
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      if (audio.currentTime >= trimEnd) {
+        audio.pause();
+        audio.currentTime = trimStart;
+        setPosition(trimStart);
+        setIsPlaying(false);
+        return;
+      }
+      setPosition(audio.currentTime);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, trimStart, trimEnd]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const {width, height} = canvas;
+    ctx.clearRect(0, 0, width, height);
+    const barWidth = width / BAR_COUNT;
+    peaks.forEach((peak, i) => {
+      const time = ((i + 0.5) / BAR_COUNT) * duration;
+      const barHeight = Math.max(2, peak * height);
+      ctx.fillStyle = time < trimStart || time > trimEnd ? '#374151' : time <= position ? '#c084fc' : '#7c3aed';
+      ctx.fillRect(i * barWidth + 0.5, (height - barHeight) / 2, Math.max(1, barWidth - 1), barHeight);
+    });
+  }, [peaks, duration, trimStart, trimEnd, position]);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (isPlaying) {
+      audio.pause();
+      setIsPlaying(false);
+      return;
+    }
+    if (audio.currentTime < trimStart || audio.currentTime >= trimEnd) audio.currentTime = trimStart;
+    audio.play().then(() => setIsPlaying(true), setError);
+  };
+
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current!.getBoundingClientRect();
+    return Math.min(Math.max(0, (clientX - rect.left) / rect.width), 1) * duration;
+  };
+
+  const seek = (e: React.MouseEvent) => {
+    const time = Math.min(Math.max(timeAt(e.clientX), trimStart), trimEnd);
+    if (audioRef.current) audioRef.current.currentTime = time;
+    setPosition(time);
+  };
+
+  const dragHandle = (edge: 0 | 1) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const move = (event: PointerEvent) => {
+      const time = timeAt(event.clientX);
+      setTrim(([start, end]) => edge === 0
+        ? [Math.min(time, end - MIN_CLIP), end]
+        : [start, Math.max(time, start + MIN_CLIP)]);
+    };
+    const target = e.currentTarget;
+    const release = () => {
+      target.removeEventListener('pointermove', move);
+      target.removeEventListener('pointerup', release);
+    };
+    target.addEventListener('pointermove', move);
+    target.addEventListener('pointerup', release);
+  };
+
+  const handleExport = async (format: AudioExportFormat) => {
+    setExporting(format);
+    setError(null);
+    try {
+      const blob = await encodeAudio(trimSamples(mastered.samples, trimStart, trimEnd, sampleRate), format, sampleRate);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${fileName}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      setError(e);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const percent = (time: number) => `${duration ? (time / duration) * 100 : 0}%`;
+
+  return (
+    <div className="bg-black/40 p-4 rounded-xl border border-gray-800 flex flex-col gap-3">
+      <audio ref={audioRef} src={audioUrl} preload="auto" onPause={() => setIsPlaying(false)} />
+      <div className="flex items-center gap-3">
+        <button
+          onClick={togglePlay}
+          className="p-2.5 rounded-full bg-purple-600 hover:bg-purple-500 text-white shrink-0"
+          aria-label={isPlaying ? 'Pause' : 'Play'}>
+          {isPlaying ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+        </button>
+        <div ref={trackRef} className="relative flex-grow h-16 cursor-pointer select-none" onClick={seek}>
+          <canvas ref={canvasRef} width={640} height={64} className="w-full h-full" />
+          <div className="absolute top-0 bottom-0 w-px bg-white pointer-events-none" style={{left: percent(position)}} />
+          {([0, 1] as const).map(edge => (
+            <div
+              key={edge}
+              onPointerDown={dragHandle(edge)}
+              onClick={e => e.stopPropagation()}
+              className="absolute top-0 bottom-0 w-2 -ml-1 rounded-sm bg-amber-400/80 hover:bg-amber-300 cursor-ew-resize touch-none"
+              style={{left: percent(trim[edge])}}
+              role="slider"
+              aria-label={edge === 0 ? 'Trim start' : 'Trim end'}
+              aria-valuemin={0}
+              aria-valuemax={duration}
+              aria-valuenow={trim[edge]}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-gray-400">
+        <span className="font-mono">
+          {position.toFixed(2)}s · clip {trimStart.toFixed(2)}–{trimEnd.toFixed(2)}s of {duration.toFixed(2)}s
+        </span>
+        <label className="flex items-center gap-2 cursor-pointer" title={`Matches every clip to ${SPEECH_LOUDNESS_TARGET} LUFS`}>
+          <input type="checkbox" checked={normalize} onChange={e => setNormalize(e.target.checked)} className="accent-purple-500" />
+          Normalize loudness
+          <span className="font-mono text-gray-500">
+            {Number.isFinite(loudness) ? `${loudness.toFixed(1)} LUFS` : 'silent'}
+            {normalize && mastered.gainDb !== 0 && ` ${mastered.gainDb > 0 ? '+' : ''}${mastered.gainDb.toFixed(1)} dB`}
+          </span>
+        </label>
+      </div>
+
+      <div className="flex gap-2">
+        {(['wav', 'mp3'] as const).map(format => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            disabled={!!exporting}
+            className="flex-1 flex items-center justify-center gap-2 py-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 rounded-xl text-sm font-bold">
+            <DownloadIcon className="w-4 h-4" />
+            {exporting === format ? 'Encoding...' : format.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
+      {!!error && <ErrorNotice error={error} onDismiss={() => setError(null)} compact />}
+    </div>
+  );
+};
+
+export default WaveformPlayer;
@@ -5,20 +5,43 @@
 import React from 'react';
 import {
   ArrowDown,
+  ArrowLeft,
   ArrowRight,
   Baseline,
+  Captions,
   ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  Columns2,
   Download,
   Film,
   FileImage,
+  GitBranch,
   Image,
+  ImageDown,
+  ImagePlus,
   KeyRound,
   Layers,
+  LayoutTemplate,
+  ListPlus,
+  Pause,
+  Play,
   Plus,
   RefreshCw,
+  Save,
+  Scissors,
   SlidersHorizontal,
   Sparkles,
+  StepBack,
+  StepForward,
+  SwatchBook,
+  Trash2,
+  Trophy,
   Tv,
+  Upload,
+  Volume2,
+  VolumeX,
+  WandSparkles,
   X,
 } from 'lucide-react';
 
@@ -90,7 +113,99 @@ export const FileImageIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) =>
   <FileImage {...defaultProps} {...props} />
 );
 
+export const QueueIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <ListPlus {...defaultProps} {...props} />
+);
+
 // This icon had a different stroke width in the original file, so we preserve it.
 export const CurvedArrowDownIcon: React.FC<React.SVGProps<SVGSVGElement>> = (
   props,
-) => <ArrowDown {...props} strokeWidth={3} />;
\ No newline at end of file
+) => <ArrowDown {...props} strokeWidth={3} />;
+
+export const CaptionsIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Captions {...defaultProps} {...props} />
+);
+
+export const TemplateIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <LayoutTemplate {...defaultProps} {...props} />
+);
+
+export const ArrowLeftIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <ArrowLeft {...defaultProps} {...props} />
+);
+
+export const SaveIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Save {...defaultProps} {...props} />
+);
+
+export const UploadIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Upload {...defaultProps} {...props} />
+);
+
+export const TrashIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Trash2 {...defaultProps} {...props} />
+);
+
+export const CompareIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Columns2 {...defaultProps} {...props} />
+);
+
+export const PlayIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Play {...defaultProps} {...props} />
+);
+
+export const PauseIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Pause {...defaultProps} {...props} />
+);
+
+export const StepBackIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <StepBack {...defaultProps} {...props} />
+);
+
+export const StepForwardIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <StepForward {...defaultProps} {...props} />
+);
+
+export const TrophyIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Trophy {...defaultProps} {...props} />
+);
+
+export const Volume2Icon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Volume2 {...defaultProps} {...props} />
+);
+
+export const VolumeXIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <VolumeX {...defaultProps} {...props} />
+);
+
+export const ChevronLeftIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <ChevronLeft {...defaultProps} {...props} />
+);
+
+export const ChevronRightIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <ChevronRight {...defaultProps} {...props} />
+);
+
+export const BranchIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <GitBranch {...defaultProps} {...props} />
+);
+
+export const ScissorsIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Scissors {...defaultProps} {...props} />
+);
+
+export const PosterIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <ImageDown {...defaultProps} {...props} />
+);
+
+export const ImagePlusIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <ImagePlus {...defaultProps} {...props} />
+);
+
+export const KitIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <SwatchBook {...defaultProps} {...props} />
+);
+
+export const WandIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <WandSparkles {...defaultProps} {...props} />
+);
@@ -0,0 +1,326 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GIFEncoder, quantize, applyPalette } from 'gifenc';
+import type { AnimationOptions, EncoderRequest, EncoderResponse } from './animationExport';
+
+type Palette = number[][];
+
+/** Takes frames as they arrive, so only the encoded output stays in memory */
+interface FrameEncoder {
+  addFrame: (rgba: Uint8ClampedArray, index: number) => void | Promise<void>;
+  finish: () => Blob;
+}
+
+let options: AnimationOptions | null = null;
+let frameCount = 0;
+let samples: Uint8ClampedArray[] = [];
+let encoder: FrameEncoder | null = null;
+let work: Promise<void> = Promise.resolve();
+
+const post = (message: EncoderResponse) => self.postMessage(message);
+
+// ---- GIF ----
+
+const BAYER_4X4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5].map(v => v / 16 - 0.5);
+
+/** Nearest palette entry, cached on 6-bit channels since dithering asks for the same colors constantly */
+const createMatcher = (palette: Palette) => {
+  const cache = new Map<number, number>();
+  return (r: number, g: number, b: number) => {
+    const key = ((r >> 2) << 12) | ((g >> 2) << 6) | (b >> 2);
+    let index = cache.get(key);
+    if (index === undefined) {
+      let best = Infinity;
+      index = 0;
+      for (let i = 0; i < palette.length; i++) {
+        const [pr, pg, pb] = palette[i];
+        const distance = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+        if (distance < best) {
+          best = distance;
+          index = i;
+        }
+      }
+      cache.set(key, index);
+    }
+    return index;
+  };
+};
+
+const ditherFloydSteinberg = (rgba: Uint8ClampedArray, width: number, height: number, palette: Palette) => {
+  const match = createMatcher(palette);
+  const pixels = Float32Array.from(rgba);
+  const indices = new Uint8Array(width * height);
+  const spread = (x: number, y: number, er: number, eg: number, eb: number, weight: number) => {
+    if (x < 0 || x >= width || y >= height) return;
+    const i = (y * width + x) * 4;
+    pixels[i] += er * weight;
+    pixels[i + 1] += eg * weight;
+    pixels[i + 2] += eb * weight;
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const r = Math.min(255, Math.max(0, pixels[i]));
+      const g = Math.min(255, Math.max(0, pixels[i + 1]));
+      const b = Math.min(255, Math.max(0, pixels[i + 2]));
+      const index = match(r, g, b);
+      indices[y * width + x] = index;
+      const [pr, pg, pb] = palette[index];
+      const er = r - pr, eg = g - pg, eb = b - pb;
+      spread(x + 1, y, er, eg, eb, 7 / 16);
+      spread(x - 1, y + 1, er, eg, eb, 3 / 16);
+      spread(x, y + 1, er, eg, eb, 5 / 16);
+      spread(x + 1, y + 1, er, eg, eb, 1 / 16);
+    }
+  }
+  return indices;
+};
+
+const ditherBayer = (rgba: Uint8ClampedArray, width: number, height: number, palette: Palette) => {
+  const match = createMatcher(palette);
+  const strength = 256 / Math.cbrt(palette.length);
+  const indices = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const offset = BAYER_4X4[(y & 3) * 4 + (x & 3)] * strength;
+      const clamp = (v: number) => Math.min(255, Math.max(0, v + offset));
+      indices[y * width + x] = match(clamp(rgba[i]), clamp(rgba[i + 1]), clamp(rgba[i + 2]));
+    }
+  }
+  return indices;
+};
+
+const indexFrame = (rgba: Uint8ClampedArray, palette: Palette, { width, height, dither }: AnimationOptions): Uint8Array => {
+  if (dither === 'floyd-steinberg') return ditherFloydSteinberg(rgba, width, height, palette);
+  if (dither === 'bayer') return ditherBayer(rgba, width, height, palette);
+  return applyPalette(rgba, palette);
+};
+
+/** The sampled frames side by side, so one palette covers the whole clip without quantizing all of it */
+const joinSamples = (picked: Uint8ClampedArray[]) => {
+  const sample = new Uint8ClampedArray(picked.reduce((sum, f) => sum + f.length, 0));
+  picked.reduce((offset, frame) => { sample.set(frame, offset); return offset + frame.length; }, 0);
+  return sample;
+};
+
+const createGifEncoder = (opts: AnimationOptions): FrameEncoder => {
+  const gif = GIFEncoder();
+  const delay = 1000 / opts.fps;
+  // gifenc counts extra iterations: -1 plays once, 0 loops forever
+  const repeat = opts.loop === 0 ? 0 : opts.loop - 1 || -1;
+  const globalPalette: Palette | null =
+    opts.paletteMode === 'global' && samples.length > 0 ? quantize(joinSamples(samples), opts.colors) : null;
+  samples = [];
+  return {
+    addFrame: (rgba, i) => {
+      const palette = globalPalette ?? quantize(rgba, opts.colors);
+      gif.writeFrame(indexFrame(rgba, palette, opts), opts.width, opts.height, {
+        palette: globalPalette && i > 0 ? undefined : palette,
+        delay,
+        repeat,
+      });
+    },
+    finish: () => {
+      gif.finish();
+      return new Blob([gif.bytes()], { type: 'image/gif' });
+    },
+  };
+};
+
+// ---- APNG ----
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const uint32s = (...values: number[]) => {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setUint32(i * 4, value));
+  return bytes;
+};
+
+const deflate = async (data: Uint8Array) =>
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'))).arrayBuffer());
+
+/** Scanlines with the Sub filter, which suits the smooth gradients of video frames */
+const filterScanlines = (rgba: Uint8ClampedArray, width: number, height: number) => {
+  const stride = width * 4;
+  const out = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (stride + 1);
+    out[row] = 1;
+    for (let x = 0; x < stride; x++) {
+      const value = rgba[y * stride + x];
+      out[row + 1 + x] = x < 4 ? value : (value - rgba[y * stride + x - 4]) & 0xff;
+    }
+  }
+  return out;
+};
+
+const createApngEncoder = (opts: AnimationOptions): FrameEncoder => {
+  const { width, height } = opts;
+  const delayMs = Math.round(1000 / opts.fps);
+  const parts: Uint8Array[] = [new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10])];
+  const ihdr = new Uint8Array(13);
+  ihdr.set(uint32s(width, height));
+  ihdr.set([8, 6, 0, 0, 0], 8); // 8-bit RGBA
+  parts.push(pngChunk('IHDR', ihdr));
+  parts.push(pngChunk('acTL', uint32s(frameCount, opts.loop)));
+
+  let sequence = 0;
+  const addFrame = async (rgba: Uint8ClampedArray, i: number) => {
+    const fctl = new Uint8Array(26);
+    const view = new DataView(fctl.buffer);
+    view.setUint32(0, sequence++);
+    view.setUint32(4, width);
+    view.setUint32(8, height);
+    view.setUint16(20, delayMs);
+    view.setUint16(22, 1000);
+    parts.push(pngChunk('fcTL', fctl));
+
+    const compressed = await deflate(filterScanlines(rgba, width, height));
+    if (i === 0) {
+      parts.push(pngChunk('IDAT', compressed));
+    } else {
+      const fdat = new Uint8Array(4 + compressed.length);
+      fdat.set(uint32s(sequence++));
+      fdat.set(compressed, 4);
+      parts.push(pngChunk('fdAT', fdat));
+    }
+  };
+  const finish = () => {
+    parts.push(pngChunk('IEND', new Uint8Array(0)));
+    return new Blob(parts, { type: 'image/apng' });
+  };
+  return { addFrame, finish };
+};
+
+// ---- Animated WebP ----
+
+const riffChunk = (fourcc: string, data: Uint8Array) => {
+  const padded = data.length + (data.length & 1);
+  const chunk = new Uint8Array(8 + padded);
+  for (let i = 0; i < 4; i++) chunk[i] = fourcc.charCodeAt(i);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+const uint24 = (target: Uint8Array, offset: number, value: number) => {
+  target[offset] = value & 0xff;
+  target[offset + 1] = (value >> 8) & 0xff;
+  target[offset + 2] = (value >> 16) & 0xff;
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  parts.reduce((offset, part) => { out.set(part, offset); return offset + part.length; }, 0);
+  return out;
+};
+
+/** The image chunks (ALPH, VP8, VP8L) of a still WebP, i.e. everything after the RIFF header and VP8X */
+const webpImageChunks = (file: Uint8Array) => {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const chunks: Uint8Array[] = [];
+  for (let offset = 12; offset + 8 <= file.length;) {
+    const fourcc = String.fromCharCode(...file.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size & 1);
+    if (fourcc !== 'VP8X') chunks.push(file.subarray(offset, end));
+    offset = end;
+  }
+  return concat(chunks);
+};
+
+const createWebpEncoder = (opts: AnimationOptions): FrameEncoder => {
+  const { width, height } = opts;
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = 0x02; // Animation
+  uint24(vp8x, 4, width - 1);
+  uint24(vp8x, 7, height - 1);
+  const anim = new Uint8Array(6);
+  new DataView(anim.buffer).setUint16(4, opts.loop, true);
+  const chunks = [riffChunk('VP8X', vp8x), riffChunk('ANIM', anim)];
+
+  const duration = Math.round(1000 / opts.fps);
+  const addFrame = async (rgba: Uint8ClampedArray) => {
+    ctx.putImageData(new ImageData(rgba, width, height), 0, 0);
+    const still = await canvas.convertToBlob({ type: 'image/webp', quality: opts.quality });
+    if (still.type !== 'image/webp') throw new Error('This browser cannot encode WebP images. Choose GIF or APNG instead.');
+    const header = new Uint8Array(16);
+    uint24(header, 6, width - 1);
+    uint24(header, 9, height - 1);
+    uint24(header, 12, duration);
+    header[15] = 0x02; // Don't blend with the previous frame
+    chunks.push(riffChunk('ANMF', concat([header, webpImageChunks(new Uint8Array(await still.arrayBuffer()))])));
+  };
+  const finish = () => {
+    const body = concat(chunks);
+    const riff = new Uint8Array(12);
+    riff.set([82, 73, 70, 70]); // RIFF
+    new DataView(riff.buffer).setUint32(4, 4 + body.length, true);
+    riff.set([87, 69, 66, 80], 8); // WEBP
+    return new Blob([riff, body], { type: 'image/webp' });
+  };
+  return { addFrame, finish };
+};
+
+const encoders = { gif: createGifEncoder, apng: createApngEncoder, webp: createWebpEncoder };
+
+// Frames are encoded one after another as they arrive; the first failure skips the rest and surfaces on finish
+self.onmessage = (event: MessageEvent<EncoderRequest>) => {
+  const message = event.data;
+  if (message.type === 'start') {
+    options = message.options;
+    frameCount = message.frameCount;
+    samples = [];
+    encoder = null;
+    work = Promise.resolve();
+  } else if (message.type === 'sample') {
+    samples.push(new Uint8ClampedArray(message.data));
+  } else if (message.type === 'frame' && options) {
+    const opts = options;
+    const rgba = new Uint8ClampedArray(message.data);
+    work = work.then(async () => {
+      encoder ??= encoders[opts.format](opts);
+      await encoder.addFrame(rgba, message.index);
+      post({ type: 'progress', value: (message.index + 1) / frameCount });
+    });
+  } else if (message.type === 'finish') {
+    work
+      .then(() => {
+        if (!encoder) throw new Error('No frames were captured.');
+        post({ type: 'done', blob: encoder.finish() });
+      })
+      .catch(error => post({ type: 'error', message: error instanceof Error ? error.message : 'Encoding failed.' }))
+      .finally(() => {
+        encoder = null;
+      });
+  }
+};
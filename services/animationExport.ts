@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AspectRatio } from '../types';
+import { loadVideo, releaseVideo, seekVideo } from './frameCapture';
+
+export type AnimationFormat = 'gif' | 'webp' | 'apng';
+export type DitherMode = 'none' | 'floyd-steinberg' | 'bayer';
+export type PaletteMode = 'global' | 'local';
+
+export interface AnimationOptions {
+  format: AnimationFormat;
+  width: number;
+  height: number;
+  fps: number;
+  speed: number; // Playback speed; 2 covers twice the footage in the same number of frames
+  start: number; // Seconds into the source video
+  end: number;
+  loop: number; // Number of plays; 0 loops forever
+  colors: number; // GIF palette size
+  paletteMode: PaletteMode; // One palette for the clip, or one per frame
+  dither: DitherMode;
+  quality: number; // WebP quality, 0-1
+}
+
+export type EncoderRequest =
+  | { type: 'start'; options: AnimationOptions; frameCount: number }
+  | { type: 'sample'; data: ArrayBuffer } // GIF shared palette input, sent before the first frame
+  | { type: 'frame'; data: ArrayBuffer; index: number }
+  | { type: 'finish' };
+
+export type EncoderResponse =
+  | { type: 'progress'; value: number }
+  | { type: 'done'; blob: Blob }
+  | { type: 'error'; message: string };
+
+export const animationMimeTypes: Record<AnimationFormat, string> = {
+  gif: 'image/gif',
+  webp: 'image/webp',
+  apng: 'image/apng',
+};
+
+export const animationExtensions: Record<AnimationFormat, string> = {
+  gif: 'gif',
+  webp: 'webp',
+  apng: 'png',
+};
+
+export const aspectRatioValue = (ratio: AspectRatio) => {
+  const [w, h] = ratio.split(':').map(Number);
+  return w / h;
+};
+
+/** Output size for a given long side, kept even because some decoders dislike odd dimensions */
+export const animationSize = (aspect: number, longSide: number) => {
+  const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+  return aspect >= 1
+    ? { width: even(longSide), height: even(longSide / aspect) }
+    : { width: even(longSide * aspect), height: even(longSide) };
+};
+
+export const animationFrameCount = ({ start, end, fps, speed }: Pick<AnimationOptions, 'start' | 'end' | 'fps' | 'speed'>) =>
+  Math.max(1, Math.floor(((end - start) * fps) / speed));
+
+// Measured bytes per pixel per frame on typical Veo footage; only meant as a ballpark
+const BYTES_PER_PIXEL: Record<AnimationFormat, number> = {
+  gif: 0.45,
+  webp: 0.06,
+  apng: 1.6,
+};
+
+export const estimateAnimationBytes = (options: AnimationOptions) => {
+  let perPixel = BYTES_PER_PIXEL[options.format];
+  if (options.format === 'gif') {
+    perPixel *= Math.log2(options.colors) / 8;
+    if (options.dither !== 'none') perPixel *= 1.4;
+    if (options.paletteMode === 'local') perPixel += (options.colors * 3) / (options.width * options.height);
+  } else if (options.format === 'webp') {
+    perPixel *= 0.5 + options.quality * 1.5;
+  }
+  return Math.round(animationFrameCount(options) * options.width * options.height * perPixel);
+};
+
+/** Frames a GIF's shared palette is built from: a handful spread over the clip */
+const paletteSampleIndices = (count: number) => {
+  const step = Math.max(1, Math.floor(count / 8));
+  return Array.from({ length: Math.ceil(count / step) }, (_, i) => i * step);
+};
+
+/**
+ * Captures frames by seeking the video and streams them to a worker, which encodes each one as it arrives
+ * so the page stays responsive and raw frames never pile up in memory.
+ * Progress runs from 0 to 1 through the capture stage, then through whatever encoding is left.
+ */
+export const exportAnimation = async (
+  videoUrl: string,
+  options: AnimationOptions,
+  { onProgress, signal }: { onProgress?: (stage: 'capture' | 'encode', progress: number) => void; signal?: AbortSignal } = {},
+): Promise<Blob> => {
+  const worker = new Worker(new URL('./animationEncoder.worker.ts', import.meta.url), { type: 'module' });
+  const send = (message: EncoderRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+  const aborted = () => new DOMException('Export cancelled.', 'AbortError');
+
+  let capturing = true;
+
+  const result = new Promise<Blob>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<EncoderResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        if (!capturing) onProgress?.('encode', message.value);
+      }
+      else if (message.type === 'done') resolve(message.blob);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = () => reject(new Error('The animation encoder crashed.'));
+    signal?.addEventListener('abort', () => reject(aborted()));
+  });
+  // Rejections are observed once capture hands over; until then they must not surface as unhandled
+  result.catch(() => {});
+
+  let video: HTMLVideoElement | null = null;
+  try {
+    video = await loadVideo(videoUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = options.width;
+    canvas.height = options.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Failed to get canvas context');
+
+    const count = animationFrameCount(options);
+    const end = Math.min(options.end, video.duration);
+    const capture = async (i: number) => {
+      if (signal?.aborted) throw aborted();
+      await seekVideo(video!, Math.min(end - 0.01, options.start + (i * options.speed) / options.fps));
+      ctx.drawImage(video!, 0, 0, options.width, options.height);
+      return ctx.getImageData(0, 0, options.width, options.height).data.buffer;
+    };
+
+    send({ type: 'start', options, frameCount: count });
+    if (options.format === 'gif' && options.paletteMode === 'global') {
+      for (const i of paletteSampleIndices(count)) {
+        const data = await capture(i);
+        send({ type: 'sample', data }, [data]);
+      }
+    }
+    for (let i = 0; i < count; i++) {
+      const data = await capture(i);
+      send({ type: 'frame', data, index: i }, [data]);
+      onProgress?.('capture', (i + 1) / count);
+    }
+    capturing = false;
+    send({ type: 'finish' });
+    return await result;
+  } finally {
+    worker.terminate();
+    if (video) releaseVideo(video);
+  }
+};
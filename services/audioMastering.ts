@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { PCM_SAMPLE_RATE, decodeBase64, encodeBase64, pcmToWav } from './audioUtils';
+
+export type AudioExportFormat = 'wav' | 'mp3';
+
+/** Spoken-word loudness target (integrated LUFS) that every narration clip is matched to */
+export const SPEECH_LOUDNESS_TARGET = -16;
+/** Peak ceiling in dBFS; normalization never boosts a clip past it */
+export const PEAK_CEILING = -1;
+
+// 24 kHz mono is MPEG-2 Layer III, which tops out at 160 kbps; 96 is plenty for speech
+const MP3_BITRATE = 96;
+
+export const pcmToSamples = (base64: string) => {
+  const bytes = decodeBase64(base64);
+  const pcm = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+  const samples = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) samples[i] = pcm[i] / 32768;
+  return samples;
+};
+
+const samplesToPcm = (samples: Float32Array) => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 32768 : s * 32767;
+  }
+  return new Uint8Array(pcm.buffer);
+};
+
+export const samplesToPcmBase64 = (samples: Float32Array) => encodeBase64(samplesToPcm(samples));
+
+type Biquad = [b0: number, b1: number, b2: number, a1: number, a2: number];
+
+// The two ITU-R BS.1770 K-weighting stages, derived for any sample rate rather than the 48 kHz table
+const kWeightingFilters = (sampleRate: number): Biquad[] => {
+  const shelf = (() => {
+    const A = Math.pow(10, 4 / 40);
+    const w0 = (2 * Math.PI * 1681.974450955533) / sampleRate;
+    const alpha = Math.sin(w0) / (2 * Math.SQRT1_2);
+    const cos = Math.cos(w0);
+    const sqrtA = Math.sqrt(A);
+    const a0 = A + 1 - (A - 1) * cos + 2 * sqrtA * alpha;
+    return [
+      (A * (A + 1 + (A - 1) * cos + 2 * sqrtA * alpha)) / a0,
+      (-2 * A * (A - 1 + (A + 1) * cos)) / a0,
+      (A * (A + 1 + (A - 1) * cos - 2 * sqrtA * alpha)) / a0,
+      (2 * (A - 1 - (A + 1) * cos)) / a0,
+      (A + 1 - (A - 1) * cos - 2 * sqrtA * alpha) / a0,
+    ] as Biquad;
+  })();
+  const highPass = (() => {
+    const w0 = (2 * Math.PI * 38.13547087602444) / sampleRate;
+    const alpha = Math.sin(w0) / (2 * 0.5003270373238773);
+    const cos = Math.cos(w0);
+    const a0 = 1 + alpha;
+    return [(1 + cos) / 2 / a0, -(1 + cos) / a0, (1 + cos) / 2 / a0, (-2 * cos) / a0, (1 - alpha) / a0] as Biquad;
+  })();
+  return [shelf, highPass];
+};
+
+const applyBiquad = (input: Float32Array, [b0, b1, b2, a1, a2]: Biquad) => {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    output[i] = y;
+  }
+  return output;
+};
+
+const blockLoudness = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+/** Integrated loudness in LUFS (BS.1770 gated); -Infinity for silence */
+export const measureLoudness = (samples: Float32Array, sampleRate = PCM_SAMPLE_RATE) => {
+  const weighted = kWeightingFilters(sampleRate).reduce(applyBiquad, samples);
+  // 400 ms blocks with 75% overlap; clips shorter than one block are measured whole
+  const blockSize = Math.min(weighted.length, Math.round(sampleRate * 0.4));
+  const step = Math.max(1, Math.round(blockSize / 4));
+  const blocks: number[] = [];
+  for (let start = 0; blockSize > 0 && start + blockSize <= weighted.length; start += step) {
+    let sum = 0;
+    for (let i = start; i < start + blockSize; i++) sum += weighted[i] * weighted[i];
+    blocks.push(sum / blockSize);
+  }
+
+  const gatedMean = (threshold: number) => {
+    const kept = blocks.filter(block => blockLoudness(block) > threshold);
+    return kept.length ? kept.reduce((sum, block) => sum + block, 0) / kept.length : 0;
+  };
+  const absoluteMean = gatedMean(-70);
+  if (!absoluteMean) return -Infinity;
+  const integrated = gatedMean(blockLoudness(absoluteMean) - 10);
+  return integrated ? blockLoudness(integrated) : -Infinity;
+};
+
+export const peakLevel = (samples: Float32Array) => {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  return peak ? 20 * Math.log10(peak) : -Infinity;
+};
+
+/**
+ * Applies one gain so the clip lands on `target` LUFS. The gain is capped at the peak ceiling
+ * instead of limiting, so a very dynamic clip may end up slightly under the target.
+ */
+export const normalizeLoudness = (samples: Float32Array, sampleRate = PCM_SAMPLE_RATE, target = SPEECH_LOUDNESS_TARGET) => {
+  const loudness = measureLoudness(samples, sampleRate);
+  if (!Number.isFinite(loudness)) return { samples, gainDb: 0 };
+  const gainDb = Math.min(target - loudness, PEAK_CEILING - peakLevel(samples));
+  const gain = Math.pow(10, gainDb / 20);
+  const output = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) output[i] = samples[i] * gain;
+  return { samples: output, gainDb };
+};
+
+/** Loudness-matches base64 PCM; the Course Studio uses it so narration clips sit at the same level */
+export const normalizePcm = (base64: string, sampleRate = PCM_SAMPLE_RATE) =>
+  samplesToPcmBase64(normalizeLoudness(pcmToSamples(base64), sampleRate).samples);
+
+export const trimSamples = (samples: Float32Array, start: number, end: number, sampleRate = PCM_SAMPLE_RATE) =>
+  samples.subarray(
+    Math.max(0, Math.floor(start * sampleRate)),
+    Math.min(samples.length, Math.ceil(end * sampleRate)),
+  );
+
+/** Absolute peak of each of `buckets` equal slices, for drawing a waveform */
+export const computePeaks = (samples: Float32Array, buckets: number) => {
+  const peaks = new Float32Array(buckets);
+  const size = samples.length / buckets;
+  for (let b = 0; b < buckets; b++) {
+    let peak = 0;
+    for (let i = Math.floor(b * size); i < Math.floor((b + 1) * size); i++) peak = Math.max(peak, Math.abs(samples[i]));
+    peaks[b] = peak;
+  }
+  return peaks;
+};
+
+export const encodeWav = (samples: Float32Array, sampleRate = PCM_SAMPLE_RATE) => pcmToWav(samplesToPcm(samples), sampleRate);
+
+/** Encodes mono MP3 with LAME compiled to WebAssembly, loaded on first use */
+export const encodeMp3 = async (samples: Float32Array, sampleRate = PCM_SAMPLE_RATE) => {
+  let encoder;
+  try {
+    const { createMp3Encoder } = await import('wasm-media-encoders');
+    encoder = await createMp3Encoder();
+  } catch (error) {
+    throw new Error('Failed to load the MP3 encoder.', { cause: error });
+  }
+  encoder.configure({ channels: 1, sampleRate, bitrate: MP3_BITRATE });
+  // The encoder returns views into its own memory, so each chunk is copied before the next call
+  const chunks: Uint8Array[] = [];
+  const frameSize = sampleRate; // One second at a time keeps the WASM heap small
+  for (let start = 0; start < samples.length; start += frameSize) {
+    chunks.push(encoder.encode([samples.subarray(start, start + frameSize)]).slice());
+  }
+  chunks.push(encoder.finalize().slice());
+  return new Blob(chunks, { type: 'audio/mpeg' });
+};
+
+export const encodeAudio = (samples: Float32Array, format: AudioExportFormat, sampleRate = PCM_SAMPLE_RATE) =>
+  format === 'mp3' ? encodeMp3(samples, sampleRate) : Promise.resolve(encodeWav(samples, sampleRate));
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Sample rate of the raw 16-bit PCM returned by the TTS and Live models */
+export const PCM_SAMPLE_RATE = 24000;
+
+export const encodeBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.byteLength; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+export const decodeBase64 = (base64: string) => {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
+  return bytes;
+};
+
+/** Wraps mono 16-bit PCM in an AudioBuffer. AudioBuffers are not bound to a context, so the result can be played anywhere. */
+export const pcmToAudioBuffer = (data: Uint8Array, sampleRate = PCM_SAMPLE_RATE) => {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2));
+  const buffer = new AudioBuffer({ numberOfChannels: 1, length: Math.max(1, dataInt16.length), sampleRate });
+  const channelData = buffer.getChannelData(0);
+  for (let i = 0; i < dataInt16.length; i++) channelData[i] = dataInt16[i] / 32768.0;
+  return buffer;
+};
+
+/** Duration in seconds of base64-encoded mono 16-bit PCM */
+export const pcmDuration = (base64: string, sampleRate = PCM_SAMPLE_RATE) => {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  const byteLength = (base64.length * 3) / 4 - padding;
+  return byteLength / 2 / sampleRate;
+};
+
+/** Wraps mono 16-bit PCM in a RIFF/WAV container */
+export const pcmToWav = (data: Uint8Array, sampleRate = PCM_SAMPLE_RATE) => {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + data.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // Mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true);
+  header.setUint16(32, 2, true);
+  header.setUint16(34, 16, true);
+  writeString(36, 'data');
+  header.setUint32(40, data.byteLength, true);
+  return new Blob([header.buffer, data], { type: 'audio/wav' });
+};
+
+export const pcmToWavUrl = (base64: string, sampleRate = PCM_SAMPLE_RATE) =>
+  URL.createObjectURL(pcmToWav(decodeBase64(base64), sampleRate));
+
+/** Plays base64 PCM once through a short-lived context; stop the returned source to cut it off */
+export const playPcm = (base64: string, sampleRate = PCM_SAMPLE_RATE) => {
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate });
+  const source = ctx.createBufferSource();
+  source.buffer = pcmToAudioBuffer(decodeBase64(base64), sampleRate);
+  source.connect(ctx.destination);
+  source.onended = () => ctx.close();
+  source.start();
+  return source;
+};
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CaptionCue } from '../types';
+
+export type CaptionFormat = 'vtt' | 'srt';
+
+export interface NarrationSegment {
+  text: string;
+  start: number; // Offset of the segment in the video, in seconds
+  duration: number;
+}
+
+const MAX_CUE_LENGTH = 90;
+
+/** Splits long sentences on commas and conjunctions so a cue fits on two caption lines */
+const splitSentence = (sentence: string): string[] => {
+  if (sentence.length <= MAX_CUE_LENGTH) return [sentence];
+  const words = sentence.split(/\s+/);
+  const parts: string[] = [];
+  let current = '';
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length > MAX_CUE_LENGTH && current) {
+      parts.push(current);
+      current = word;
+    } else {
+      current = candidate;
+      if (/[,;:]$/.test(word) && current.length > MAX_CUE_LENGTH / 2) {
+        parts.push(current);
+        current = '';
+      }
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+};
+
+/**
+ * Times narration text against the video. Each segment's duration is shared between its sentences in
+ * proportion to their length, which is close enough for TTS narration read at an even pace.
+ */
+export const narrationToCues = (segments: NarrationSegment[]): CaptionCue[] => {
+  const cues: CaptionCue[] = [];
+  for (const segment of segments) {
+    const lines = (segment.text.match(/[^.!?\n]+[.!?]*/g) ?? []).map(s => s.trim()).filter(Boolean).flatMap(splitSentence);
+    const totalLength = lines.reduce((sum, line) => sum + line.length, 0);
+    let cursor = segment.start;
+    for (const text of lines) {
+      const duration = segment.duration * (text.length / totalLength);
+      cues.push({id: crypto.randomUUID(), start: cursor, end: cursor + duration, text});
+      cursor += duration;
+    }
+  }
+  return cues;
+};
+
+const formatTimestamp = (seconds: number, decimalSeparator: '.' | ',') => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${decimalSeparator}${pad(ms % 1000, 3)}`;
+};
+
+const sortedCues = (cues: CaptionCue[]) =>
+  [...cues].filter(cue => cue.text.trim() && cue.end > cue.start).sort((a, b) => a.start - b.start);
+
+// A blank line ends a cue in both formats, so one typed inside the text is collapsed
+const cueText = (cue: CaptionCue) => cue.text.trim().replace(/\n\s*\n/g, '\n');
+
+// WebVTT cue text is markup: &, < and > (which could spell out "-->") must be escaped
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const cuesToVtt = (cues: CaptionCue[]) =>
+  `WEBVTT\n\n${sortedCues(cues).map((cue, i) =>
+    `${i + 1}\n${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.speaker ? `<v ${escapeVtt(cue.speaker)}>` : ''}${escapeVtt(cueText(cue))}`
+  ).join('\n\n')}\n`;
+
+export const cuesToSrt = (cues: CaptionCue[]) =>
+  `${sortedCues(cues).map((cue, i) =>
+    `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.speaker ? `${cue.speaker}: ` : ''}${cueText(cue)}`
+  ).join('\n\n')}\n`;
+
+export const captionsToBlob = (cues: CaptionCue[], format: CaptionFormat) =>
+  format === 'vtt'
+    ? new Blob([cuesToVtt(cues)], {type: 'text/vtt'})
+    : new Blob([cuesToSrt(cues)], {type: 'application/x-subrip'});
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ChatMessage, ChatThread } from '../types';
+import { summarizeConversation } from './geminiService';
+
+/** Tokens of verbatim history sent with each turn; older turns are summarized */
+export const CHAT_TOKEN_BUDGET = 32000;
+// The latest exchanges always go verbatim, however large they are
+const MIN_RECENT_MESSAGES = 4;
+// Images are billed per 258-token tile; a typical photo covers about four tiles
+const IMAGE_TOKEN_ESTIMATE = 1032;
+const CHARS_PER_TOKEN = 4;
+
+export const estimateTokens = (message: ChatMessage) => {
+  const sources = message.groundingUrls?.reduce((sum, link) => sum + link.uri.length + (link.title?.length ?? 0), 0) ?? 0;
+  return Math.ceil((message.text.length + sources) / CHARS_PER_TOKEN) + (message.images?.length ?? 0) * IMAGE_TOKEN_ESTIMATE;
+};
+
+export const estimateHistoryTokens = (messages: ChatMessage[]) =>
+  messages.reduce((sum, message) => sum + estimateTokens(message), 0);
+
+/** The messages that still go verbatim to the model */
+export const activeHistory = (thread: ChatThread) => thread.messages.slice(thread.summarizedCount);
+
+/**
+ * Folds the oldest turns of a thread into its summary until the remaining history fits the budget.
+ * The cut always lands on a user turn so the replayed history starts cleanly. If summarization fails
+ * the old turns are simply dropped from the context, which keeps the conversation going.
+ */
+export const compactThread = async (thread: ChatThread, budget = CHAT_TOKEN_BUDGET): Promise<ChatThread> => {
+  const history = activeHistory(thread);
+  let total = estimateHistoryTokens(history);
+  if (total <= budget) return thread;
+
+  let cut = 0;
+  while (cut < history.length - MIN_RECENT_MESSAGES && (total > budget || history[cut].role !== 'user')) {
+    total -= estimateTokens(history[cut]);
+    cut++;
+  }
+  while (cut > 0 && history[cut]?.role !== 'user') cut--;
+  if (cut === 0) return thread;
+
+  const dropped = history.slice(0, cut);
+  let summary = thread.summary ?? null;
+  try {
+    summary = await summarizeConversation(dropped, thread.summary);
+  } catch (error) {
+    console.warn('Failed to summarize chat history; dropping old turns instead', error);
+  }
+  return {...thread, summary, summarizedCount: thread.summarizedCount + cut};
+};
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AssetKind, ChatThread, LibraryAsset, NavigationTab } from '../types';
+import { deleteAsset, getAsset, listAssets, saveAsset, updateAsset } from './libraryStore';
+
+// Threads live in the project library as chat transcripts, so they show up (and can be tagged) in the Library tab too
+
+const isThreadAsset = (asset: LibraryAsset) =>
+  asset.kind === AssetKind.TRANSCRIPT && asset.source === NavigationTab.INTELLIGENCE && !!asset.messages;
+
+const assetToThread = (asset: LibraryAsset): ChatThread => ({
+  id: asset.id,
+  name: asset.title,
+  messages: asset.messages ?? [],
+  summary: (asset.metadata?.summary as string | undefined) ?? null,
+  summarizedCount: (asset.metadata?.summarizedCount as number | undefined) ?? 0,
+  createdAt: asset.createdAt,
+  updatedAt: asset.updatedAt,
+});
+
+export const createThread = (name = 'New chat'): ChatThread => ({
+  id: crypto.randomUUID(),
+  name,
+  messages: [],
+  summary: null,
+  summarizedCount: 0,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+export const listThreads = async (): Promise<ChatThread[]> =>
+  (await listAssets()).filter(isThreadAsset).map(assetToThread).sort((a, b) => b.updatedAt - a.updatedAt);
+
+/** Upserts a thread, keeping any tags added to it in the Library */
+export const saveThread = async (thread: ChatThread): Promise<ChatThread> => {
+  const fields = {
+    title: thread.name,
+    messages: thread.messages,
+    text: thread.messages.map(m => m.text).join('\n\n'),
+    metadata: { summary: thread.summary ?? null, summarizedCount: thread.summarizedCount },
+  };
+  const existing = await getAsset(thread.id);
+  const asset = existing
+    ? await updateAsset(thread.id, fields)
+    : await saveAsset({
+        ...fields,
+        id: thread.id,
+        createdAt: thread.createdAt,
+        kind: AssetKind.TRANSCRIPT,
+        tags: ['chat'],
+        source: NavigationTab.INTELLIGENCE,
+      });
+  return assetToThread(asset);
+};
+
+export const deleteThread = (id: string) => deleteAsset(id);
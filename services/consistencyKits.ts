@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ConsistencyKit, GenerateVideoParams, GenerationMode } from '../types';
+
+/** Veo takes at most three reference images, the style image included */
+export const MAX_REFERENCE_IMAGES = 3;
+
+/** Appends the kit's suffix unless the prompt already ends with it, so applying a kit twice is harmless */
+export const withKitSuffix = (prompt: string, kit: ConsistencyKit) => {
+  const suffix = kit.promptSuffix.trim();
+  const base = prompt.trim();
+  if (!suffix || base.endsWith(suffix)) return base;
+  if (!base) return suffix;
+  return `${base}${/[.!?]$/.test(base) ? '' : '.'} ${suffix}`;
+};
+
+/** Turns any generation into a references-to-video generation with the kit's images and suffix */
+export const applyKit = (params: GenerateVideoParams, kit: ConsistencyKit): GenerateVideoParams => ({
+  ...params,
+  mode: GenerationMode.REFERENCES_TO_VIDEO,
+  prompt: withKitSuffix(params.prompt, kit),
+  referenceImages: kit.referenceImages,
+  styleImage: kit.styleImage,
+  startFrame: null,
+  endFrame: null,
+  isLooping: false,
+});
+
+export const validateKit = (kit: Pick<ConsistencyKit, 'name' | 'referenceImages' | 'styleImage'>) => {
+  if (!kit.name.trim()) return 'Give the kit a name.';
+  if (kit.referenceImages.length === 0) return 'A kit needs at least one reference image.';
+  if (kit.referenceImages.length + (kit.styleImage ? 1 : 0) > MAX_REFERENCE_IMAGES) {
+    return `A kit holds at most ${MAX_REFERENCE_IMAGES} images, style included.`;
+  }
+  return null;
+};
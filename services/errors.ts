@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export enum ServiceErrorKind {
+  QUOTA_EXCEEDED = 'Quota Exceeded',
+  SAFETY_BLOCK = 'Safety Block',
+  INVALID_API_KEY = 'Invalid API Key',
+  BILLING_REQUIRED = 'Billing Required',
+  NETWORK = 'Network Failure',
+  EMPTY_RESPONSE = 'Empty Response',
+  UNKNOWN = 'Unknown',
+}
+
+export class GeminiServiceError extends Error {
+  readonly kind: ServiceErrorKind;
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(kind: ServiceErrorKind, message: string, options: {retryable?: boolean; status?: number; cause?: unknown} = {}) {
+    super(message, {cause: options.cause});
+    this.name = 'GeminiServiceError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+  }
+}
+
+export class QuotaExceededError extends GeminiServiceError {
+  constructor(message = 'Request quota exceeded.', options: {status?: number; cause?: unknown} = {}) {
+    super(ServiceErrorKind.QUOTA_EXCEEDED, message, {...options, retryable: true});
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class SafetyBlockError extends GeminiServiceError {
+  constructor(message = 'The request was blocked by safety filters.', options: {status?: number; cause?: unknown} = {}) {
+    super(ServiceErrorKind.SAFETY_BLOCK, message, options);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class InvalidApiKeyError extends GeminiServiceError {
+  constructor(message = 'The API key is missing or invalid.', options: {status?: number; cause?: unknown} = {}) {
+    super(ServiceErrorKind.INVALID_API_KEY, message, options);
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+export class BillingRequiredError extends GeminiServiceError {
+  constructor(message = 'This model requires a billing-enabled project.', options: {status?: number; cause?: unknown} = {}) {
+    super(ServiceErrorKind.BILLING_REQUIRED, message, options);
+    this.name = 'BillingRequiredError';
+  }
+}
+
+export class NetworkError extends GeminiServiceError {
+  constructor(message = 'Could not reach the Gemini API.', options: {status?: number; cause?: unknown} = {}) {
+    super(ServiceErrorKind.NETWORK, message, {...options, retryable: true});
+    this.name = 'NetworkError';
+  }
+}
+
+export class EmptyResponseError extends GeminiServiceError {
+  constructor(message = 'The model returned no content.', options: {status?: number; cause?: unknown} = {}) {
+    super(ServiceErrorKind.EMPTY_RESPONSE, message, options);
+    this.name = 'EmptyResponseError';
+  }
+}
+
+const errorStatus = (error: any): number | undefined => {
+  const status = error?.status ?? error?.code;
+  if (typeof status === 'number') return status;
+  const match = /\b(?:status|code)["':\s]+(\d{3})\b/i.exec(error?.message ?? '');
+  return match ? Number(match[1]) : undefined;
+};
+
+/** Maps SDK, fetch and operation errors onto the service error taxonomy */
+export const classifyError = (error: unknown): GeminiServiceError => {
+  if (error instanceof GeminiServiceError) return error;
+
+  const err = error as any;
+  const message: string = err?.message || String(error ?? 'An unknown error occurred.');
+  const status = errorStatus(err);
+  const options = {status, cause: error};
+
+  if (/api[ _-]?key|API_KEY_INVALID|UNAUTHENTICATED|Requested entity was not found/i.test(message) || status === 401) {
+    return new InvalidApiKeyError(message, options);
+  }
+  if (/billing|paid|PERMISSION_DENIED|permission/i.test(message) || status === 403) {
+    return new BillingRequiredError(message, options);
+  }
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message) || status === 429) {
+    return new QuotaExceededError(message, options);
+  }
+  if (/safety|blocked|PROHIBITED_CONTENT|responsible ai|SPII|RECITATION/i.test(message)) {
+    return new SafetyBlockError(message, options);
+  }
+  if (
+    err instanceof TypeError ||
+    /failed to fetch|network|UNAVAILABLE|DEADLINE_EXCEEDED|timed? ?out|ECONNRESET|overloaded/i.test(message) ||
+    (status !== undefined && status >= 500)
+  ) {
+    return new NetworkError(message, options);
+  }
+  return new GeminiServiceError(ServiceErrorKind.UNKNOWN, message, options);
+};
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  signal?: AbortSignal;
+  onRetry?: (error: GeminiServiceError, attempt: number, delay: number) => void;
+}
+
+/**
+ * Runs `fn`, retrying transient failures (quota, network) with full-jitter exponential backoff.
+ * Every error that escapes is a classified GeminiServiceError.
+ */
+export const withRetry = async <T>(
+  fn: () => Promise<T>,
+  {retries = 3, baseDelay = 1000, maxDelay = 30000, signal, onRetry}: RetryOptions = {},
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      const classified = classifyError(error);
+      if (!classified.retryable || attempt >= retries || signal?.aborted) throw classified;
+
+      const delay = Math.random() * Math.min(maxDelay, baseDelay * Math.pow(2, attempt));
+      onRetry?.(classified, attempt + 1, delay);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+};
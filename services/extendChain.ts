@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Video } from '@google/genai';
+import { GeneratedVideo } from './geminiService';
+import { GenerateVideoParams } from '../types';
+
+/**
+ * One generation in an extend chain. Veo returns the whole extended clip, so every segment's video
+ * already contains all of its ancestors and the segments form a tree of alternative continuations.
+ */
+export interface ChainSegment {
+  id: string;
+  parentId: string | null;
+  params: GenerateVideoParams;
+  videoUrl: string;
+  blob: Blob | null;
+  video: Video | null; // Needed to extend from this segment
+  duration?: number | null; // Length of the cumulative video, known once its metadata loads
+  createdAt: number;
+}
+
+export interface SegmentMarker {
+  time: number;
+  label: string;
+}
+
+export const createSegment = (params: GenerateVideoParams, result: GeneratedVideo, parentId: string | null): ChainSegment => ({
+  id: crypto.randomUUID(),
+  parentId,
+  params,
+  videoUrl: URL.createObjectURL(result.blob), // Owned by the segment; the job queue revokes its own URL on removal
+  blob: result.blob,
+  video: result.video,
+  createdAt: Date.now(),
+});
+
+const newestChild = (segments: ChainSegment[], id: string) =>
+  segments.filter(s => s.parentId === id).sort((a, b) => b.createdAt - a.createdAt)[0];
+
+/** The root-to-segment ancestry, continued past the segment along the newest extension at each step */
+export const chainPath = (segments: ChainSegment[], id: string | null): ChainSegment[] => {
+  const byId = new Map(segments.map(s => [s.id, s]));
+  const path: ChainSegment[] = [];
+  for (let segment = id ? byId.get(id) : undefined; segment; segment = segment.parentId ? byId.get(segment.parentId) : undefined) {
+    path.unshift(segment);
+  }
+  for (let next = path.length ? newestChild(segments, path[path.length - 1].id) : undefined; next; next = newestChild(segments, next.id)) {
+    path.push(next);
+  }
+  return path;
+};
+
+/** Alternative takes of the same segment, oldest first */
+export const segmentVariants = (segments: ChainSegment[], segment: ChainSegment) =>
+  segments.filter(s => s.parentId === segment.parentId).sort((a, b) => a.createdAt - b.createdAt);
+
+/** Where each segment of the path starts inside the cumulative video of its last entry */
+export const segmentMarkers = (path: ChainSegment[]): SegmentMarker[] =>
+  path.map((segment, i) => ({
+    time: i === 0 ? 0 : path[i - 1].duration ?? NaN,
+    label: `Segment ${i + 1}`,
+  })).filter(marker => Number.isFinite(marker.time));
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+export type FrameFormat = 'image/png' | 'image/jpeg';
+
+export interface SampledFrame {
+  time: number;
+  base64: string; // JPEG
+}
+
+/** Loads a detached video element, so frames can be read without disturbing the visible player */
+export const loadVideo = (src: string) =>
+  new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = 'auto';
+    video.muted = true;
+    video.playsInline = true;
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error('Error loading video for frame extraction'));
+    video.src = src;
+  });
+
+export const releaseVideo = (video: HTMLVideoElement) => {
+  video.removeAttribute('src');
+  video.load();
+};
+
+export const seekVideo = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve, reject) => {
+    const onSeeked = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error('Failed to read a frame from the video.')); };
+    const cleanup = () => {
+      video.removeEventListener('seeked', onSeeked);
+      video.removeEventListener('error', onError);
+    };
+    video.addEventListener('seeked', onSeeked);
+    video.addEventListener('error', onError);
+    video.currentTime = Math.min(Math.max(0, time), video.duration || 0);
+  });
+
+/** Seeks and draws one frame at native resolution, or scaled down so it fits `maxWidth` */
+export const drawFrame = async (video: HTMLVideoElement, time: number, maxWidth = Infinity) => {
+  await seekVideo(video, time);
+  const scale = Math.min(1, maxWidth / video.videoWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: FrameFormat, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode the frame.')), type, quality);
+  });
+
+const canvasToBase64 = (canvas: HTMLCanvasElement, type: FrameFormat, quality?: number) =>
+  canvas.toDataURL(type, quality).split(',')[1];
+
+/** Exports the frame at `time` as a PNG or JPEG at the video's native resolution */
+export const captureFrame = async (src: string, time: number, type: FrameFormat = 'image/png', quality = 0.92) => {
+  const video = await loadVideo(src);
+  try {
+    return await canvasToBlob(await drawFrame(video, time), type, quality);
+  } finally {
+    releaseVideo(video);
+  }
+};
+
+/** The last frame as base64 PNG; extensions continue from it */
+export const extractLastFrameBase64 = async (file: Blob) => {
+  const src = URL.createObjectURL(file);
+  try {
+    const video = await loadVideo(src);
+    try {
+      // Seek to just before the end
+      return canvasToBase64(await drawFrame(video, Math.max(0, video.duration - 0.1)), 'image/png');
+    } finally {
+      releaseVideo(video);
+    }
+  } finally {
+    URL.revokeObjectURL(src);
+  }
+};
+
+/** Evenly spaced, downscaled JPEG frames, skipping the very first and last moments where fades usually sit */
+export const sampleFrames = async (src: string, count: number, maxWidth = 512): Promise<SampledFrame[]> => {
+  const video = await loadVideo(src);
+  try {
+    const frames: SampledFrame[] = [];
+    for (let i = 0; i < count; i++) {
+      const time = ((i + 0.5) / count) * video.duration;
+      frames.push({ time, base64: canvasToBase64(await drawFrame(video, time, maxWidth), 'image/jpeg', 0.8) });
+    }
+    return frames;
+  } finally {
+    releaseVideo(video);
+  }
+};
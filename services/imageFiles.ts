@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ImageFile } from '../types';
+
+// Every lab passes images around as ImageFile, so a result from one can feed another without a download and re-upload.
+
+export const blobToBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const base64 = (reader.result as string).split(',')[1];
+      if (base64) {
+        resolve(base64);
+      } else {
+        reject(new Error('Failed to read file as base64.'));
+      }
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const fileToImageFile = async (file: File): Promise<ImageFile> => ({ file, base64: await blobToBase64(file) });
+
+export const blobToImageFile = (blob: Blob, name: string) =>
+  fileToImageFile(new File([blob], name, { type: blob.type }));
+
+/** Image Lab results are data URLs */
+export const dataUrlToImageFile = async (dataUrl: string, name: string) =>
+  blobToImageFile(await (await fetch(dataUrl)).blob(), name);
+
+export const imageFileToDataUrl = (image: ImageFile) => `data:${image.file.type};base64,${image.base64}`;
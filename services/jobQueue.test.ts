@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AspectRatio, GenerateVideoParams, GenerationMode, Resolution, VeoModel } from '../types';
+import { generateVideo } from './geminiService';
+import { setProvider } from './providers';
+import { mockProvider } from './providers/mock';
+
+const params: GenerateVideoParams = {
+  prompt: 'A cell dividing under a microscope',
+  model: VeoModel.VEO_FAST,
+  aspectRatio: AspectRatio.PORTRAIT,
+  resolution: Resolution.P720,
+  mode: GenerationMode.TEXT_TO_VIDEO,
+};
+
+// Well past the mock's render time plus the first few poll delays
+const RENDER_WINDOW = 60000;
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+};
+
+describe('video generation against the mock provider', () => {
+  beforeEach(() => {
+    setProvider(mockProvider);
+    vi.useFakeTimers();
+    vi.stubGlobal('localStorage', memoryStorage());
+    // The library lives in IndexedDB, which isn't available here; the queue only warns when saving fails
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('polls an operation until it finishes and downloads the clip', async () => {
+    const pending = generateVideo(params);
+    await vi.advanceTimersByTimeAsync(RENDER_WINDOW);
+    const result = await pending;
+
+    expect(result.blob.type).toBe('video/webm');
+    expect(result.blob.size).toBeGreaterThan(0);
+    expect(result.uri).toContain('9x16');
+  });
+
+  it('runs a queued job through to success', async () => {
+    const { JobStatus, jobQueue } = await import('./jobQueue');
+    const job = jobQueue.enqueue(params, { label: 'Mitosis' });
+
+    const pending = jobQueue.waitFor(job.id);
+    await vi.advanceTimersByTimeAsync(RENDER_WINDOW);
+    const result = await pending;
+
+    const finished = jobQueue.getJobs().find(j => j.id === job.id)!;
+    expect(finished.status).toBe(JobStatus.SUCCEEDED);
+    expect(finished.operationName).toMatch(/^mock-operations\//);
+    expect(jobQueue.getResult(job.id)).toBe(result);
+
+    jobQueue.remove(job.id);
+    expect(jobQueue.getJobs()).toHaveLength(0);
+  });
+});
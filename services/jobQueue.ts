@@ -0,0 +1,295 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GeneratedVideo, downloadVideo, pollVideoOperation, startVideoGeneration, videoPollDelay } from './geminiService';
+import { saveAsset } from './libraryStore';
+import { GeminiServiceError, ServiceErrorKind, classifyError } from './errors';
+import { AssetKind, GenerateVideoParams, NavigationTab } from '../types';
+
+export enum JobStatus {
+  QUEUED = 'Queued',
+  RUNNING = 'Running',
+  SUCCEEDED = 'Succeeded',
+  FAILED = 'Failed',
+  CANCELLED = 'Cancelled',
+}
+
+export interface GenerationJob {
+  id: string;
+  label: string;
+  source: NavigationTab;
+  params: GenerateVideoParams; // File-backed inputs are dropped when the queue is persisted
+  requiresLocalInputs: boolean; // True when the params reference uploads that don't survive a reload
+  status: JobStatus;
+  operationName?: string | null;
+  submittedAt: number;
+  startedAt?: number | null;
+  finishedAt?: number | null;
+  pollAttempt: number;
+  nextPollAt?: number | null;
+  pollFailures: number;
+  error?: string | null;
+  errorKind?: ServiceErrorKind | null;
+  assetId?: string | null; // Library entry holding the finished clip
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface EnqueueOptions {
+  label?: string;
+  source?: NavigationTab;
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+const STORAGE_KEY = 'studio-pro-jobs';
+const MAX_CONCURRENT_JOBS = 4;
+const MAX_POLL_FAILURES = 3;
+const TICK_INTERVAL = 1000;
+
+const isFinished = (job: GenerationJob) =>
+  job.status === JobStatus.SUCCEEDED || job.status === JobStatus.FAILED || job.status === JobStatus.CANCELLED;
+
+const hasLocalInputs = (params: GenerateVideoParams) =>
+  !!(params.startFrame || params.endFrame || params.referenceImages?.length || params.styleImage || params.inputVideo);
+
+const persistableParams = (params: GenerateVideoParams): GenerateVideoParams => ({
+  ...params,
+  startFrame: null,
+  endFrame: null,
+  referenceImages: [],
+  styleImage: null,
+  inputVideo: null,
+  inputVideoUrl: null,
+});
+
+/** Rough Veo turnaround used to estimate progress, since operations don't report any */
+export const expectedJobDuration = (job: GenerationJob) =>
+  job.params.model.includes('fast') ? 75000 : 180000;
+
+class JobQueue {
+  private jobs: GenerationJob[] = [];
+  private listeners = new Set<() => void>();
+  private waiters = new Map<string, {resolve: (result: GeneratedVideo) => void; reject: (error: GeminiServiceError) => void}[]>();
+  private results = new Map<string, GeneratedVideo>();
+  private inFlight = new Set<string>();
+  // Uploads can't be persisted, so the original params are kept in memory until the job is submitted
+  private pendingParams = new Map<string, GenerateVideoParams>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor() {
+    this.jobs = this.load();
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible') this.pollNow();
+      });
+    }
+    this.schedule();
+  }
+
+  getJobs = () => this.jobs;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  getResult = (id: string) => this.results.get(id);
+
+  enqueue(params: GenerateVideoParams, options: EnqueueOptions = {}): GenerationJob {
+    const job: GenerationJob = {
+      id: crypto.randomUUID(),
+      label: options.label || params.prompt.slice(0, 60) || params.mode,
+      source: options.source ?? NavigationTab.VIDEO,
+      params: persistableParams(params),
+      requiresLocalInputs: hasLocalInputs(params),
+      status: JobStatus.QUEUED,
+      submittedAt: Date.now(),
+      pollAttempt: 0,
+      pollFailures: 0,
+      tags: options.tags,
+      metadata: options.metadata,
+    };
+    this.pendingParams.set(job.id, params);
+    this.setJobs([...this.jobs, job]);
+    this.schedule();
+    return job;
+  }
+
+  /** Resolves with the downloaded clip once the job succeeds */
+  waitFor(id: string): Promise<GeneratedVideo> {
+    const job = this.jobs.find(j => j.id === id);
+    const result = this.results.get(id);
+    if (result) return Promise.resolve(result);
+    if (!job) return Promise.reject(new Error('Job not found.'));
+    if (isFinished(job)) return Promise.reject(new GeminiServiceError(job.errorKind ?? ServiceErrorKind.UNKNOWN, job.error || `Job ${job.status.toLowerCase()}.`));
+    return new Promise((resolve, reject) => {
+      this.waiters.set(id, [...(this.waiters.get(id) ?? []), {resolve, reject}]);
+    });
+  }
+
+  /** Stops tracking a job. Veo has no server-side cancel, so the operation itself may still complete. */
+  cancel(id: string) {
+    const job = this.jobs.find(j => j.id === id);
+    if (!job || isFinished(job)) return;
+    this.finish(id, {status: JobStatus.CANCELLED, error: 'Generation cancelled.'});
+  }
+
+  /** Drops a job and revokes the URL of its downloaded result; views showing the clip hold their own URLs */
+  remove(id: string) {
+    this.cancel(id);
+    const result = this.results.get(id);
+    if (result) URL.revokeObjectURL(result.objectUrl);
+    this.results.delete(id);
+    this.setJobs(this.jobs.filter(j => j.id !== id));
+  }
+
+  clearFinished() {
+    this.jobs.filter(isFinished).forEach(job => this.remove(job.id));
+  }
+
+  pollNow() {
+    const now = Date.now();
+    this.setJobs(this.jobs.map(job => job.status === JobStatus.RUNNING ? {...job, nextPollAt: now} : job));
+    this.tick();
+  }
+
+  private load(): GenerationJob[] {
+    try {
+      const stored: GenerationJob[] = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+      return stored.map(job => {
+        // Uploads never submitted, or cut off mid-submit, are gone; resubmitting without them would render a different video
+        if ((job.status === JobStatus.QUEUED || (job.status === JobStatus.RUNNING && !job.operationName)) && job.requiresLocalInputs) {
+          return {...job, status: JobStatus.FAILED, error: 'Uploaded inputs were lost when the page reloaded.', finishedAt: Date.now()};
+        }
+        // A job interrupted mid-submit has no operation to resume, so it is submitted again
+        if (job.status === JobStatus.RUNNING && !job.operationName) {
+          return {...job, status: JobStatus.QUEUED};
+        }
+        return job.status === JobStatus.RUNNING ? {...job, nextPollAt: Date.now()} : job;
+      });
+    } catch (error) {
+      console.warn('Failed to restore the job queue', error);
+      return [];
+    }
+  }
+
+  private setJobs(jobs: GenerationJob[]) {
+    this.jobs = jobs;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+    } catch (error) {
+      console.warn('Failed to persist the job queue', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  private updateJob(id: string, patch: Partial<GenerationJob>) {
+    this.setJobs(this.jobs.map(job => job.id === id ? {...job, ...patch} : job));
+  }
+
+  private finish(id: string, patch: Partial<GenerationJob>, result?: GeneratedVideo) {
+    this.updateJob(id, {...patch, finishedAt: Date.now(), nextPollAt: null});
+    const error = new GeminiServiceError(patch.errorKind ?? ServiceErrorKind.UNKNOWN, patch.error || 'Generation failed.');
+    this.pendingParams.delete(id);
+    this.inFlight.delete(id);
+    const waiters = this.waiters.get(id) ?? [];
+    this.waiters.delete(id);
+    waiters.forEach(({resolve, reject}) => result ? resolve(result) : reject(error));
+  }
+
+  private fail(id: string, error: unknown) {
+    const classified = classifyError(error);
+    this.finish(id, {status: JobStatus.FAILED, error: classified.message, errorKind: classified.kind});
+  }
+
+  private schedule() {
+    const hasActiveJobs = this.jobs.some(job => !isFinished(job));
+    if (hasActiveJobs && !this.timer) {
+      this.timer = setInterval(() => this.tick(), TICK_INTERVAL);
+      this.tick();
+    } else if (!hasActiveJobs && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private tick() {
+    const now = Date.now();
+    let running = this.jobs.filter(job => job.status === JobStatus.RUNNING).length;
+
+    for (const job of this.jobs) {
+      if (this.inFlight.has(job.id)) continue;
+      if (job.status === JobStatus.QUEUED && running < MAX_CONCURRENT_JOBS) {
+        running++;
+        this.submit(job);
+      } else if (job.status === JobStatus.RUNNING && job.operationName && (job.nextPollAt ?? 0) <= now) {
+        this.poll(job);
+      }
+    }
+    this.schedule();
+  }
+
+  private async submit(job: GenerationJob) {
+    this.inFlight.add(job.id);
+    this.updateJob(job.id, {status: JobStatus.RUNNING, startedAt: Date.now()});
+    try {
+      const operationName = await startVideoGeneration(this.pendingParams.get(job.id) ?? job.params);
+      if (!this.isActive(job.id)) return;
+      this.pendingParams.delete(job.id);
+      this.updateJob(job.id, {operationName, pollAttempt: 0, nextPollAt: Date.now() + videoPollDelay(0)});
+    } catch (error) {
+      if (this.isActive(job.id)) this.fail(job.id, error);
+    } finally {
+      this.inFlight.delete(job.id);
+    }
+  }
+
+  private async poll(job: GenerationJob) {
+    this.inFlight.add(job.id);
+    try {
+      const status = await pollVideoOperation(job.operationName!);
+      if (!this.isActive(job.id)) return;
+      if (!status.done) {
+        const pollAttempt = job.pollAttempt + 1;
+        this.updateJob(job.id, {pollAttempt, pollFailures: 0, nextPollAt: Date.now() + videoPollDelay(pollAttempt)});
+        return;
+      }
+
+      const result = await downloadVideo(status.video!);
+      if (!this.isActive(job.id)) return;
+      this.results.set(job.id, result);
+      const asset = await saveAsset({
+        kind: AssetKind.VIDEO,
+        title: job.label,
+        tags: job.tags,
+        source: job.source,
+        blob: result.blob,
+        prompt: job.params.prompt,
+        videoParams: job.params,
+        metadata: job.metadata,
+      }).catch(error => { console.warn('Failed to save asset to library', error); return null; });
+      this.finish(job.id, {status: JobStatus.SUCCEEDED, assetId: asset?.id ?? null}, result);
+    } catch (error) {
+      if (!this.isActive(job.id)) return;
+      const classified = classifyError(error);
+      const pollFailures = job.pollFailures + 1;
+      // Transient failures were already retried by the service; keep polling a few more times before giving up
+      if (!classified.retryable || pollFailures >= MAX_POLL_FAILURES) {
+        this.fail(job.id, classified);
+      } else {
+        this.updateJob(job.id, {pollFailures, nextPollAt: Date.now() + videoPollDelay(job.pollAttempt + pollFailures)});
+      }
+    } finally {
+      this.inFlight.delete(job.id);
+    }
+  }
+
+  private isActive(id: string) {
+    const job = this.jobs.find(j => j.id === id);
+    return !!job && !isFinished(job);
+  }
+}
+
+export const jobQueue = new JobQueue();
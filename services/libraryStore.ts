@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ConsistencyKit, LibraryAsset } from '../types';
+
+const DB_NAME = 'studio-pro-library';
+const DB_VERSION = 2;
+const ASSET_STORE = 'assets';
+const KIT_STORE = 'kits';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ASSET_STORE)) {
+          const store = db.createObjectStore(ASSET_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(KIT_STORE)) {
+          db.createObjectStore(KIT_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Failed to open the project library.'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = ASSET_STORE,
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Project library request failed.'));
+  });
+};
+
+// Object URLs die with the page, so they are never worth persisting
+const stripTransientFields = (asset: LibraryAsset): LibraryAsset => asset.videoParams
+  ? { ...asset, videoParams: { ...asset.videoParams, inputVideoUrl: null } }
+  : asset;
+
+/** Saves a new asset, or overwrites an existing one when `id` is given */
+export const saveAsset = async (
+  asset: Omit<LibraryAsset, 'id' | 'createdAt' | 'updatedAt' | 'tags'> & Partial<Pick<LibraryAsset, 'id' | 'tags' | 'createdAt'>>,
+): Promise<LibraryAsset> => {
+  const now = Date.now();
+  const entry = stripTransientFields({
+    ...asset,
+    id: asset.id ?? crypto.randomUUID(),
+    tags: asset.tags ?? [],
+    createdAt: asset.createdAt ?? now,
+    updatedAt: now,
+  });
+  await runRequest('readwrite', store => store.put(entry));
+  return entry;
+};
+
+export const getAsset = (id: string) =>
+  runRequest<LibraryAsset | undefined>('readonly', store => store.get(id));
+
+export const listAssets = async (): Promise<LibraryAsset[]> => {
+  const assets = await runRequest<LibraryAsset[]>('readonly', store => store.getAll());
+  return assets.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const updateAsset = async (id: string, patch: Partial<Omit<LibraryAsset, 'id'>>) => {
+  const existing = await getAsset(id);
+  if (!existing) throw new Error('Asset not found in the project library.');
+  const entry = { ...existing, ...patch, id, updatedAt: Date.now() };
+  await runRequest('readwrite', store => store.put(entry));
+  return entry;
+};
+
+export const deleteAsset = (id: string) =>
+  runRequest('readwrite', store => store.delete(id));
+
+/** Fire-and-forget save used by the labs; a full disk shouldn't break a generation */
+export const archiveAsset = (asset: Parameters<typeof saveAsset>[0]) => {
+  saveAsset(asset).catch(error => console.warn('Failed to save asset to library', error));
+};
+
+/** Kits hold their images as ImageFiles, which IndexedDB stores as-is */
+export const saveKit = async (
+  kit: Omit<ConsistencyKit, 'id' | 'createdAt' | 'updatedAt'> & Partial<Pick<ConsistencyKit, 'id' | 'createdAt'>>,
+): Promise<ConsistencyKit> => {
+  const now = Date.now();
+  const entry: ConsistencyKit = { ...kit, id: kit.id ?? crypto.randomUUID(), createdAt: kit.createdAt ?? now, updatedAt: now };
+  await runRequest('readwrite', store => store.put(entry), KIT_STORE);
+  return entry;
+};
+
+export const listKits = async (): Promise<ConsistencyKit[]> => {
+  const kits = await runRequest<ConsistencyKit[]>('readonly', store => store.getAll(), KIT_STORE);
+  return kits.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const deleteKit = (id: string) =>
+  runRequest('readwrite', store => store.delete(id), KIT_STORE);
+
+export const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
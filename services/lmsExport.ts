@@ -0,0 +1,456 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import JSZip from 'jszip';
+import { CaptionCue, QuizQuestion } from '../types';
+import { cuesToVtt } from './captions';
+
+export type LmsFormat = 'scorm12' | 'cmi5';
+
+export interface LmsVideo {
+  title: string;
+  blob: Blob;
+  captions?: CaptionCue[] | null;
+}
+
+export interface LmsPackage {
+  title: string;
+  description?: string;
+  academicLevel: string;
+  videos: LmsVideo[]; // Played in order; usually one assembled lesson
+  transcript: string;
+  quiz: QuizQuestion[];
+  masteryScore?: number; // Percentage needed to pass the quiz
+}
+
+const DEFAULT_MASTERY_SCORE = 80;
+
+const videoExtension = (blob: Blob) => blob.type.includes('mp4') ? 'mp4' : 'webm';
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'lesson';
+
+const scormManifest = (pkg: LmsPackage, slug: string, files: string[]) => {
+  // XML IDs must start with a letter; a slug like "1-introduction" would not
+  const identifier = `lesson-${slug}`;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifier}" version="1.0"
+  xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsproject.org/xsd/imscp_rootv1p1p2 imscp_rootv1p1p2.xsd http://www.imsglobal.org/xsd/imsmd_rootv1p2p1 imsmd_rootv1p2p1.xsd http://www.adlnet.org/xsd/adlcp_rootv1p2 adlcp_rootv1p2.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>1.2</schemaversion>
+  </metadata>
+  <organizations default="${identifier}-org">
+    <organization identifier="${identifier}-org">
+      <title>${escapeXml(pkg.title)}</title>
+      <item identifier="${identifier}-item" identifierref="${identifier}-resource">
+        <title>${escapeXml(pkg.title)}</title>${pkg.quiz.length > 0 ? `
+        <adlcp:masteryscore>${pkg.masteryScore ?? DEFAULT_MASTERY_SCORE}</adlcp:masteryscore>` : ''}
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="${identifier}-resource" type="webcontent" adlcp:scormtype="sco" href="index.html">
+${files.map(file => `      <file href="${escapeXml(file)}"/>`).join('\n')}
+    </resource>
+  </resources>
+</manifest>
+`;
+};
+
+const cmi5Manifest = (pkg: LmsPackage, identifier: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<courseStructure xmlns="https://w3id.org/xapi/profiles/cmi5/v1/CourseStructure.xsd">
+  <course id="https://studio-pro.local/courses/${identifier}">
+    <title><langstring lang="en-US">${escapeXml(pkg.title)}</langstring></title>
+    <description><langstring lang="en-US">${escapeXml(pkg.description || pkg.title)}</langstring></description>
+  </course>
+  <au id="https://studio-pro.local/courses/${identifier}/lesson" moveOn="${pkg.quiz.length > 0 ? 'CompletedAndPassed' : 'Completed'}"${pkg.quiz.length > 0 ? ` masteryScore="${(pkg.masteryScore ?? DEFAULT_MASTERY_SCORE) / 100}"` : ''} launchMethod="AnyWindow">
+    <title><langstring lang="en-US">${escapeXml(pkg.title)}</langstring></title>
+    <description><langstring lang="en-US">${escapeXml(pkg.description || pkg.title)}</langstring></description>
+    <url>index.html</url>
+  </au>
+</courseStructure>
+`;
+
+const playerHtml = (pkg: LmsPackage) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeXml(pkg.title)}</title>
+<link rel="stylesheet" href="player.css">
+</head>
+<body>
+<main>
+  <h1 id="title"></h1>
+  <p id="level"></p>
+  <section id="videos"></section>
+  <details id="transcript-panel"><summary>Transcript</summary><pre id="transcript"></pre></details>
+  <section id="quiz" hidden>
+    <h2>Check your understanding</h2>
+    <form id="quiz-form"></form>
+    <button type="button" id="submit-quiz">Submit answers</button>
+    <p id="result" role="status"></p>
+  </section>
+  <p id="status" role="status"></p>
+</main>
+<script src="lesson.js"></script>
+<script src="runtime.js"></script>
+<script src="player.js"></script>
+</body>
+</html>
+`;
+
+const PLAYER_CSS = `body { margin: 0; background: #0b0b0f; color: #e5e7eb; font-family: system-ui, sans-serif; }
+main { max-width: 960px; margin: 0 auto; padding: 32px 20px 64px; }
+h1 { margin: 0 0 4px; }
+#level, #status { color: #9ca3af; font-size: 14px; }
+video { width: 100%; background: #000; border-radius: 12px; margin-top: 16px; }
+.video-title { font-weight: 600; margin: 24px 0 0; }
+details { margin-top: 24px; background: #111827; border-radius: 12px; padding: 12px 16px; }
+pre { white-space: pre-wrap; font-family: inherit; line-height: 1.6; }
+.question { background: #111827; border-radius: 12px; padding: 16px; margin: 16px 0; }
+.question label { display: block; padding: 6px 0; }
+.question input[type=text] { width: 100%; box-sizing: border-box; padding: 8px; border-radius: 8px; border: 1px solid #374151; background: #0b0b0f; color: inherit; }
+.feedback { font-size: 14px; margin-top: 8px; }
+.correct { color: #34d399; }
+.incorrect { color: #f87171; }
+button { background: #4f46e5; color: white; border: 0; border-radius: 10px; padding: 10px 20px; font-weight: 600; cursor: pointer; }
+button:disabled { background: #374151; cursor: default; }
+`;
+
+/** LMS adapters share one interface: start(), complete(), score(scaled, passed) and finish() */
+const SCORM_RUNTIME = `(function () {
+  function findApi(win) {
+    for (var i = 0; win && i < 10; i++) {
+      if (win.API) return win.API;
+      if (win.parent === win) break;
+      win = win.parent;
+    }
+    return null;
+  }
+  var api = findApi(window) || (window.opener && findApi(window.opener));
+  var finished = false;
+
+  window.LessonRuntime = {
+    start: function () {
+      if (!api) return false;
+      api.LMSInitialize('');
+      var status = api.LMSGetValue('cmi.core.lesson_status');
+      if (status === 'not attempted' || status === '') api.LMSSetValue('cmi.core.lesson_status', 'incomplete');
+      api.LMSCommit('');
+      return true;
+    },
+    complete: function (hasQuiz) {
+      if (!api || hasQuiz) return;
+      api.LMSSetValue('cmi.core.lesson_status', 'completed');
+      api.LMSCommit('');
+    },
+    score: function (scaled, passed) {
+      if (!api) return;
+      api.LMSSetValue('cmi.core.score.min', '0');
+      api.LMSSetValue('cmi.core.score.max', '100');
+      api.LMSSetValue('cmi.core.score.raw', String(Math.round(scaled * 100)));
+      api.LMSSetValue('cmi.core.lesson_status', passed ? 'passed' : 'failed');
+      api.LMSCommit('');
+    },
+    finish: function () {
+      if (!api || finished) return;
+      finished = true;
+      api.LMSFinish('');
+    }
+  };
+})();
+`;
+
+const CMI5_RUNTIME = `(function () {
+  var params = new URLSearchParams(window.location.search);
+  var endpoint = (params.get('endpoint') || '').replace(/\\/?$/, '/');
+  var fetchUrl = params.get('fetch');
+  var registration = params.get('registration');
+  var activityId = params.get('activityId');
+  var actor = params.get('actor') ? JSON.parse(params.get('actor')) : null;
+  var token = null;
+  var contextTemplate = {};
+  var masteryScore = null;
+  var terminated = false;
+  var initialized = false;
+  var pending = [];
+  var outbox = Promise.resolve();
+  var startedAt = Date.now();
+  var VERBS = {
+    initialized: 'http://adlnet.gov/expapi/verbs/initialized',
+    completed: 'http://adlnet.gov/expapi/verbs/completed',
+    passed: 'http://adlnet.gov/expapi/verbs/passed',
+    failed: 'http://adlnet.gov/expapi/verbs/failed',
+    terminated: 'http://adlnet.gov/expapi/verbs/terminated'
+  };
+
+  function headers() {
+    return { 'Authorization': 'Basic ' + token, 'X-Experience-API-Version': '1.0.3', 'Content-Type': 'application/json' };
+  }
+
+  function duration() {
+    return 'PT' + Math.round((Date.now() - startedAt) / 1000) + 'S';
+  }
+
+  // Statements are built once the launch data is in, but keep the time they happened
+  function post(verb, extra, keepalive, timestamp) {
+    var context = JSON.parse(JSON.stringify(contextTemplate));
+    context.registration = registration;
+    context.contextActivities = context.contextActivities || {};
+    context.contextActivities.category = (context.contextActivities.category || []).concat([{ id: 'https://w3id.org/xapi/cmi5/context/categories/cmi5' }]);
+    if (verb === 'passed' || verb === 'failed') {
+      context.extensions = context.extensions || {};
+      if (masteryScore !== null) context.extensions['https://w3id.org/xapi/cmi5/context/extensions/masteryscore'] = masteryScore;
+    }
+    var statement = {
+      id: crypto.randomUUID(),
+      actor: actor,
+      verb: { id: VERBS[verb], display: { 'en-US': verb } },
+      object: { id: activityId, objectType: 'Activity' },
+      context: context,
+      timestamp: timestamp
+    };
+    if (extra) statement.result = extra;
+    return fetch(endpoint + 'statements?statementId=' + statement.id, { method: 'PUT', headers: headers(), body: JSON.stringify(statement), keepalive: !!keepalive });
+  }
+
+  // cmi5 requires initialized first, so anything reported during the launch waits and is then sent in order
+  function send(verb, extra, keepalive) {
+    var timestamp = new Date().toISOString();
+    if (!initialized) {
+      pending.push([verb, extra, keepalive, timestamp]);
+      return;
+    }
+    deliver([verb, extra, keepalive, timestamp]);
+  }
+
+  function deliver(args) {
+    outbox = outbox
+      .then(function () { return post.apply(null, args); })
+      .catch(function (error) { console.error('cmi5 statement failed', error); });
+  }
+
+  window.LessonRuntime = {
+    start: function () {
+      if (!endpoint || !fetchUrl || !actor) return false;
+      fetch(fetchUrl, { method: 'POST' })
+        .then(function (res) { return res.json(); })
+        .then(function (body) {
+          token = body['auth-token'];
+          var query = 'stateId=LMS.LaunchData&activityId=' + encodeURIComponent(activityId) +
+            '&agent=' + encodeURIComponent(JSON.stringify(actor)) + '&registration=' + encodeURIComponent(registration);
+          return fetch(endpoint + 'activities/state?' + query, { headers: headers() });
+        })
+        .then(function (res) { return res.ok ? res.json() : {}; })
+        .then(function (launchData) {
+          contextTemplate = launchData.contextTemplate || {};
+          if (typeof launchData.masteryScore === 'number') masteryScore = launchData.masteryScore;
+          return post('initialized', null, false, new Date().toISOString());
+        })
+        .then(function () {
+          initialized = true;
+          pending.splice(0).forEach(deliver);
+        })
+        .catch(function (error) { console.error('cmi5 launch failed', error); });
+      return true;
+    },
+    complete: function () {
+      send('completed', { completion: true, duration: duration() });
+    },
+    score: function (scaled, passed) {
+      send(passed ? 'passed' : 'failed', { success: passed, score: { scaled: scaled }, duration: duration() });
+    },
+    finish: function () {
+      if (terminated) return;
+      terminated = true;
+      send('terminated', { duration: duration() }, true);
+    }
+  };
+})();
+`;
+
+const PLAYER_JS = `(function () {
+  var lesson = window.LESSON;
+  var runtime = window.LessonRuntime;
+  var connected = runtime.start();
+  var videosDone = 0;
+  var completed = false;
+  var hasQuiz = lesson.quiz.length > 0;
+
+  document.getElementById('title').textContent = lesson.title;
+  document.getElementById('level').textContent = lesson.academicLevel + ' level';
+  document.getElementById('transcript').textContent = lesson.transcript;
+  document.getElementById('status').textContent = connected ? '' : 'Not launched from an LMS: progress will not be recorded.';
+
+  function markComplete() {
+    if (completed) return;
+    completed = true;
+    runtime.complete(hasQuiz);
+  }
+
+  var container = document.getElementById('videos');
+  lesson.videos.forEach(function (video, index) {
+    if (lesson.videos.length > 1) {
+      var heading = document.createElement('p');
+      heading.className = 'video-title';
+      heading.textContent = (index + 1) + '. ' + video.title;
+      container.appendChild(heading);
+    }
+    var el = document.createElement('video');
+    el.controls = true;
+    el.preload = 'metadata';
+    el.src = video.src;
+    if (video.captions) {
+      var track = document.createElement('track');
+      track.kind = 'captions';
+      track.label = 'English';
+      track.srclang = 'en';
+      track.src = video.captions;
+      track.default = true;
+      el.appendChild(track);
+    }
+    var watched = false;
+    el.addEventListener('ended', function () {
+      if (!watched) {
+        watched = true;
+        videosDone++;
+      }
+      if (videosDone === lesson.videos.length) markComplete();
+      var next = container.querySelectorAll('video')[index + 1];
+      if (next) next.play();
+    });
+    container.appendChild(el);
+  });
+  if (lesson.videos.length === 0) markComplete();
+
+  function normalize(value) {
+    return String(value).toLowerCase().replace(/[^\\w\\s]/g, '').replace(/\\s+/g, ' ').trim();
+  }
+
+  function isShortAnswerCorrect(response, key) {
+    var given = normalize(response);
+    var expected = normalize(key);
+    if (!given || !expected) return false;
+    return given.indexOf(expected) >= 0 || (given.length >= 3 && expected.indexOf(given) >= 0);
+  }
+
+  if (hasQuiz) {
+    var form = document.getElementById('quiz-form');
+    document.getElementById('quiz').hidden = false;
+    lesson.quiz.forEach(function (question, qi) {
+      var block = document.createElement('fieldset');
+      block.className = 'question';
+      var legend = document.createElement('legend');
+      legend.textContent = (qi + 1) + '. ' + question.prompt;
+      block.appendChild(legend);
+      if (question.options.length > 0) {
+        question.options.forEach(function (option, oi) {
+          var label = document.createElement('label');
+          var input = document.createElement('input');
+          input.type = 'radio';
+          input.name = 'q' + qi;
+          input.value = String(oi);
+          label.appendChild(input);
+          label.appendChild(document.createTextNode(' ' + option.text));
+          block.appendChild(label);
+        });
+      } else {
+        var text = document.createElement('input');
+        text.type = 'text';
+        text.name = 'q' + qi;
+        block.appendChild(text);
+      }
+      var feedback = document.createElement('p');
+      feedback.className = 'feedback';
+      block.appendChild(feedback);
+      form.appendChild(block);
+    });
+
+    document.getElementById('submit-quiz').addEventListener('click', function () {
+      var correctCount = 0;
+      lesson.quiz.forEach(function (question, qi) {
+        var block = form.children[qi];
+        var feedback = block.querySelector('.feedback');
+        var correct;
+        if (question.options.length > 0) {
+          var chosen = form.querySelector('input[name="q' + qi + '"]:checked');
+          correct = !!chosen && Number(chosen.value) === question.correctOption;
+          var option = chosen ? question.options[Number(chosen.value)] : null;
+          feedback.textContent = (correct ? 'Correct. ' : 'Incorrect. The answer is: ' + question.answer + '. ') + ((option && option.explanation) || question.explanation || '');
+        } else {
+          correct = isShortAnswerCorrect(block.querySelector('input').value, question.answer);
+          feedback.textContent = (correct ? 'Correct. ' : 'Expected: ' + question.answer + '. ') + (question.explanation || '');
+        }
+        feedback.className = 'feedback ' + (correct ? 'correct' : 'incorrect');
+        if (correct) correctCount++;
+      });
+      var scaled = correctCount / lesson.quiz.length;
+      var passed = scaled * 100 >= lesson.masteryScore;
+      document.getElementById('result').textContent = 'Score: ' + correctCount + '/' + lesson.quiz.length + (passed ? ' - passed' : ' - not passed yet');
+      document.getElementById('submit-quiz').disabled = true;
+      markComplete();
+      runtime.score(scaled, passed);
+    });
+  }
+
+  window.addEventListener('pagehide', function () { runtime.finish(); });
+  window.addEventListener('beforeunload', function () { runtime.finish(); });
+})();
+`;
+
+/** Bundles a lesson into a self-contained SCORM 1.2 or cmi5 zip that any conforming LMS can import */
+export const exportLessonPackage = async (pkg: LmsPackage, format: LmsFormat): Promise<Blob> => {
+  const zip = new JSZip();
+  const identifier = `${slugify(pkg.title)}-${Date.now().toString(36)}`;
+  const files: string[] = ['index.html', 'player.css', 'lesson.js', 'runtime.js', 'player.js', 'content/transcript.txt'];
+
+  const videos = pkg.videos.map((video, index) => {
+    const base = pkg.videos.length === 1 ? 'content/lesson' : `content/part-${String(index + 1).padStart(2, '0')}`;
+    const src = `${base}.${videoExtension(video.blob)}`;
+    zip.file(src, video.blob);
+    files.push(src);
+    let captions: string | null = null;
+    if (video.captions?.length) {
+      captions = `${base}.vtt`;
+      zip.file(captions, cuesToVtt(video.captions));
+      files.push(captions);
+    }
+    return {title: video.title, src, captions};
+  });
+
+  const lessonData = {
+    title: pkg.title,
+    academicLevel: pkg.academicLevel,
+    transcript: pkg.transcript,
+    masteryScore: pkg.masteryScore ?? DEFAULT_MASTERY_SCORE,
+    videos,
+    quiz: pkg.quiz.map(({type, prompt, options, correctOption, answer, explanation, difficulty}) => ({type, prompt, options, correctOption, answer, explanation, difficulty})),
+  };
+
+  zip.file('index.html', playerHtml(pkg));
+  zip.file('player.css', PLAYER_CSS);
+  zip.file('lesson.js', `window.LESSON = ${JSON.stringify(lessonData, null, 2)};\n`);
+  zip.file('runtime.js', format === 'scorm12' ? SCORM_RUNTIME : CMI5_RUNTIME);
+  zip.file('player.js', PLAYER_JS);
+  zip.file('content/transcript.txt', pkg.transcript);
+
+  if (format === 'scorm12') {
+    zip.file('imsmanifest.xml', scormManifest(pkg, identifier, files));
+  } else {
+    zip.file('cmi5.xml', cmi5Manifest(pkg, identifier));
+  }
+
+  return zip.generateAsync({type: 'blob', mimeType: 'application/zip'});
+};
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { SpeechOptions, generateSpeech } from './geminiService';
+import { PCM_SAMPLE_RATE } from './audioUtils';
+import { pcmToSamples, samplesToPcmBase64 } from './audioMastering';
+
+export enum ChunkStatus {
+  PENDING = 'Pending',
+  SYNTHESIZING = 'Synthesizing',
+  DONE = 'Done',
+  FAILED = 'Failed',
+}
+
+export interface SpeechChunk {
+  text: string;
+  status: ChunkStatus;
+  audio?: string | null; // base64 PCM once synthesized
+  error?: unknown;
+}
+
+/** Roughly a minute and a half of speech; well inside what the TTS model reads in one request */
+export const MAX_CHUNK_CHARS = 1200;
+const MAX_CONCURRENT_CHUNKS = 3;
+const MIN_START_INTERVAL = 1000; // ms between request starts, to stay under per-minute quotas
+const CROSSFADE_SECONDS = 0.04;
+
+// Whitespace after sentence-ending punctuation (and any closing quotes), so "3.14", "e.g." and "example.com" stay whole
+const SENTENCE_BREAK = /(?<=[.!?…]["'”’)\]]*)\s+/;
+
+// Coarsest boundary first: paragraphs, then lines (which keep "Name:" dialogue turns whole), sentences, words
+const SPLITTERS: ((text: string) => string[])[] = [
+  text => text.split(/\n\s*\n/),
+  text => text.split('\n'),
+  text => text.split(SENTENCE_BREAK),
+  text => text.split(/\s+/),
+];
+const JOINERS = ['\n\n', '\n', ' ', ' '];
+
+const packText = (text: string, maxChars: number, level: number): string[] => {
+  if (text.length <= maxChars || level === SPLITTERS.length) return [text];
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of SPLITTERS[level](text).map(piece => piece.trim()).filter(Boolean)) {
+    const candidate = current ? `${current}${JOINERS[level]}${piece}` : piece;
+    if (candidate.length <= maxChars) {
+      current = candidate;
+      continue;
+    }
+    if (current) chunks.push(current);
+    current = '';
+    if (piece.length <= maxChars) current = piece;
+    else chunks.push(...packText(piece, maxChars, level + 1));
+  }
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+/** Splits a script into chunks of at most `maxChars`, breaking at the coarsest boundary that fits */
+export const splitSpeechText = (text: string, maxChars = MAX_CHUNK_CHARS) => packText(text.trim(), maxChars, 0);
+
+export const createSpeechChunks = (text: string): SpeechChunk[] =>
+  splitSpeechText(text).map(chunk => ({ text: chunk, status: ChunkStatus.PENDING }));
+
+/**
+ * Synthesizes the chunks at `indices` (by default every one that isn't done yet), a few at a time.
+ * Failures are recorded on the chunk rather than thrown, so the rest of the script still completes
+ * and only the failed chunks need another pass. Resolves with the updated chunks.
+ */
+export const synthesizeChunks = async (
+  chunks: SpeechChunk[],
+  options: SpeechOptions,
+  onChunk: (index: number, chunk: SpeechChunk) => void,
+  indices = chunks.map((_, i) => i).filter(i => chunks[i].status !== ChunkStatus.DONE),
+) => {
+  const result = [...chunks];
+  const update = (index: number, patch: Partial<SpeechChunk>) => {
+    result[index] = { ...result[index], ...patch };
+    onChunk(index, result[index]);
+  };
+  indices.forEach(index => update(index, { status: ChunkStatus.PENDING, error: null }));
+
+  const queue = [...indices];
+  let nextStartAt = 0;
+  const worker = async () => {
+    for (let index = queue.shift(); index !== undefined; index = queue.shift()) {
+      const wait = Math.max(0, nextStartAt - Date.now());
+      nextStartAt = Math.max(Date.now(), nextStartAt) + MIN_START_INTERVAL;
+      if (wait) await new Promise(resolve => setTimeout(resolve, wait));
+      update(index, { status: ChunkStatus.SYNTHESIZING });
+      try {
+        update(index, { status: ChunkStatus.DONE, audio: await generateSpeech(result[index].text, options) });
+      } catch (error) {
+        update(index, { status: ChunkStatus.FAILED, error });
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_CHUNKS, queue.length) }, worker));
+  return result;
+};
+
+/** Joins PCM clips end to end, overlapping each seam with a short equal-power crossfade */
+export const stitchPcm = (clips: string[], sampleRate = PCM_SAMPLE_RATE) => {
+  const parts = clips.map(pcmToSamples);
+  const fadeLength = Math.round(CROSSFADE_SECONDS * sampleRate);
+  const fades = parts.slice(1).map((part, i) => Math.min(fadeLength, part.length, parts[i].length));
+  const output = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0) - fades.reduce((sum, fade) => sum + fade, 0));
+
+  let offset = 0;
+  parts.forEach((part, i) => {
+    const fade = i > 0 ? fades[i - 1] : 0;
+    offset -= fade;
+    for (let j = 0; j < part.length; j++) {
+      if (j < fade) {
+        const t = (j + 0.5) / fade;
+        output[offset + j] = output[offset + j] * Math.cos((t * Math.PI) / 2) + part[j] * Math.sin((t * Math.PI) / 2);
+      } else {
+        output[offset + j] = part[j];
+      }
+    }
+    offset += part.length;
+  });
+  return samplesToPcmBase64(output);
+};
+
+export interface SpeechAttempt {
+  text: string;
+  options: SpeechOptions;
+  chunks: SpeechChunk[];
+  audio: string | null; // The stitched script, once every chunk is done
+}
+
+/**
+ * Long-form synthesis for callers without a chunk UI. Passing back an unfinished attempt at the same text
+ * and options synthesizes only the chunks that failed, keeping the rest.
+ */
+export const generateLongSpeech = async (text: string, options: SpeechOptions, previous?: SpeechAttempt | null): Promise<SpeechAttempt> => {
+  const resumable = previous && previous.text === text && JSON.stringify(previous.options) === JSON.stringify(options);
+  const chunks = await synthesizeChunks(resumable ? previous.chunks : createSpeechChunks(text), options, () => {});
+  const isDone = chunks.every(chunk => chunk.status === ChunkStatus.DONE);
+  return { text, options, chunks, audio: isDone ? stitchPcm(chunks.map(chunk => chunk.audio!)) : null };
+};
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+
+// The ~30 MB core is fetched on first use rather than bundled
+const CORE_BASE_URL = 'https://cdn.jsdelivr.net/npm/@ffmpeg/core@0.12.10/dist/esm';
+
+let ffmpegPromise: Promise<FFmpeg> | null = null;
+
+const loadFFmpeg = () => {
+  ffmpegPromise ??= (async () => {
+    const [{ FFmpeg }, { toBlobURL }] = await Promise.all([import('@ffmpeg/ffmpeg'), import('@ffmpeg/util')]);
+    const ffmpeg = new FFmpeg();
+    await ffmpeg.load({
+      coreURL: await toBlobURL(`${CORE_BASE_URL}/ffmpeg-core.js`, 'text/javascript'),
+      wasmURL: await toBlobURL(`${CORE_BASE_URL}/ffmpeg-core.wasm`, 'application/wasm'),
+    });
+    return ffmpeg;
+  })().catch(error => {
+    ffmpegPromise = null;
+    throw new Error('Failed to load the MP4 encoder.', { cause: error });
+  });
+  return ffmpegPromise;
+};
+
+/** Re-encodes a recording as H.264/AAC MP4 with ffmpeg compiled to WebAssembly */
+export const transcodeToMp4 = async (input: Blob, onProgress?: (progress: number) => void): Promise<Blob> => {
+  const ffmpeg = await loadFFmpeg();
+  const handleProgress = ({ progress }: { progress: number }) => onProgress?.(Math.min(1, Math.max(0, progress)));
+  const inputName = `input-${crypto.randomUUID()}.webm`;
+  const outputName = inputName.replace('input', 'output').replace('.webm', '.mp4');
+
+  ffmpeg.on('progress', handleProgress);
+  try {
+    await ffmpeg.writeFile(inputName, new Uint8Array(await input.arrayBuffer()));
+    const exitCode = await ffmpeg.exec([
+      '-i', inputName,
+      '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-pix_fmt', 'yuv420p',
+      '-c:a', 'aac', '-b:a', '128k',
+      '-movflags', '+faststart',
+      outputName,
+    ]);
+    if (exitCode !== 0) throw new Error('MP4 encoding failed.');
+    const data = await ffmpeg.readFile(outputName);
+    return new Blob([typeof data === 'string' ? data : new Uint8Array(data)], { type: 'video/mp4' });
+  } finally {
+    ffmpeg.off('progress', handleProgress);
+    await Promise.allSettled([ffmpeg.deleteFile(inputName), ffmpeg.deleteFile(outputName)]);
+  }
+};
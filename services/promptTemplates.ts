@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GenerationMode } from '../types';
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  mode: GenerationMode;
+  body: string; // Prompt text with {{variable}} or {{variable:default}} placeholders
+  builtIn?: boolean; // Starter templates ship with the app and cannot be deleted
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TemplateVariable {
+  name: string;
+  defaultValue: string;
+}
+
+interface TemplatePack {
+  version: 1;
+  templates: Omit<PromptTemplate, 'builtIn'>[];
+}
+
+const STORAGE_KEY = 'studio-pro-prompt-templates';
+const VARIABLE_PATTERN = /\{\{\s*([\w -]+?)\s*(?::([^}]*))?\}\}/g;
+
+const starter = (id: string, name: string, mode: GenerationMode, body: string): PromptTemplate =>
+  ({ id: `starter-${id}`, name, mode, body, builtIn: true, createdAt: 0, updatedAt: 0 });
+
+export const STARTER_TEMPLATES: PromptTemplate[] = [
+  starter('explainer', 'Lesson explainer', GenerationMode.TEXT_TO_VIDEO,
+    'A {{shot:slow dolly-in}} of {{subject}} in {{setting:a bright modern classroom}}, {{lighting:soft natural window light}}, shot on a {{lens:35mm}} lens, shallow depth of field, clean educational style.'),
+  starter('diagram', 'Animated diagram', GenerationMode.TEXT_TO_VIDEO,
+    'A minimalist animated diagram explaining {{concept}}, {{style:flat vector illustration}} on a {{background:dark navy}} background, elements appear one by one, smooth motion graphics.'),
+  starter('documentary', 'Documentary b-roll', GenerationMode.TEXT_TO_VIDEO,
+    'Cinematic documentary b-roll of {{subject}}, {{time_of_day:golden hour}}, {{camera:handheld tracking shot}}, natural color grade, {{lens:50mm}} lens.'),
+  starter('transition', 'Frame transition', GenerationMode.FRAMES_TO_VIDEO,
+    'Smoothly transform the first frame into the last frame with a {{transition:seamless morph}}, {{camera:static camera}}, {{pace:gentle}} pacing.'),
+  starter('presenter', 'Presenter from references', GenerationMode.REFERENCES_TO_VIDEO,
+    'The person from the reference images {{action:explains a concept to camera}} in {{setting:a warm studio}}, {{shot:medium close-up}}, {{lighting:three-point lighting}}.'),
+  starter('continue', 'Continue the scene', GenerationMode.EXTEND_VIDEO,
+    'The camera continues to {{camera_move:slowly pull back}} as {{event}}, keeping the same lighting and style.'),
+];
+
+/** The distinct variables of a template in order of first appearance; the first default given wins */
+export const extractVariables = (body: string): TemplateVariable[] => {
+  const variables = new Map<string, string>();
+  for (const match of body.matchAll(VARIABLE_PATTERN)) {
+    const name = match[1].trim();
+    if (!variables.has(name) || (!variables.get(name) && match[2])) {
+      variables.set(name, match[2]?.trim() ?? '');
+    }
+  }
+  return [...variables].map(([name, defaultValue]) => ({ name, defaultValue }));
+};
+
+/** Substitutes the variables; a blank value falls back to the placeholder's default */
+export const fillTemplate = (body: string, values: Record<string, string>) =>
+  body.replace(VARIABLE_PATTERN, (_, name: string, fallback?: string) => {
+    const value = values[name.trim()]?.trim();
+    return value || fallback?.trim() || '';
+  }).replace(/ {2,}/g, ' ').trim();
+
+const loadCustom = (): PromptTemplate[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch (error) {
+    console.warn('Failed to restore prompt templates', error);
+    return [];
+  }
+};
+
+const storeCustom = (templates: PromptTemplate[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  } catch (error) {
+    console.warn('Failed to persist prompt templates', error);
+  }
+};
+
+/** Starter templates followed by the user's own, newest first */
+export const listTemplates = (): PromptTemplate[] =>
+  [...STARTER_TEMPLATES, ...loadCustom().sort((a, b) => b.updatedAt - a.updatedAt)];
+
+export const saveTemplate = (template: Pick<PromptTemplate, 'name' | 'mode' | 'body'> & { id?: string }): PromptTemplate => {
+  const custom = loadCustom();
+  const existing = template.id ? custom.find(t => t.id === template.id) : undefined;
+  const now = Date.now();
+  const saved: PromptTemplate = {
+    id: existing?.id ?? crypto.randomUUID(),
+    name: template.name.trim() || 'Untitled template',
+    mode: template.mode,
+    body: template.body,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  storeCustom(existing ? custom.map(t => t.id === saved.id ? saved : t) : [...custom, saved]);
+  return saved;
+};
+
+export const deleteTemplate = (id: string) => {
+  storeCustom(loadCustom().filter(t => t.id !== id));
+};
+
+export const exportTemplatePack = (templates: PromptTemplate[]): Blob => {
+  const pack: TemplatePack = {
+    version: 1,
+    templates: templates.map(({ builtIn, ...template }) => template),
+  };
+  return new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' });
+};
+
+const isTemplate = (value: any): value is PromptTemplate =>
+  !!value && typeof value.name === 'string' && typeof value.body === 'string'
+  && Object.values(GenerationMode).includes(value.mode);
+
+/**
+ * Adds the templates of a JSON pack to the user's library. Templates are matched by id, so importing
+ * the same pack twice updates it in place. Accepts a bare array as well as the exported pack format.
+ */
+export const importTemplatePack = async (file: Blob): Promise<PromptTemplate[]> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error('The template pack is not valid JSON.');
+  }
+  const entries: unknown[] = Array.isArray(parsed) ? parsed : (parsed as TemplatePack)?.templates ?? [];
+  const valid = entries.filter(isTemplate);
+  if (valid.length === 0) throw new Error('No prompt templates were found in this file.');
+  // Starters ship with the app, so re-importing them would only duplicate them as custom templates
+  const userTemplates = valid.filter(t => !(typeof t.id === 'string' && t.id.startsWith('starter-')));
+  if (userTemplates.length === 0) throw new Error('This pack only holds the starter templates, which are already available.');
+
+  const now = Date.now();
+  const custom = loadCustom();
+  const imported = userTemplates.map<PromptTemplate>(t => ({
+    id: typeof t.id === 'string' ? t.id : crypto.randomUUID(),
+    name: t.name,
+    mode: t.mode,
+    body: t.body,
+    createdAt: typeof t.createdAt === 'number' ? t.createdAt : now,
+    updatedAt: now,
+  }));
+  const ids = new Set(imported.map(t => t.id));
+  storeCustom([...custom.filter(t => !ids.has(t.id)), ...imported]);
+  return imported;
+};
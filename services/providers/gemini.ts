@@ -0,0 +1,738 @@
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  GoogleGenAI,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GenerateVideosOperation,
+  Video,
+  VideoGenerationReferenceImage,
+  VideoGenerationReferenceType,
+  Type,
+  Modality,
+  FileState,
+  Part
+} from '@google/genai';
+import { ChatMessage, GenerateVideoParams, GenerationMode, AspectRatio, ImageSize, QuestionType, QuizDifficulty } from '../../types';
+import { EmptyResponseError, SafetyBlockError, classifyError, withRetry } from '../errors';
+import { blobToBase64 } from '../imageFiles';
+import { AIProvider, ChatOptions, ChatResult, GeneratedVideo, LiveSession, LiveSessionOptions, PosterPick, QuizPlan, ScenePlan, SpeechOptions, VideoOperationStatus } from './types';
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'RECITATION'];
+
+/** Throws a SafetyBlockError when either the prompt or the candidate was filtered */
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyBlockError(`Prompt blocked: ${blockReason}.`);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockError(`Response blocked: ${finishReason}.`);
+  }
+};
+
+/** generateContent with typed errors and retries for transient failures */
+const generateContent = (ai: GoogleGenAI, params: GenerateContentParameters) =>
+  withRetry(async () => {
+    const response = await ai.models.generateContent(params);
+    assertNotBlocked(response);
+    return response;
+  });
+
+const startVideoGeneration = async (params: GenerateVideoParams): Promise<string> => {
+  const ai = new GoogleGenAI({apiKey: process.env.API_KEY});
+
+  const config: any = {
+    numberOfVideos: 1,
+    resolution: params.resolution,
+  };
+
+  if (params.mode !== GenerationMode.EXTEND_VIDEO) {
+    config.aspectRatio = params.aspectRatio;
+  }
+
+  const generateVideoPayload: any = {
+    model: params.model,
+    config: config,
+  };
+
+  if (params.prompt) {
+    generateVideoPayload.prompt = params.prompt;
+  }
+
+  if (params.mode === GenerationMode.FRAMES_TO_VIDEO) {
+    if (params.startFrame) {
+      generateVideoPayload.image = {
+        imageBytes: params.startFrame.base64,
+        mimeType: params.startFrame.file.type,
+      };
+    }
+
+    const finalEndFrame = params.isLooping
+      ? params.startFrame
+      : params.endFrame;
+    if (finalEndFrame) {
+      generateVideoPayload.config.lastFrame = {
+        imageBytes: finalEndFrame.base64,
+        mimeType: finalEndFrame.file.type,
+      };
+    }
+  } else if (params.mode === GenerationMode.REFERENCES_TO_VIDEO) {
+    const referenceImagesPayload: VideoGenerationReferenceImage[] = [];
+
+    if (params.referenceImages) {
+      for (const img of params.referenceImages) {
+        referenceImagesPayload.push({
+          image: {
+            imageBytes: img.base64,
+            mimeType: img.file.type,
+          },
+          referenceType: VideoGenerationReferenceType.ASSET,
+        });
+      }
+    }
+
+    if (params.styleImage) {
+      referenceImagesPayload.push({
+        image: {
+          imageBytes: params.styleImage.base64,
+          mimeType: params.styleImage.file.type,
+        },
+        referenceType: VideoGenerationReferenceType.STYLE,
+      });
+    }
+
+    if (referenceImagesPayload.length > 0) {
+      generateVideoPayload.config.referenceImages = referenceImagesPayload;
+    }
+  } else if (params.mode === GenerationMode.EXTEND_VIDEO) {
+    if (params.inputVideoObject) {
+      // Standard extension using Veo's internal video reference
+      generateVideoPayload.video = params.inputVideoObject;
+    } else if (params.lastFrameFromVideo) {
+      // Local file extension fallback: Start a new generation from the last frame of the upload
+      generateVideoPayload.image = {
+        imageBytes: params.lastFrameFromVideo,
+        mimeType: 'image/png',
+      };
+      // For fallback mode, we must specify an aspect ratio
+      generateVideoPayload.config.aspectRatio = params.aspectRatio;
+    } else {
+      throw new Error('An input video or extracted frame is required to extend.');
+    }
+  }
+
+  const operation = await withRetry(() => ai.models.generateVideos(generateVideoPayload));
+  if (!operation.name) throw new EmptyResponseError('Video generation did not return an operation.');
+  return operation.name;
+};
+
+const pollVideoOperation = async (operationName: string): Promise<VideoOperationStatus> => {
+  const ai = new GoogleGenAI({apiKey: process.env.API_KEY});
+  const operation = await withRetry(() => ai.operations.getVideosOperation({
+    operation: Object.assign(new GenerateVideosOperation(), {name: operationName}),
+  }));
+
+  if (!operation.done) return {done: false};
+  if (operation.error) {
+    throw classifyError({message: String(operation.error.message || 'Video generation failed.'), code: operation.error.code});
+  }
+
+  const filteredReasons = operation.response?.raiMediaFilteredReasons;
+  if (operation.response?.raiMediaFilteredCount) {
+    throw new SafetyBlockError(filteredReasons?.join(' ') || 'The generated video was blocked by safety filters.');
+  }
+  const videos = operation.response?.generatedVideos;
+  if (!videos || videos.length === 0 || !videos[0].video) throw new EmptyResponseError('No videos generated.');
+  return {done: true, video: videos[0].video};
+};
+
+const downloadVideo = async (video: Video): Promise<GeneratedVideo> => {
+  const url = decodeURIComponent(video.uri!);
+  const videoBlob = await withRetry(async () => {
+    const res = await fetch(`${url}&key=${process.env.API_KEY}`);
+    if (!res.ok) throw classifyError({message: `Video download failed (${res.statusText})`, status: res.status});
+    return res.blob();
+  });
+  return {objectUrl: URL.createObjectURL(videoBlob), blob: videoBlob, uri: url, video};
+};
+
+/** Educational Script Processor */
+const storyboardCourseScript = async (
+  script: string,
+  level: string,
+): Promise<ScenePlan[]> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const response = await generateContent(ai, {
+    model: 'gemini-3-pro-preview',
+    contents: [{ 
+      parts: [{ 
+        text: `You are an expert e-learning director. 
+        Split the following academic script intended for ${level} level into an ordered storyboard of scenes. Every sentence of the script must belong to exactly one scene, in the original order.
+        
+        For each scene provide:
+        1. title: a short scene title.
+        2. narration: the exact script text covered by the scene.
+        3. directorPrompt: a highly detailed, cinematic, and professional visual prompt for a video generation AI (Veo) that illustrates the narration. Use professional atmospheres, visual metaphors for complex concepts, high production value lighting and NO text on screen.
+        4. durationSeconds: how long the narration takes to read aloud at roughly 150 words per minute.
+        
+        SCRIPT: ${script}` 
+      }] 
+    }],
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            narration: { type: Type.STRING },
+            directorPrompt: { type: Type.STRING },
+            durationSeconds: { type: Type.NUMBER },
+          },
+          required: ['title', 'narration', 'directorPrompt', 'durationSeconds'],
+          propertyOrdering: ['title', 'narration', 'directorPrompt', 'durationSeconds'],
+        },
+      },
+    },
+  });
+
+  const scenes = JSON.parse(response.text || '[]');
+  if (!Array.isArray(scenes) || scenes.length === 0) throw new EmptyResponseError('No scenes returned for the script.');
+  return scenes.map((scene: any) => ({
+    title: scene.title || 'Untitled scene',
+    narration: scene.narration || '',
+    directorPrompt: scene.directorPrompt || 'A cinematic educational documentary scene.',
+    durationSeconds: Math.max(1, Math.round(Number(scene.durationSeconds) || 8)),
+  }));
+};
+
+/** Assessment Generator */
+const generateQuiz = async (script: string, level: string): Promise<QuizPlan[]> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const response = await generateContent(ai, {
+    model: 'gemini-3-pro-preview',
+    contents: [{
+      parts: [{
+        text: `You are an expert instructional designer writing an assessment for learners at the ${level} level.
+        Write a question bank of 6 to 10 questions that checks understanding of the following course script. Mix the question types:
+        - "${QuestionType.MULTIPLE_CHOICE}": exactly 4 options with one correct answer and plausible distractors.
+        - "${QuestionType.TRUE_FALSE}": exactly 2 options, "True" then "False".
+        - "${QuestionType.SHORT_ANSWER}": no options; the answer is a concise model answer.
+
+        For each question provide:
+        1. type: one of the types above.
+        2. prompt: the question text.
+        3. options: the answer options, each with an explanation of why it is correct or why the distractor is wrong.
+        4. correctOption: the zero-based index of the correct option (0 for short answer).
+        5. answer: the correct answer written out in full.
+        6. explanation: a short explanation of the answer that refers back to the script.
+        7. difficulty: "${QuizDifficulty.EASY}", "${QuizDifficulty.MEDIUM}" or "${QuizDifficulty.HARD}", relative to the ${level} level.
+
+        Only ask about content that is in the script.
+
+        SCRIPT: ${script}`
+      }]
+    }],
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            type: { type: Type.STRING, enum: Object.values(QuestionType) },
+            prompt: { type: Type.STRING },
+            options: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  text: { type: Type.STRING },
+                  explanation: { type: Type.STRING },
+                },
+                required: ['text', 'explanation'],
+              },
+            },
+            correctOption: { type: Type.INTEGER },
+            answer: { type: Type.STRING },
+            explanation: { type: Type.STRING },
+            difficulty: { type: Type.STRING, enum: Object.values(QuizDifficulty) },
+          },
+          required: ['type', 'prompt', 'options', 'correctOption', 'answer', 'explanation', 'difficulty'],
+          propertyOrdering: ['type', 'prompt', 'options', 'correctOption', 'answer', 'explanation', 'difficulty'],
+        },
+      },
+    },
+  });
+
+  const questions = JSON.parse(response.text || '[]');
+  if (!Array.isArray(questions) || questions.length === 0) throw new EmptyResponseError('No quiz questions returned for the script.');
+  return questions.map((question: any) => {
+    const type = Object.values(QuestionType).includes(question.type) ? question.type : QuestionType.MULTIPLE_CHOICE;
+    const options = type === QuestionType.SHORT_ANSWER ? [] : (question.options ?? []).map((option: any) => ({
+      text: option.text || '',
+      explanation: option.explanation || '',
+    }));
+    return {
+      type,
+      prompt: question.prompt || '',
+      options,
+      correctOption: Math.min(Math.max(0, Math.round(Number(question.correctOption) || 0)), Math.max(0, options.length - 1)),
+      answer: question.answer || '',
+      explanation: question.explanation || '',
+      difficulty: Object.values(QuizDifficulty).includes(question.difficulty) ? question.difficulty : QuizDifficulty.MEDIUM,
+      academicLevel: level,
+    };
+  });
+};
+
+/** Image Generation & Editing */
+const generateImagePro = async (prompt: string, aspectRatio: AspectRatio, imageSize: ImageSize) => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const response = await generateContent(ai, {
+    model: 'gemini-3-pro-image-preview',
+    contents: { parts: [{ text: prompt }] },
+    config: {
+      imageConfig: { aspectRatio, imageSize }
+    }
+  });
+
+  for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+    if (part.inlineData) {
+      return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    }
+  }
+  throw new EmptyResponseError("No image data in response");
+};
+
+const editImageFlash = async (prompt: string, imageBase64: string, mimeType: string) => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const response = await generateContent(ai, {
+    model: 'gemini-2.5-flash-image',
+    contents: {
+      parts: [
+        { inlineData: { data: imageBase64, mimeType } },
+        { text: prompt }
+      ]
+    }
+  });
+
+  for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+    if (part.inlineData) {
+      return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    }
+  }
+  throw new EmptyResponseError("No edited image data in response");
+};
+
+/** Intelligence tools */
+/** Earlier turns are replayed with their attachments, and their sources are inlined so follow-ups can refer to them */
+const toContent = (message: ChatMessage) => {
+  const sources = message.groundingUrls?.length
+    ? `\n\nSources:\n${message.groundingUrls.map(link => `- ${link.title || link.uri}: ${link.uri}`).join('\n')}`
+    : '';
+  const text = `${message.text || ''}${sources}`;
+  // Gemini rejects empty text parts, so a turn without text carries only its images
+  const parts: any[] = text ? [{ text }] : [];
+  message.images?.forEach(url => {
+    const match = /^data:([^;]+);base64,(.*)$/.exec(url);
+    if (match) parts.push({ inlineData: { mimeType: match[1], data: match[2] } });
+  });
+  return { role: message.role, parts };
+};
+
+const performChat = async (
+  history: ChatMessage[],
+  { summary, useThinking, useSearch, useMaps, includeThoughts, signal, onUpdate }: ChatOptions,
+): Promise<ChatResult> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const model = useThinking ? 'gemini-3-pro-preview' : (useMaps ? 'gemini-2.5-flash' : 'gemini-3-flash-preview');
+
+  const config: any = {};
+  if (summary) {
+    config.systemInstruction = `Earlier turns of this conversation were condensed into the following summary. Treat it as shared context.\n\n${summary}`;
+  }
+  if (useThinking) {
+    config.thinkingConfig = { thinkingBudget: 32768, includeThoughts: !!includeThoughts };
+  }
+  if (signal) config.abortSignal = signal;
+
+  const tools: any[] = [];
+  if (useSearch) tools.push({ googleSearch: {} });
+  if (useMaps) {
+    tools.push({ googleMaps: {} });
+    try {
+      const pos: any = await new Promise((res, rej) => navigator.geolocation.getCurrentPosition(res, rej));
+      config.toolConfig = {
+        retrievalConfig: {
+          latLng: { latitude: pos.coords.latitude, longitude: pos.coords.longitude }
+        }
+      };
+    } catch (e) { console.warn("Geo failed", e); }
+  }
+  
+  if (tools.length > 0) config.tools = tools;
+
+  // Only opening the stream is retried; once tokens have arrived a retry would duplicate them
+  const stream = await withRetry(() => ai.models.generateContentStream({
+    model,
+    contents: history.map(toContent).filter(content => content.parts.length > 0),
+    config
+  }), { signal });
+
+  let text = '';
+  let thoughts = '';
+  let grounding: any[] = [];
+  let stopped = false;
+  try {
+    for await (const chunk of stream) {
+      assertNotBlocked(chunk);
+      const candidate = chunk.candidates?.[0];
+      for (const part of candidate?.content?.parts ?? []) {
+        if (!part.text) continue;
+        if (part.thought) thoughts += part.text;
+        else text += part.text;
+      }
+      if (candidate?.groundingMetadata?.groundingChunks) grounding = candidate.groundingMetadata.groundingChunks;
+      onUpdate?.({ text, thoughts });
+    }
+  } catch (error) {
+    if (!signal?.aborted) throw classifyError(error);
+    stopped = true;
+  }
+  if (signal?.aborted) stopped = true;
+  if (!text && !stopped) throw new EmptyResponseError('The model returned an empty answer.');
+
+  const urls = grounding.map((c: any) => {
+    if (c.web) return { uri: c.web.uri, title: c.web.title };
+    if (c.maps) return { uri: c.maps.uri, title: c.maps.title };
+    return null;
+  }).filter(Boolean) as ChatResult['urls'];
+
+  return { text, urls, thoughts: thoughts || undefined, stopped };
+};
+
+const summarizeConversation = async (messages: ChatMessage[], previousSummary?: string | null) => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const transcript = messages.map(m => {
+    const attachments = m.images?.length ? ` [${m.images.length} attachment(s)]` : '';
+    return `${m.role === 'user' ? 'User' : 'Assistant'}${attachments}: ${m.text}`;
+  }).join('\n\n');
+  const response = await generateContent(ai, {
+    model: 'gemini-3-flash-preview',
+    contents: {
+      parts: [{
+        text: `Update the running summary of a conversation between a user and an assistant.
+        Keep every fact, decision, open question, name, number and source URL that a follow-up question could depend on.
+        Describe attachments briefly. Write compact prose of at most 300 words.
+
+        CURRENT SUMMARY: ${previousSummary || '(none)'}
+
+        NEW TURNS:
+        ${transcript}`
+      }]
+    }
+  });
+  if (!response.text) throw new EmptyResponseError('No conversation summary returned.');
+  return response.text;
+};
+
+/** Audio Tools */
+// Request bodies are capped at 20 MB and base64 adds a third, so larger recordings go through the Files API
+const INLINE_MEDIA_LIMIT = 14 * 1024 * 1024;
+const FILE_POLL_INTERVAL = 2000;
+const FILE_PROCESSING_TIMEOUT = 10 * 60 * 1000; // Long recordings finish well within this; past it the file is stuck
+const UPLOAD_BASE_URL = 'https://generativelanguage.googleapis.com/upload/v1beta/files';
+
+/**
+ * Resumable upload to the Files API. The SDK uploads with fetch, which can't report upload progress,
+ * so the bytes are sent with XHR instead.
+ */
+const uploadFile = async (file: Blob, displayName: string, onProgress?: (progress: number) => void) => {
+  const uploadUrl = await withRetry(async () => {
+    const res = await fetch(`${UPLOAD_BASE_URL}?key=${process.env.API_KEY}`, {
+      method: 'POST',
+      headers: {
+        'X-Goog-Upload-Protocol': 'resumable',
+        'X-Goog-Upload-Command': 'start',
+        'X-Goog-Upload-Header-Content-Length': String(file.size),
+        'X-Goog-Upload-Header-Content-Type': file.type,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ file: { displayName } }),
+    });
+    const url = res.headers.get('x-goog-upload-url');
+    if (!res.ok || !url) throw classifyError({ message: `File upload could not start (${res.statusText})`, status: res.status });
+    return url;
+  });
+
+  const uploaded = await new Promise<{ name: string; uri: string; mimeType: string }>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', uploadUrl);
+    xhr.setRequestHeader('X-Goog-Upload-Offset', '0');
+    xhr.setRequestHeader('X-Goog-Upload-Command', 'upload, finalize');
+    xhr.upload.onprogress = (e) => { if (e.lengthComputable) onProgress?.(e.loaded / e.total); };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        // A proxy or gateway can answer with an HTML page; that must reject rather than throw out of the handler
+        try {
+          resolve(JSON.parse(xhr.responseText).file);
+        } catch (error) {
+          reject(new EmptyResponseError('The file upload returned an unreadable response.', { status: xhr.status, cause: error }));
+        }
+      } else {
+        reject(classifyError({ message: `File upload failed (${xhr.statusText})`, status: xhr.status }));
+      }
+    };
+    xhr.onerror = () => reject(classifyError(new TypeError('Failed to fetch: the file upload was interrupted.')));
+    xhr.send(file);
+  });
+
+  // Video and long audio are processed server-side before they can be referenced
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const discard = () => ai.files.delete({ name: uploaded.name }).catch(() => {});
+  const deadline = Date.now() + FILE_PROCESSING_TIMEOUT;
+  let state = await withRetry(() => ai.files.get({ name: uploaded.name }));
+  while (state.state === FileState.PROCESSING) {
+    if (Date.now() >= deadline) {
+      discard();
+      throw classifyError(new Error('Processing the uploaded file timed out. Try again, or upload a shorter recording.'));
+    }
+    await new Promise(resolve => setTimeout(resolve, FILE_POLL_INTERVAL));
+    state = await withRetry(() => ai.files.get({ name: uploaded.name }));
+  }
+  if (state.state === FileState.FAILED) {
+    discard();
+    throw new EmptyResponseError(state.error?.message || 'The uploaded file could not be processed.');
+  }
+  return uploaded;
+};
+
+const transcribeAudio = async (media: Blob, onUploadProgress?: (progress: number) => void) => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const mimeType = media.type || 'audio/mpeg';
+  const uploaded = media.size > INLINE_MEDIA_LIMIT
+    ? await uploadFile(media, media instanceof File ? media.name : 'recording', onUploadProgress)
+    : null;
+  const mediaPart = uploaded
+    ? { fileData: { fileUri: uploaded.uri, mimeType: uploaded.mimeType || mimeType } }
+    : { inlineData: { data: await blobToBase64(media), mimeType } };
+
+  try {
+    return await transcribeMedia(ai, mediaPart);
+  } finally {
+    // Uploads expire after 48 hours anyway; removing it now keeps the recording off the server
+    if (uploaded) ai.files.delete({ name: uploaded.name }).catch(() => {});
+  }
+};
+
+const transcribeMedia = async (ai: GoogleGenAI, mediaPart: Part) => {
+  const response = await generateContent(ai, {
+    model: 'gemini-3-flash-preview',
+    contents: {
+      parts: [
+        mediaPart,
+        { text: `Transcribe the following audio precisely, word for word.
+        Return one segment per speaker turn, in order, splitting long turns at sentence boundaries so no segment runs
+        past about 30 seconds. Give start and end times in seconds from the beginning of the recording.
+        Label speakers consistently: use a name only when the recording states it, otherwise "Speaker 1", "Speaker 2" and so on.
+        Rate your confidence in each segment's wording from 0 to 1, lower where the audio is unclear or overlapping.` }
+      ]
+    },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            start: { type: Type.NUMBER },
+            end: { type: Type.NUMBER },
+            speaker: { type: Type.STRING },
+            text: { type: Type.STRING },
+            confidence: { type: Type.NUMBER },
+          },
+          required: ['start', 'end', 'speaker', 'text', 'confidence'],
+          propertyOrdering: ['start', 'end', 'speaker', 'text', 'confidence'],
+        },
+      },
+    },
+  });
+
+  const segments = JSON.parse(response.text || '[]');
+  if (!Array.isArray(segments) || segments.length === 0) throw new EmptyResponseError('No speech was found in the recording.');
+  return segments
+    .map((segment: any) => ({
+      start: Math.max(0, Number(segment.start) || 0),
+      end: Number(segment.end) || 0,
+      speaker: String(segment.speaker || '').trim() || 'Speaker 1',
+      text: String(segment.text || '').trim(),
+      confidence: Math.min(1, Math.max(0, Number(segment.confidence) || 0)),
+    }))
+    .filter(segment => segment.text && segment.end > segment.start);
+};
+
+const transcribeCaptions = async (base64: string, mimeType: string) => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const response = await generateContent(ai, {
+    model: 'gemini-3-flash-preview',
+    contents: {
+      parts: [
+        { inlineData: { data: base64, mimeType } },
+        { text: `Transcribe all speech in this video as closed captions.
+        Return one entry per caption cue, in order. Each cue holds at most two short lines of text (under 90 characters) and
+        uses start and end times in seconds from the beginning of the video, matching when the words are spoken.
+        Describe meaningful non-speech sounds in square brackets, e.g. [music], only where there is no speech.` }
+      ]
+    },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            start: { type: Type.NUMBER },
+            end: { type: Type.NUMBER },
+            text: { type: Type.STRING },
+          },
+          required: ['start', 'end', 'text'],
+          propertyOrdering: ['start', 'end', 'text'],
+        },
+      },
+    },
+  });
+
+  const cues = JSON.parse(response.text || '[]');
+  if (!Array.isArray(cues) || cues.length === 0) throw new EmptyResponseError('No speech was found in the video.');
+  return cues
+    .map((cue: any) => ({ start: Math.max(0, Number(cue.start) || 0), end: Number(cue.end) || 0, text: String(cue.text || '').trim() }))
+    .filter(cue => cue.text && cue.end > cue.start);
+};
+
+const pickPosterFrame = async (framesBase64: string[], context?: string): Promise<PosterPick> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const response = await generateContent(ai, {
+    model: 'gemini-3-flash-preview',
+    contents: {
+      parts: [
+        ...framesBase64.flatMap((data, i) => [
+          { text: `Frame ${i}:` },
+          { inlineData: { data, mimeType: 'image/jpeg' } },
+        ]),
+        { text: `These frames are sampled from one video${context ? ` about: ${context}` : ''}.
+        Choose the single frame that works best as its poster image in a course listing: it should represent the subject
+        clearly and look attractive, so prefer sharp, well-composed, well-lit frames and avoid motion blur, fades,
+        transitions and awkward expressions. Return its number and a one-sentence reason.` }
+      ]
+    },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          index: { type: Type.INTEGER },
+          reason: { type: Type.STRING },
+        },
+        required: ['index', 'reason'],
+        propertyOrdering: ['index', 'reason'],
+      },
+    },
+  });
+
+  const pick = JSON.parse(response.text || '{}');
+  const index = Number(pick.index);
+  if (!Number.isInteger(index) || index < 0 || index >= framesBase64.length) {
+    throw new EmptyResponseError('The model did not choose a frame.');
+  }
+  return { index, reason: String(pick.reason || '').trim() };
+};
+
+const DEFAULT_VOICE = 'Kore';
+
+const generateSpeech = async (text: string, { voiceName, speakers, style }: SpeechOptions = {}) => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const isDialogue = !!speakers && speakers.length > 1;
+  // Delivery directions are read as instructions, not spoken, when they lead the prompt
+  const direction = isDialogue
+    ? `TTS the following conversation between ${speakers.map(s => s.speaker).join(' and ')}.${style ? ` ${style}` : ''}`
+    : style;
+  const response = await generateContent(ai, {
+    model: "gemini-2.5-flash-preview-tts",
+    contents: [{ parts: [{ text: direction ? `${direction}\n\n${text}` : text }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: isDialogue
+        ? {
+            multiSpeakerVoiceConfig: {
+              speakerVoiceConfigs: speakers.map(({ speaker, voiceName }) => ({
+                speaker,
+                voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+              })),
+            },
+          }
+        : { voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceName ?? speakers?.[0]?.voiceName ?? DEFAULT_VOICE } } },
+    },
+  });
+
+  const base64 = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!base64) throw new EmptyResponseError("No speech audio returned");
+  return base64;
+};
+
+/** Live API */
+const connectLive = async ({voiceName, systemInstruction, onOpen, onAudio, onTranscription, onClose, onError}: LiveSessionOptions): Promise<LiveSession> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const session = await ai.live.connect({
+    model: 'gemini-2.5-flash-native-audio-preview-12-2025',
+    callbacks: {
+      onopen: onOpen,
+      onmessage: (message) => {
+        const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+        if (audioData) onAudio(audioData);
+        if (message.serverContent?.outputTranscription?.text) {
+          onTranscription('gemini', message.serverContent.outputTranscription.text);
+        }
+        if (message.serverContent?.inputTranscription?.text) {
+          onTranscription('user', message.serverContent.inputTranscription.text);
+        }
+      },
+      onclose: onClose,
+      onerror: (e) => onError(classifyError(new Error(e.message || 'The live session failed.'))),
+    },
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+      systemInstruction,
+    }
+  });
+
+  return {
+    sendAudio: (data) => session.sendRealtimeInput({ media: { data, mimeType: 'audio/pcm;rate=16000' } }),
+    close: () => session.close(),
+  };
+};
+
+export const geminiProvider: AIProvider = {
+  name: 'gemini',
+  startVideoGeneration,
+  pollVideoOperation,
+  downloadVideo,
+  storyboardCourseScript,
+  generateQuiz,
+  generateImage: generateImagePro,
+  editImage: editImageFlash,
+  chat: performChat,
+  summarizeConversation,
+  transcribeAudio,
+  transcribeCaptions,
+  pickPosterFrame,
+  generateSpeech,
+  connectLive,
+};
@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { geminiProvider } from './gemini';
+import { mockProvider } from './mock';
+import { AIProvider } from './types';
+
+export * from './types';
+
+const providers: Record<string, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+let activeProvider: AIProvider = providers[process.env.AI_PROVIDER || 'gemini'] ?? geminiProvider;
+
+/** The backend selected with the AI_PROVIDER env variable ('gemini' by default, or 'mock' to run offline) */
+export const getProvider = () => activeProvider;
+
+/** Swaps the backend at runtime, e.g. to run the labs against the mock in tests and demos */
+export const setProvider = (provider: AIProvider) => {
+  activeProvider = provider;
+};
+
+export const isMockProvider = () => activeProvider.name === mockProvider.name;
@@ -0,0 +1,369 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Video } from '@google/genai';
+import { AspectRatio, ChatMessage, GenerateVideoParams, ImageSize, QuestionType, QuizDifficulty } from '../../types';
+import { PCM_SAMPLE_RATE, decodeBase64, encodeBase64 } from '../audioUtils';
+import { parseSpeakerScript } from '../voices';
+import { AIProvider, ChatOptions, ChatResult, GeneratedVideo, LiveSession, LiveSessionOptions, PosterPick, QuizPlan, ScenePlan, SpeechOptions, VideoOperationStatus } from './types';
+
+// Deterministic stand-ins for every model call so the labs can be demoed and exercised without an API key.
+
+const MOCK_LATENCY = 400;
+const MOCK_RENDER_TIME = 6000;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** FNV-1a, so the same prompt always produces the same output */
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const aspectDimensions = (aspectRatio: string, longEdge: number) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  if (!w || !h) return {width: longEdge, height: longEdge};
+  return w >= h
+    ? {width: longEdge, height: Math.round(longEdge * h / w)}
+    : {width: Math.round(longEdge * w / h), height: longEdge};
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return {canvas, ctx: canvas.getContext('2d')!};
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+/** Paints a seeded gradient card with the prompt on it. `phase` animates the gradient for video frames. */
+const paintCard = (ctx: CanvasRenderingContext2D, width: number, height: number, seed: number, label: string, phase = 0) => {
+  const hue = seed % 360;
+  const angle = phase * Math.PI * 2;
+  const gradient = ctx.createLinearGradient(
+    width / 2 - Math.cos(angle) * width / 2, height / 2 - Math.sin(angle) * height / 2,
+    width / 2 + Math.cos(angle) * width / 2, height / 2 + Math.sin(angle) * height / 2,
+  );
+  gradient.addColorStop(0, `hsl(${hue}, 70%, 35%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60 + (seed >> 9) % 120) % 360}, 70%, 15%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.08)';
+  for (let i = 0; i < 6; i++) {
+    const r = ((seed >> i) % 100 / 100) * Math.min(width, height) * 0.3 + 20;
+    const x = (((seed >> (i * 3)) % 1000) / 1000 * width + phase * width * (i % 2 ? 1 : -1) + width) % width;
+    const y = ((seed >> (i * 2)) % 1000) / 1000 * height;
+    ctx.beginPath();
+    ctx.arc(x, y, r, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  const fontSize = Math.max(14, Math.round(Math.min(width, height) / 18));
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const lines = wrapText(ctx, label || 'Mock output', width * 0.8).slice(0, 4);
+  lines.forEach((text, i) => ctx.fillText(text, width / 2, height / 2 + (i - (lines.length - 1) / 2) * fontSize * 1.3));
+
+  ctx.font = `${Math.round(fontSize * 0.6)}px monospace`;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+  ctx.fillText('MOCK PROVIDER', width / 2, height - fontSize);
+};
+
+/** Mono 16-bit PCM of a soft tone that pulses once per word, so speech-shaped audio has a plausible length */
+const synthesizeTone = (text: string, voiceName = '', sampleRate = PCM_SAMPLE_RATE) => {
+  const words = Math.max(1, text.split(/\s+/).filter(Boolean).length);
+  const wordSeconds = 0.35;
+  const samples = new Int16Array(Math.round(words * wordSeconds * sampleRate));
+  const frequency = 180 + hashString(voiceName + text) % 120;
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / sampleRate;
+    const envelope = Math.sin(Math.PI * ((t % wordSeconds) / wordSeconds));
+    samples[i] = Math.round(Math.sin(2 * Math.PI * frequency * t) * envelope * 0.25 * 32767);
+  }
+  return encodeBase64(new Uint8Array(samples.buffer));
+};
+
+// One-second VP8 clips of a flat card, canned so videos need neither a canvas nor MediaRecorder and tests can run headless
+const MOCK_CLIPS = {
+  landscape: 'GkXfowEAAAAAAAAfQoaBAUL3gQFC8oEEQvOBCEKChHdlYm1Ch4ECQoWBAhhTgGcBAAAAAAADSRFNm3RAO027i1OrhBVJqWZTrIHlTbuMU6uEFlSua1OsggERTbuMU6uEElTDZ1OsggFYTbuMU6uEHFO7a1OsggMs7AEAAAAAAACbAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAVSalmAQAAAAAAACAq17GDD0JATYCETGF2ZldBhExhdmZEiYhAj0AAAAAAABZUrmsBAAAAAAAAO64BAAAAAAAAMteBAXPFgQGcgQAitZyDdW5khoVWX1ZQOIOBASPjg4QF9eEA4AEAAAAAAAAGsIGguoFaElTDZwEAAAAAAAB+c3MBAAAAAAAAMGPAAQAAAAAAAARjxYEBZ8gBAAAAAAAAGEWjh0VOQ09ERVJEh4tMYXZjIGxpYnZweHNzAQAAAAAAADpjwAEAAAAAAAAEY8WBAWfIAQAAAAAAACJFo4hEVVJBVElPTkSHlDAwOjAwOjAxLjAwMDAwMDAwMAAAH0O2dQEAAAAAAAE+54EAo9CBAACAcAUAnQEqoABaAABHCIWFiIWEiAICAnTyQOgsaqk13EOqpNdxDqqTXcQ6qk13EOqpNdxDpgD+/qV0//iQv/+JC//4kL/xIXXFzZDeAKOYgQBkABECAAEQEAAYABhYL/QACICBAAAAo5iBAMgAEQIAARAQABgAGFgv9AAIgIEAAACjmIEBLAARAgABEBAAGAAYWC/0AAiAgQAAAKOYgQGQABECAAEQEAAYABhYL/QACICBAAAAo5iBAfQAEQIAARAQABgAGFgv9AAIgIEAAACjmIECWAARAgABEBAAGAAYWC/0AAiAgQAAAKOXgQK8APEBAAEQEBRgAGFgv9AAIgIEAACjmIEDIAARAgABEBAAGAAYWC/0AAiAgQAAAKOYgQOEABECAAEQEAAYABhYL/QACICBAAAAHFO7awEAAAAAAAARu4+zgQC3iveBAfGCAeLwgQM=',
+  portrait: 'GkXfowEAAAAAAAAfQoaBAUL3gQFC8oEEQvOBCEKChHdlYm1Ch4ECQoWBAhhTgGcBAAAAAAADSRFNm3RAO027i1OrhBVJqWZTrIHlTbuMU6uEFlSua1OsggERTbuMU6uEElTDZ1OsggFYTbuMU6uEHFO7a1OsggMs7AEAAAAAAACbAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAVSalmAQAAAAAAACAq17GDD0JATYCETGF2ZldBhExhdmZEiYhAj0AAAAAAABZUrmsBAAAAAAAAO64BAAAAAAAAMteBAXPFgQGcgQAitZyDdW5khoVWX1ZQOIOBASPjg4QF9eEA4AEAAAAAAAAGsIFauoGgElTDZwEAAAAAAAB+c3MBAAAAAAAAMGPAAQAAAAAAAARjxYEBZ8gBAAAAAAAAGEWjh0VOQ09ERVJEh4tMYXZjIGxpYnZweHNzAQAAAAAAADpjwAEAAAAAAAAEY8WBAWfIAQAAAAAAACJFo4hEVVJBVElPTkSHlDAwOjAwOjAxLjAwMDAwMDAwMAAAH0O2dQEAAAAAAAE+54EAo9CBAACAcAUAnQEqWgCgAABHCIWFiIWEiAICAnTyQOgsaqk13EOqpNdxDqqTXcQ6qk13EOqpNdxDpgD+/qV0//iQv/+JC//4kL/xIXXFzZDeAKOYgQBkABECAAEQEAAYABhYL/QACIVrYAAAo5iBAMgAEQIAARAQABgAGFgv9AAIhWtgAACjmIEBLAARAgABEBAAGAAYWC/0AAiFa2AAAKOYgQGQABECAAEQEAAYABhYL/QACIVrYAAAo5iBAfQAEQIAARAQABgAGFgv9AAIhWtgAACjmIECWAARAgABEBAAGAAYWC/0AAiFa2AAAKOXgQK8APEBAAEQEBRgAGFgv9AAIhWtgACjmIEDIAARAgABEBAAGAAYWC/0AAiFa2AAAKOYgQOEABECAAEQEAAYABhYL/QACIVrYAAAHFO7awEAAAAAAAARu4+zgQC3iveBAfGCAeLwgQM=',
+};
+
+const startVideoGeneration = async (params: GenerateVideoParams): Promise<string> => {
+  await delay(MOCK_LATENCY);
+  return `mock-operations/${hashString(params.prompt)}-${params.aspectRatio.replace(':', 'x')}-${Date.now()}`;
+};
+
+const pollVideoOperation = async (operationName: string): Promise<VideoOperationStatus> => {
+  await delay(MOCK_LATENCY);
+  const startedAt = Number(operationName.split('-').pop());
+  if (Date.now() - startedAt < MOCK_RENDER_TIME) return {done: false};
+  return {done: true, video: {uri: operationName, mimeType: 'video/webm'}};
+};
+
+const downloadVideo = async (video: Video): Promise<GeneratedVideo> => {
+  const uri = video.uri ?? 'mock-operations/0-16x9-0';
+  const [, aspect] = uri.replace('mock-operations/', '').split('-');
+  const {width, height} = aspectDimensions(aspect.replace('x', ':'), 640);
+  const blob = new Blob([decodeBase64(MOCK_CLIPS[width >= height ? 'landscape' : 'portrait'])], {type: 'video/webm'});
+  return {objectUrl: URL.createObjectURL(blob), blob, uri, video};
+};
+
+const storyboardCourseScript = async (script: string, level: string): Promise<ScenePlan[]> => {
+  await delay(MOCK_LATENCY);
+  const sentences = script.match(/[^.!?\n]+[.!?]*/g)?.map(s => s.trim()).filter(Boolean) ?? [];
+  const perScene = Math.max(1, Math.ceil(sentences.length / 6));
+  const scenes: ScenePlan[] = [];
+  for (let i = 0; i < sentences.length; i += perScene) {
+    const narration = sentences.slice(i, i + perScene).join(' ');
+    const words = narration.split(/\s+/).length;
+    scenes.push({
+      title: narration.split(/\s+/).slice(0, 5).join(' ').replace(/[.,!?;:]+$/, ''),
+      narration,
+      directorPrompt: `A clean ${level.toLowerCase()}-level explainer shot illustrating: ${narration}`,
+      durationSeconds: Math.min(8, Math.max(4, Math.round(words / 2.5))),
+    });
+  }
+  return scenes;
+};
+
+const generateQuiz = async (script: string, level: string): Promise<QuizPlan[]> => {
+  await delay(MOCK_LATENCY);
+  const sentences = script.match(/[^.!?\n]+[.!?]*/g)?.map(s => s.trim()).filter(s => s.split(/\s+/).length >= 4) ?? [];
+  if (sentences.length === 0) sentences.push(script.trim() || 'The script is empty.');
+  const difficulties = Object.values(QuizDifficulty);
+
+  return sentences.slice(0, 6).map((sentence, i): QuizPlan => {
+    const words = sentence.replace(/[.!?]+$/, '').split(/\s+/);
+    const keyword = [...words].sort((a, b) => b.length - a.length)[0];
+    const difficulty = difficulties[i % difficulties.length];
+    const explanation = `The script states: "${sentence}"`;
+
+    if (i % 3 === 1) {
+      return {
+        type: QuestionType.TRUE_FALSE,
+        prompt: `True or false: ${sentence}`,
+        options: [
+          {text: 'True', explanation: 'Correct, this is stated in the script.'},
+          {text: 'False', explanation: 'The script states this directly.'},
+        ],
+        correctOption: 0,
+        answer: 'True',
+        explanation,
+        difficulty,
+        academicLevel: level,
+      };
+    }
+    if (i % 3 === 2) {
+      return {
+        type: QuestionType.SHORT_ANSWER,
+        prompt: `Fill in the blank: ${words.map(w => w === keyword ? '_____' : w).join(' ')}`,
+        options: [],
+        correctOption: 0,
+        answer: keyword,
+        explanation,
+        difficulty,
+        academicLevel: level,
+      };
+    }
+    const distractors = ['None of the above', 'It is not covered', 'The opposite is true'];
+    return {
+      type: QuestionType.MULTIPLE_CHOICE,
+      prompt: `Which word completes the statement? ${words.map(w => w === keyword ? '_____' : w).join(' ')}`,
+      options: [
+        {text: keyword, explanation: 'Correct, this is the word used in the script.'},
+        ...distractors.map(text => ({text, explanation: 'Mock distractor that does not match the script.'})),
+      ],
+      correctOption: 0,
+      answer: keyword,
+      explanation,
+      difficulty,
+      academicLevel: level,
+    };
+  });
+};
+
+const generateImage = async (prompt: string, aspectRatio: AspectRatio, imageSize: ImageSize) => {
+  await delay(MOCK_LATENCY);
+  const longEdge = {[ImageSize.K1]: 1024, [ImageSize.K2]: 2048, [ImageSize.K4]: 4096}[imageSize] ?? 1024;
+  const {width, height} = aspectDimensions(aspectRatio, longEdge);
+  const {canvas, ctx} = createCanvas(width, height);
+  paintCard(ctx, width, height, hashString(prompt), prompt);
+  return canvas.toDataURL('image/png');
+};
+
+const editImage = async (prompt: string, imageBase64: string, mimeType: string) => {
+  const image = new Image();
+  image.src = `data:${mimeType};base64,${imageBase64}`;
+  await image.decode();
+  const {canvas, ctx} = createCanvas(image.naturalWidth, image.naturalHeight);
+  ctx.drawImage(image, 0, 0);
+  ctx.fillStyle = `hsla(${hashString(prompt) % 360}, 70%, 50%, 0.25)`;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  const fontSize = Math.max(14, Math.round(canvas.height / 24));
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(0, canvas.height - fontSize * 2, canvas.width, fontSize * 2);
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  ctx.fillStyle = '#fff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(prompt.slice(0, 80), canvas.width / 2, canvas.height - fontSize);
+  return canvas.toDataURL('image/png');
+};
+
+const chat = async (
+  history: ChatMessage[],
+  {summary, useThinking, useSearch, useMaps, includeThoughts, signal, onUpdate}: ChatOptions,
+): Promise<ChatResult> => {
+  await delay(MOCK_LATENCY);
+  const last = history[history.length - 1];
+  const images = last?.images?.length ?? 0;
+  const modes = [useThinking && 'thinking', useSearch && 'search', useMaps && 'maps'].filter(Boolean);
+  const answer = [
+    `This is a mock response to: "${last?.text ?? ''}"`,
+    images > 0 ? `I received ${images} image${images === 1 ? '' : 's'}.` : '',
+    `I can see ${history.length - 1} earlier message${history.length === 2 ? '' : 's'}${summary ? ' and a summary of older turns' : ''}.`,
+    modes.length > 0 ? `Enabled tools: ${modes.join(', ')}.` : '',
+    'Set AI_PROVIDER=gemini to talk to the real model.',
+  ].filter(Boolean).join('\n\n');
+  const thoughts = useThinking && includeThoughts ? '**Reading the question**\n\nThe mock provider pretends to think before answering.' : '';
+  const urls = useSearch || useMaps ? [{uri: 'https://example.com/mock-source', title: 'Mock grounding source'}] : [];
+
+  // Stream word by word so the UI can be exercised without the API
+  let text = '';
+  for (const token of answer.split(/(?<=\s)/)) {
+    if (signal?.aborted) return {text, urls: [], thoughts: thoughts || undefined, stopped: true};
+    text += token;
+    onUpdate?.({text, thoughts});
+    await delay(30);
+  }
+  return {text, urls, thoughts: thoughts || undefined, stopped: false};
+};
+
+const summarizeConversation = async (messages: ChatMessage[], previousSummary?: string | null) => {
+  await delay(MOCK_LATENCY);
+  const topics = messages.filter(m => m.role === 'user').map(m => m.text.split(/\s+/).slice(0, 8).join(' '));
+  return [previousSummary, `The user asked about: ${topics.join('; ')}.`].filter(Boolean).join(' ');
+};
+
+const transcribeAudio = async (media: Blob, onUploadProgress?: (progress: number) => void) => {
+  // Walks the progress bar the way a Files API upload would
+  for (let step = 1; step <= 4; step++) {
+    await delay(MOCK_LATENCY / 4);
+    onUploadProgress?.(step / 4);
+  }
+  const seconds = Math.round(media.size / 16000);
+  const lines = [
+    `Mock transcript of a ${media.type || 'media'} recording, about ${seconds}s of data.`,
+    'The quick brown fox jumps over the lazy dog.',
+    'And the second speaker answers here.',
+  ];
+  return lines.map((text, i) => ({
+    start: i * 4,
+    end: i * 4 + 3.5,
+    speaker: `Speaker ${i === 2 ? 2 : 1}`,
+    text,
+    confidence: i === 1 ? 0.55 : 0.95,
+  }));
+};
+
+const transcribeCaptions = async (base64: string, mimeType: string) => {
+  await delay(MOCK_LATENCY);
+  const lines = ['[mock captions]', `A ${mimeType} clip was received.`, 'Edit these cues to match the video.'];
+  return lines.map((text, i) => ({start: i * 2.5, end: i * 2.5 + 2.3, text}));
+};
+
+const pickPosterFrame = async (framesBase64: string[]): Promise<PosterPick> => {
+  await delay(MOCK_LATENCY);
+  return {index: Math.floor(framesBase64.length / 2), reason: '[mock] The middle frame was picked.'};
+};
+
+const generateSpeech = async (text: string, {voiceName, speakers}: SpeechOptions = {}) => {
+  await delay(MOCK_LATENCY);
+  if (!speakers?.length) return synthesizeTone(text, voiceName);
+  // Each line gets its speaker's pitch so dialogue is audibly two voices
+  const voices = new Map(speakers.map(s => [s.speaker, s.voiceName]));
+  const parts = parseSpeakerScript(text).lines.map(line => decodeBase64(synthesizeTone(line.text, voices.get(line.speaker))));
+  const pcm = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    pcm.set(part, offset);
+    offset += part.length;
+  }
+  return encodeBase64(pcm);
+};
+
+const connectLive = async ({onOpen, onAudio, onTranscription, onClose}: LiveSessionOptions): Promise<LiveSession> => {
+  await delay(MOCK_LATENCY);
+  let closed = false;
+  let receivedBytes = 0;
+  const reply = (text: string) => {
+    if (closed) return;
+    onTranscription('gemini', text);
+    onAudio(synthesizeTone(text));
+  };
+
+  setTimeout(() => {
+    onOpen();
+    reply('Hi! This is the mock live session. Speak and I will answer every few seconds.');
+  }, 0);
+
+  return {
+    sendAudio: (data) => {
+      if (closed) return;
+      // 16kHz 16-bit mono: roughly four seconds of microphone audio per reply
+      receivedBytes += data.length * 0.75;
+      if (receivedBytes >= 16000 * 2 * 4) {
+        receivedBytes = 0;
+        onTranscription('user', '(mock) microphone audio received');
+        reply('Thanks, I heard you. This is a canned mock reply.');
+      }
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      onClose();
+    },
+  };
+};
+
+export const mockProvider: AIProvider = {
+  name: 'mock',
+  startVideoGeneration,
+  pollVideoOperation,
+  downloadVideo,
+  storyboardCourseScript,
+  generateQuiz,
+  generateImage,
+  editImage,
+  chat,
+  summarizeConversation,
+  transcribeAudio,
+  transcribeCaptions,
+  pickPosterFrame,
+  generateSpeech,
+  connectLive,
+};
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Video } from '@google/genai';
+import { AspectRatio, CaptionCue, ChatMessage, CourseScene, GenerateVideoParams, ImageSize, QuizQuestion, TranscriptSegment } from '../../types';
+
+export interface GeneratedVideo {
+  objectUrl: string;
+  blob: Blob;
+  uri: string;
+  video: Video;
+}
+
+export interface VideoOperationStatus {
+  done: boolean;
+  video?: Video;
+}
+
+export type ScenePlan = Pick<CourseScene, 'title' | 'narration' | 'directorPrompt' | 'durationSeconds'>;
+
+export type QuizPlan = Omit<QuizQuestion, 'id'>;
+
+export interface PosterPick {
+  index: number; // Position in the candidate list
+  reason: string;
+}
+
+export interface SpeechSpeaker {
+  speaker: string; // Name used to tag the speaker's lines in the text, e.g. 'Teacher'
+  voiceName: string;
+}
+
+export interface SpeechOptions {
+  voiceName?: string; // Single-speaker voice; the provider's default when omitted
+  speakers?: SpeechSpeaker[]; // Exactly two for a dialogue; overrides voiceName
+  style?: string; // Natural-language delivery direction: pace, tone, emphasis
+}
+
+export interface ChatOptions {
+  summary?: string | null; // Summary of turns that were dropped from `history`
+  useThinking: boolean;
+  useSearch: boolean;
+  useMaps: boolean;
+  includeThoughts?: boolean; // Ask for thought summaries when thinking is on
+  signal?: AbortSignal; // Aborting resolves with the partial answer rather than rejecting
+  onUpdate?: (partial: {text: string; thoughts: string}) => void; // Called as streamed tokens arrive
+}
+
+export interface ChatResult {
+  text: string | undefined;
+  urls: {uri: string; title: string}[];
+  thoughts?: string;
+  stopped?: boolean; // The stream was aborted before the model finished
+}
+
+export interface LiveSessionOptions {
+  voiceName: string;
+  systemInstruction: string;
+  onOpen: () => void;
+  onAudio: (base64Pcm: string) => void; // 24kHz 16-bit mono PCM
+  onTranscription: (role: 'user' | 'gemini', text: string) => void;
+  onClose: () => void;
+  onError: (error: Error) => void;
+}
+
+export interface LiveSession {
+  sendAudio: (base64Pcm: string) => void; // 16kHz 16-bit mono PCM
+  close: () => void;
+}
+
+/** Everything the labs need from a model backend */
+export interface AIProvider {
+  readonly name: string;
+  /** Submits a video generation and returns an operation name that can be polled, even after a reload */
+  startVideoGeneration(params: GenerateVideoParams): Promise<string>;
+  pollVideoOperation(operationName: string): Promise<VideoOperationStatus>;
+  downloadVideo(video: Video): Promise<GeneratedVideo>;
+  storyboardCourseScript(script: string, level: string): Promise<ScenePlan[]>;
+  /** Builds a question bank with answer keys from a course script */
+  generateQuiz(script: string, level: string): Promise<QuizPlan[]>;
+  /** Image results are data URLs */
+  generateImage(prompt: string, aspectRatio: AspectRatio, imageSize: ImageSize): Promise<string>;
+  editImage(prompt: string, imageBase64: string, mimeType: string): Promise<string>;
+  /** Streams an answer to the last message of `history`, which must be a user turn */
+  chat(history: ChatMessage[], options: ChatOptions): Promise<ChatResult>;
+  /** Folds older turns into a running summary so long conversations fit the context budget */
+  summarizeConversation(messages: ChatMessage[], previousSummary?: string | null): Promise<string>;
+  /**
+   * Timed, speaker-labelled transcription of an audio or video recording. Providers upload large files
+   * out of band and report the upload through `onUploadProgress` (0-1).
+   */
+  transcribeAudio(media: Blob, onUploadProgress?: (progress: number) => void): Promise<Omit<TranscriptSegment, 'id'>[]>;
+  /** Timed transcription of the speech in a video, as caption cues */
+  transcribeCaptions(base64: string, mimeType: string): Promise<Omit<CaptionCue, 'id'>[]>;
+  /** Chooses the most representative and attractive of several base64 JPEG frames, for use as a poster */
+  pickPosterFrame(framesBase64: string[], context?: string): Promise<PosterPick>;
+  /** Returns base64 24kHz 16-bit mono PCM */
+  generateSpeech(text: string, options?: SpeechOptions): Promise<string>;
+  connectLive(options: LiveSessionOptions): Promise<LiveSession>;
+}
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CaptionCue, TranscriptSegment } from '../types';
+import { cuesToSrt, cuesToVtt } from './captions';
+
+export type TranscriptFormat = 'srt' | 'vtt' | 'txt' | 'doc';
+
+/** Segments the model rated below this are flagged for review */
+export const LOW_CONFIDENCE = 0.6;
+
+const mimeTypes: Record<TranscriptFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  txt: 'text/plain',
+  doc: 'application/msword', // HTML that Word opens and can save as .docx
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** h:mm:ss, or m:ss for recordings under an hour */
+export const formatClock = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+export const transcriptSpeakers = (segments: TranscriptSegment[]) => [...new Set(segments.map(segment => segment.speaker))];
+
+// Only name the speaker when there is more than one, so a single-voice lecture reads like plain captions
+const toCues = (segments: TranscriptSegment[]): CaptionCue[] => {
+  const named = transcriptSpeakers(segments).length > 1;
+  return segments.map(({ id, start, end, speaker, text }) => ({ id, start, end, text, speaker: named ? speaker : undefined }));
+};
+
+// Consecutive segments from one speaker read as a single paragraph
+const speakerTurns = (segments: TranscriptSegment[]) =>
+  segments.reduce<{ speaker: string; start: number; text: string[] }[]>((turns, segment) => {
+    const last = turns[turns.length - 1];
+    if (last?.speaker === segment.speaker) last.text.push(segment.text);
+    else turns.push({ speaker: segment.speaker, start: segment.start, text: [segment.text] });
+    return turns;
+  }, []);
+
+export const transcriptToText = (segments: TranscriptSegment[]) =>
+  speakerTurns(segments)
+    .map(turn => `[${formatClock(turn.start)}] ${turn.speaker}: ${turn.text.join(' ')}`)
+    .join('\n\n');
+
+export const transcriptToHtml = (segments: TranscriptSegment[], title: string) => `<html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: Calibri, Arial, sans-serif; font-size: 11pt; }
+.time { color: #888888; font-size: 9pt; }
+.speaker { font-weight: bold; }
+.unclear { background: #fff2cc; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${speakerTurns(segments).map(turn =>
+  `<p><span class="time">[${formatClock(turn.start)}]</span> <span class="speaker">${escapeHtml(turn.speaker)}:</span> ${escapeHtml(turn.text.join(' '))}</p>`
+).join('\n')}
+${segments.some(segment => segment.confidence < LOW_CONFIDENCE)
+  ? `<p class="time">Passages the transcription flagged as unclear: ${segments.filter(segment => segment.confidence < LOW_CONFIDENCE).map(segment => formatClock(segment.start)).join(', ')}</p>`
+  : ''}
+</body>
+</html>
+`;
+
+export const transcriptToBlob = (segments: TranscriptSegment[], format: TranscriptFormat, title: string) => {
+  const content = {
+    srt: () => cuesToSrt(toCues(segments)),
+    vtt: () => cuesToVtt(toCues(segments)),
+    txt: () => transcriptToText(segments),
+    doc: () => transcriptToHtml(segments, title),
+  }[format]();
+  return new Blob([content], { type: mimeTypes[format] });
+};
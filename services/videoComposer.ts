@@ -0,0 +1,312 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ClipFitMode } from '../types';
+import { transcodeToMp4 } from './mp4Encoder';
+
+export type ComposeFormat = 'webm' | 'mp4';
+
+export interface ComposeSegment {
+  src: string; // Object URL of the clip
+  duration: number; // Seconds this segment occupies in the output
+  fit: ClipFitMode;
+  audio?: AudioBuffer | null; // Played over the segment in place of the clip's own sound
+}
+
+export interface ComposeOptions {
+  width?: number;
+  height?: number;
+  format?: ComposeFormat;
+  onProgress?: (progress: number, segmentIndex: number) => void;
+}
+
+const recorderMimeTypes: Record<ComposeFormat, string[]> = {
+  webm: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'],
+  mp4: ['video/mp4;codecs=avc1,mp4a', 'video/mp4'],
+};
+
+export const getRecorderMimeType = (format: ComposeFormat) =>
+  recorderMimeTypes[format].find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+
+const waitForEvent = (target: HTMLMediaElement, event: string) =>
+  new Promise<void>((resolve, reject) => {
+    const onEvent = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error('Failed to load clip for composition.')); };
+    const cleanup = () => {
+      target.removeEventListener(event, onEvent);
+      target.removeEventListener('error', onError);
+    };
+    target.addEventListener(event, onEvent);
+    target.addEventListener('error', onError);
+  });
+
+// Partially transparent frames are layered over whatever is already on the canvas
+const drawContained = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, width: number, height: number, alpha = 1) => {
+  if (video.readyState < 2 || !video.videoWidth) return;
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const w = video.videoWidth * scale;
+  const h = video.videoHeight * scale;
+  if (alpha >= 1) {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.globalAlpha = alpha;
+  ctx.drawImage(video, (width - w) / 2, (height - h) / 2, w, h);
+  ctx.globalAlpha = 1;
+};
+
+/**
+ * Plays clips back-to-back onto a canvas and records it together with the segment audio.
+ * Rendering happens in real time, so the tab needs to stay visible until it resolves.
+ */
+export const composeVideo = async (
+  segments: ComposeSegment[],
+  { width = 1280, height = 720, format = 'webm', onProgress }: ComposeOptions = {},
+): Promise<Blob> => {
+  const mimeType = getRecorderMimeType(format);
+  if (!mimeType) throw new Error(`This browser cannot record ${format.toUpperCase()} video.`);
+  if (segments.length === 0) throw new Error('Nothing to compose.');
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+
+  const audioCtx = new AudioContext();
+  const audioDestination = audioCtx.createMediaStreamDestination();
+  const stream = new MediaStream([
+    ...canvas.captureStream(30).getVideoTracks(),
+    ...audioDestination.stream.getAudioTracks(),
+  ]);
+
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>((resolve) => { recorder.onstop = () => resolve(); });
+
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+
+  let frameId = 0;
+  const draw = () => {
+    drawContained(ctx, video, width, height);
+    frameId = requestAnimationFrame(draw);
+  };
+
+  const totalDuration = segments.reduce((sum, segment) => sum + segment.duration, 0);
+  let elapsed = 0;
+
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+  recorder.start(1000);
+  draw();
+
+  try {
+    for (const [index, segment] of segments.entries()) {
+      video.src = segment.src;
+      await waitForEvent(video, 'loadeddata');
+
+      video.loop = segment.fit === ClipFitMode.LOOP;
+      video.playbackRate = segment.fit === ClipFitMode.STRETCH
+        ? Math.min(4, Math.max(0.25, video.duration / segment.duration))
+        : 1;
+
+      if (segment.audio) {
+        const source = audioCtx.createBufferSource();
+        source.buffer = segment.audio;
+        source.connect(audioDestination);
+        source.start();
+      }
+      await video.play();
+
+      // A trimmed clip that runs out before the narration holds on its last frame
+      const start = performance.now();
+      while (performance.now() - start < segment.duration * 1000) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+        const segmentElapsed = Math.min(segment.duration, (performance.now() - start) / 1000);
+        onProgress?.((elapsed + segmentElapsed) / totalDuration, index);
+      }
+      video.pause();
+      elapsed += segment.duration;
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+    cancelAnimationFrame(frameId);
+    stream.getTracks().forEach(track => track.stop());
+    await audioCtx.close();
+    video.removeAttribute('src');
+    video.load();
+  }
+
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+};
+
+export interface EditClip {
+  id: string;
+  title: string;
+  src: string; // Object URL of the source video
+  duration: number; // Full length of the source
+  inPoint: number;
+  outPoint: number;
+}
+
+export interface EditOptions {
+  crossfade?: number; // Seconds each clip overlaps the next one
+  speed?: number;
+  width?: number;
+  height?: number;
+  format?: ComposeFormat;
+  onProgress?: (progress: number, stage: 'render' | 'encode') => void;
+  signal?: AbortSignal;
+}
+
+export interface TimelineEntry {
+  clip: EditClip;
+  start: number; // Seconds on the edit timeline, before the speed change
+  end: number;
+}
+
+export const SPEED_PRESETS = [0.5, 1, 1.5, 2, 4];
+export const MAX_CROSSFADE = 2;
+
+/** Lays clips out back-to-back, pulling each one in by the crossfade. Fades never exceed half a clip. */
+export const editTimeline = (clips: EditClip[], crossfade = 0): TimelineEntry[] => {
+  const entries: TimelineEntry[] = [];
+  for (const clip of clips) {
+    const length = Math.max(0, clip.outPoint - clip.inPoint);
+    const previous = entries[entries.length - 1];
+    const overlap = previous ? Math.min(crossfade, length / 2, (previous.end - previous.start) / 2) : 0;
+    const start = previous ? previous.end - overlap : 0;
+    entries.push({ clip, start, end: start + length });
+  }
+  return entries;
+};
+
+/** Output length in seconds once the speed is applied */
+export const editDuration = (clips: EditClip[], crossfade = 0, speed = 1) =>
+  (editTimeline(clips, crossfade).at(-1)?.end ?? 0) / speed;
+
+export const loadVideoDuration = async (src: string) => {
+  const video = document.createElement('video');
+  video.preload = 'metadata';
+  video.src = src;
+  await waitForEvent(video, 'loadedmetadata');
+  return video.duration;
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Renders trimmed clips with crossfades and a speed change by playing them onto a canvas in real time.
+ * The recording is WebM; MP4 comes straight from MediaRecorder where supported and is otherwise
+ * transcoded with the WASM encoder afterwards.
+ */
+export const renderEdit = async (
+  clips: EditClip[],
+  { crossfade = 0, speed = 1, width = 1280, height = 720, format = 'webm', onProgress, signal }: EditOptions = {},
+): Promise<Blob> => {
+  const recordFormat: ComposeFormat = format === 'mp4' && getRecorderMimeType('mp4') ? 'mp4' : 'webm';
+  const mimeType = getRecorderMimeType(recordFormat);
+  if (!mimeType) throw new Error('This browser cannot record video.');
+  const timeline = editTimeline(clips.filter(clip => clip.outPoint > clip.inPoint), crossfade);
+  if (timeline.length === 0) throw new Error('Nothing to export.');
+  const total = timeline[timeline.length - 1].end;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+
+  const audioCtx = new AudioContext();
+  const audioDestination = audioCtx.createMediaStreamDestination();
+  const stream = new MediaStream([
+    ...canvas.captureStream(30).getVideoTracks(),
+    ...audioDestination.stream.getAudioTracks(),
+  ]);
+
+  // Clip audio goes only to the recording, so nothing is heard while exporting
+  const players = await Promise.all(timeline.map(async ({ clip }) => {
+    const video = document.createElement('video');
+    video.src = clip.src;
+    video.playsInline = true;
+    video.preload = 'auto';
+    await waitForEvent(video, 'loadeddata');
+    video.playbackRate = speed;
+    const gain = audioCtx.createGain();
+    audioCtx.createMediaElementSource(video).connect(gain).connect(audioDestination);
+    return { video, gain };
+  }));
+
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>((resolve) => { recorder.onstop = () => resolve(); });
+
+  let frameId = 0;
+  const finished = new Promise<void>((resolve, reject) => {
+    const startedAt = performance.now();
+    const frame = () => {
+      if (signal?.aborted) {
+        reject(new DOMException('Export cancelled.', 'AbortError'));
+        return;
+      }
+      const time = Math.min(total, ((performance.now() - startedAt) / 1000) * speed);
+      let drawn = false;
+      timeline.forEach(({ clip, start, end }, i) => {
+        const { video, gain } = players[i];
+        const isActive = time >= start && time < end;
+        if (!isActive) {
+          if (!video.paused) video.pause();
+          return;
+        }
+        const fadeIn = i > 0 && start < timeline[i - 1].end ? clamp01((time - start) / (timeline[i - 1].end - start)) : 1;
+        const fadeOut = i < timeline.length - 1 && timeline[i + 1].start < end ? clamp01((end - time) / (end - timeline[i + 1].start)) : 1;
+        if (video.paused && video.currentTime < clip.outPoint) {
+          video.currentTime = clip.inPoint + (time - start);
+          video.play().catch(() => {});
+        }
+        // A clip that reaches its out point early holds its last frame
+        if (video.currentTime >= clip.outPoint) video.pause();
+        gain.gain.value = Math.min(fadeIn, fadeOut);
+        drawContained(ctx, video, width, height, drawn ? fadeIn : 1);
+        drawn = true;
+      });
+      onProgress?.(time / total, 'render');
+      if (time >= total) {
+        resolve();
+        return;
+      }
+      frameId = requestAnimationFrame(frame);
+    };
+    frameId = requestAnimationFrame(frame);
+  });
+
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+  recorder.start(1000);
+  try {
+    await finished;
+  } finally {
+    cancelAnimationFrame(frameId);
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach(track => track.stop());
+    players.forEach(({ video }) => {
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+    });
+    await audioCtx.close();
+  }
+
+  const recording = new Blob(chunks, { type: mimeType.split(';')[0] });
+  if (format === 'mp4' && recordFormat !== 'mp4') {
+    return transcodeToMp4(recording, progress => onProgress?.(progress, 'encode'));
+  }
+  return recording;
+};
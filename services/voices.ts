@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { SpeechOptions } from './providers';
+
+export interface PrebuiltVoice {
+  name: string;
+  character: string; // How Google describes the voice
+}
+
+/** Every prebuilt voice of the Gemini TTS and Live models */
+export const PREBUILT_VOICES: PrebuiltVoice[] = [
+  { name: 'Achernar', character: 'Soft' },
+  { name: 'Achird', character: 'Friendly' },
+  { name: 'Algenib', character: 'Gravelly' },
+  { name: 'Algieba', character: 'Smooth' },
+  { name: 'Alnilam', character: 'Firm' },
+  { name: 'Aoede', character: 'Breezy' },
+  { name: 'Autonoe', character: 'Bright' },
+  { name: 'Callirrhoe', character: 'Easy-going' },
+  { name: 'Charon', character: 'Informative' },
+  { name: 'Despina', character: 'Smooth' },
+  { name: 'Enceladus', character: 'Breathy' },
+  { name: 'Erinome', character: 'Clear' },
+  { name: 'Fenrir', character: 'Excitable' },
+  { name: 'Gacrux', character: 'Mature' },
+  { name: 'Iapetus', character: 'Clear' },
+  { name: 'Kore', character: 'Firm' },
+  { name: 'Laomedeia', character: 'Upbeat' },
+  { name: 'Leda', character: 'Youthful' },
+  { name: 'Orus', character: 'Firm' },
+  { name: 'Puck', character: 'Upbeat' },
+  { name: 'Pulcherrima', character: 'Forward' },
+  { name: 'Rasalgethi', character: 'Informative' },
+  { name: 'Sadachbia', character: 'Lively' },
+  { name: 'Sadaltager', character: 'Knowledgeable' },
+  { name: 'Schedar', character: 'Even' },
+  { name: 'Sulafat', character: 'Warm' },
+  { name: 'Umbriel', character: 'Easy-going' },
+  { name: 'Vindemiatrix', character: 'Gentle' },
+  { name: 'Zephyr', character: 'Bright' },
+  { name: 'Zubenelgenubi', character: 'Casual' },
+];
+
+export const DEFAULT_TTS_VOICE = 'Kore';
+export const DEFAULT_LIVE_VOICE = 'Zephyr';
+// A contrasting second narrator for dialogue
+export const DEFAULT_SECOND_VOICE = 'Puck';
+
+/** The TTS model renders at most two distinct speakers in one request */
+export const MAX_SPEAKERS = 2;
+
+export type SpeechPace = 'slow' | 'natural' | 'fast';
+
+export interface SpeechStyle {
+  pace: SpeechPace;
+  tone: string; // e.g. 'warm', 'enthusiastic'; empty keeps the voice's own character
+  emphasis: string; // Free-form direction, e.g. 'stress the key terms'
+}
+
+export const DEFAULT_SPEECH_STYLE: SpeechStyle = { pace: 'natural', tone: '', emphasis: '' };
+
+export const SPEECH_TONES = ['warm', 'enthusiastic', 'calm', 'serious', 'playful', 'encouraging', 'authoritative'];
+
+/** Turns the style controls into the natural-language direction the TTS model follows */
+export const describeSpeechStyle = ({ pace, tone, emphasis }: SpeechStyle) => {
+  const parts: string[] = [];
+  if (tone) parts.push(`in a ${tone} tone`);
+  if (pace === 'slow') parts.push('at a slow, deliberate pace');
+  if (pace === 'fast') parts.push('at a brisk pace');
+  const direction = parts.length ? `Read ${parts.join(' ')}.` : '';
+  return [direction, emphasis.trim()].filter(Boolean).join(' ');
+};
+
+export interface ScriptLine {
+  speaker: string;
+  text: string;
+}
+
+// "Teacher: Welcome back." — a short name, then a colon
+const SPEAKER_TAG = /^\s*([A-Za-z][\w .'-]{0,30}?)\s*:\s*(.+)$/;
+
+/** Splits a `Name: line` script; untagged lines continue the previous speaker's turn */
+export const parseSpeakerScript = (script: string) => {
+  const lines: ScriptLine[] = [];
+  for (const raw of script.split('\n')) {
+    if (!raw.trim()) continue;
+    const match = raw.match(SPEAKER_TAG);
+    if (match) {
+      lines.push({ speaker: match[1].trim(), text: match[2].trim() });
+    } else if (lines.length > 0) {
+      lines[lines.length - 1].text += ` ${raw.trim()}`;
+    } else {
+      return { speakers: [], lines: [] };
+    }
+  }
+  const speakers = [...new Set(lines.map(line => line.speaker))];
+  return { speakers, lines };
+};
+
+/**
+ * Speech options for a script. Only when `dialogue` is on does a script tagged with exactly two speakers
+ * get one voice each; otherwise labels like "Key idea:" are ordinary narration read by the first voice.
+ */
+export const speechOptionsForScript = (
+  script: string,
+  voices: string[],
+  { dialogue = false, style }: { dialogue?: boolean; style?: string } = {},
+): SpeechOptions => {
+  const { speakers } = parseSpeakerScript(script);
+  if (dialogue && speakers.length === MAX_SPEAKERS) {
+    return {
+      style,
+      speakers: speakers.map((speaker, i) => ({ speaker, voiceName: voices[i] ?? DEFAULT_TTS_VOICE })),
+    };
+  }
+  return { style, voiceName: voices[0] ?? DEFAULT_TTS_VOICE };
+};
@@ -5,6 +5,16 @@
 */
 import {Video} from '@google/genai';
 
+declare global {
+  interface Window {
+    // Injected by AI Studio for paid API key selection
+    aistudio?: {
+      hasSelectedApiKey: () => Promise<boolean>;
+      openSelectKey: () => Promise<void>;
+    };
+  }
+}
+
 export enum AppState {
   IDLE,
   LOADING,
@@ -18,6 +28,8 @@ export enum NavigationTab {
   VOICE = 'Voice Lab',
   INTELLIGENCE = 'Intelligence Lab',
   COURSE = 'Course Studio',
+  JOBS = 'Render Queue',
+  LIBRARY = 'Library',
 }
 
 export enum VeoModel {
@@ -60,6 +72,30 @@ export interface ImageFile {
   base64: string;
 }
 
+/** Where an image handed over from another lab lands in the Video Lab form */
+export enum ImageSlot {
+  START_FRAME = 'Start Frame',
+  END_FRAME = 'End Frame',
+  REFERENCE = 'Reference Image',
+  STYLE = 'Style Image',
+}
+
+export interface ImageHandoff {
+  image: ImageFile;
+  slot: ImageSlot;
+}
+
+/** A saved set of references that keeps characters and visual identity the same across clips */
+export interface ConsistencyKit {
+  id: string;
+  name: string;
+  referenceImages: ImageFile[]; // Characters, mascots, products
+  styleImage: ImageFile | null;
+  promptSuffix: string; // Appended to every prompt the kit is used with
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface VideoFile {
   file: File;
   base64: string;
@@ -93,4 +129,116 @@ export interface ChatMessage {
   images?: string[];
   groundingUrls?: {uri: string; title: string}[];
   isThinking?: boolean;
+  thoughts?: string; // Thought summary streamed alongside the answer
+  isStreaming?: boolean;
+  stopped?: boolean; // Stopped by the user before the answer was complete
+}
+
+export interface ChatThread {
+  id: string;
+  name: string;
+  messages: ChatMessage[];
+  summary?: string | null; // Rolling summary of the turns that no longer fit the context budget
+  summarizedCount: number; // How many leading messages the summary covers
+  createdAt: number;
+  updatedAt: number;
+}
+
+export enum SceneStatus {
+  DRAFT = 'Draft',
+  RENDERING = 'Rendering',
+  READY = 'Ready',
+  FAILED = 'Failed',
+}
+
+export enum ClipFitMode {
+  LOOP = 'Loop',
+  STRETCH = 'Slow Down',
+  TRIM = 'Trim',
+}
+
+export interface CourseScene {
+  id: string;
+  title: string;
+  narration: string; // The slice of the source script this scene covers
+  directorPrompt: string;
+  durationSeconds: number; // Target on-screen time for the scene
+  status: SceneStatus;
+  videoUrl?: string | null;
+  videoBlob?: Blob | null;
+  videoObject?: Video | null;
+  error?: Error | null;
+  fitMode: ClipFitMode; // How the clip is conformed to the narration length
+  narrationStatus?: SceneStatus;
+  narrationAudio?: string | null; // Base64 24kHz 16-bit PCM from the TTS model
+  narrationDuration?: number | null;
+}
+
+export enum QuestionType {
+  MULTIPLE_CHOICE = 'Multiple Choice',
+  TRUE_FALSE = 'True / False',
+  SHORT_ANSWER = 'Short Answer',
+}
+
+export enum QuizDifficulty {
+  EASY = 'Easy',
+  MEDIUM = 'Medium',
+  HARD = 'Hard',
+}
+
+export interface QuizOption {
+  text: string;
+  explanation: string; // Why this option is right, or why the distractor is wrong
+}
+
+export interface QuizQuestion {
+  id: string;
+  type: QuestionType;
+  prompt: string;
+  options: QuizOption[]; // Empty for short answer questions
+  correctOption: number; // Index into options; ignored for short answer
+  answer: string; // Model answer, used as the key for short answer questions
+  explanation: string;
+  difficulty: QuizDifficulty;
+  academicLevel: string;
+}
+
+export interface CaptionCue {
+  id: string;
+  start: number; // Seconds
+  end: number;
+  text: string;
+  speaker?: string; // Voice of the cue, for transcripts with more than one speaker
+}
+
+export interface TranscriptSegment {
+  id: string;
+  start: number; // Seconds
+  end: number;
+  speaker: string; // A name when the recording reveals one, otherwise 'Speaker 1', 'Speaker 2', ...
+  text: string;
+  confidence: number; // 0-1, the model's own estimate of how accurately the words were heard
+}
+
+export enum AssetKind {
+  VIDEO = 'Video',
+  IMAGE = 'Image',
+  AUDIO = 'Audio',
+  TRANSCRIPT = 'Transcript',
+}
+
+export interface LibraryAsset {
+  id: string;
+  kind: AssetKind;
+  title: string;
+  tags: string[];
+  source: NavigationTab; // The lab that produced the asset
+  createdAt: number;
+  updatedAt: number;
+  blob?: Blob | null; // Media payload for videos, images and audio
+  text?: string | null; // Plain text payload for transcripts
+  messages?: ChatMessage[]; // Chat transcripts keep the full conversation
+  prompt?: string | null;
+  videoParams?: GenerateVideoParams | null;
+  metadata?: Record<string, unknown>;
 }